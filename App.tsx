@@ -15,16 +15,25 @@ import MainMenu from "./src/components/MainMenu";
 import CharacterSelect from "./src/components/CharacterSelect";
 import GameScreen from "./src/components/GameScreen";
 import OptionsScreen from "./src/components/OptionsScreen";
+import ReplayScreen from "./src/components/ReplayScreen";
+import { InputRecording } from "./src/simulation/InputRecorder";
 
 const { width: screenWidth, height: screenHeight } = Dimensions.get("window");
 
-type ScreenType = "menu" | "character-select" | "game" | "options";
+type ScreenType =
+  | "menu"
+  | "character-select"
+  | "game"
+  | "options"
+  | "replay";
 
 const App: React.FC = () => {
   const [currentScreen, setCurrentScreen] = useState<ScreenType>("menu");
   const [selectedCharacter, setSelectedCharacter] = useState<string | null>(
     null
   );
+  const [replayRecording, setReplayRecording] =
+    useState<InputRecording | null>(null);
 
   const renderScreen = () => {
     switch (currentScreen) {
@@ -33,6 +42,14 @@ const App: React.FC = () => {
           <MainMenu
             onPlayGame={() => setCurrentScreen("character-select")}
             onOptions={() => setCurrentScreen("options")}
+            onGameLoaded={() => {
+              setSelectedCharacter(null);
+              setCurrentScreen("game");
+            }}
+            onWatchReplay={(recording) => {
+              setReplayRecording(recording);
+              setCurrentScreen("replay");
+            }}
           />
         );
       case "character-select":
@@ -54,11 +71,26 @@ const App: React.FC = () => {
         );
       case "options":
         return <OptionsScreen onBack={() => setCurrentScreen("menu")} />;
+      case "replay":
+        return replayRecording ? (
+          <ReplayScreen
+            recording={replayRecording}
+            onBack={() => setCurrentScreen("menu")}
+          />
+        ) : null;
       default:
         return (
           <MainMenu
             onPlayGame={() => setCurrentScreen("character-select")}
             onOptions={() => setCurrentScreen("options")}
+            onGameLoaded={() => {
+              setSelectedCharacter(null);
+              setCurrentScreen("game");
+            }}
+            onWatchReplay={(recording) => {
+              setReplayRecording(recording);
+              setCurrentScreen("replay");
+            }}
           />
         );
     }
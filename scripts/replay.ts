@@ -0,0 +1,14 @@
+import { readFileSync } from "fs";
+import { InputRecording } from "../src/simulation/InputRecorder";
+import { ReplayPlayer } from "../src/simulation/ReplayPlayer";
+
+// Replay an input recording without rendering and print its final state:
+//   npm run replay -- path/to/recording.json
+const [file] = process.argv.slice(2);
+if (!file) {
+  console.error("Usage: npm run replay -- <recording.json>");
+  process.exit(1);
+}
+
+const recording: InputRecording = JSON.parse(readFileSync(file, "utf8"));
+console.log(JSON.stringify(ReplayPlayer.runHeadless(recording), null, 2));
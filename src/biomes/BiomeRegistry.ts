@@ -0,0 +1,163 @@
+import {
+  EcosystemHealth,
+  EntityType,
+  EntityTypeValue,
+  WeatherEvent,
+} from "../types/gameTypes";
+import {
+  BiomeDefinition,
+  BiomeModifiers,
+  RoomDifficulty,
+  SizeRange,
+} from "../types/biomeTypes";
+import { BiomeSpecies, SpeciesRegistry } from "../species/SpeciesRegistry";
+import { ForestBiome } from "./forest";
+import { DesertBiome } from "./desert";
+import { LaboratoryBiome } from "./laboratory";
+
+const NEUTRAL_MODIFIERS: BiomeModifiers = {
+  speedMultiplier: 1.0,
+  aggressionMultiplier: 1.0,
+  reproductionRate: 1.0,
+  foodEfficiency: 1.0,
+  energyEfficiency: 1.0,
+};
+
+// Stand-in for rooms whose biome is not registered. Never part of the
+// dungeon, so it needs no species.
+const DEFAULT_BIOME: BiomeDefinition = {
+  id: "unknown",
+  name: "Unknown Room",
+  description: "An unknown area.",
+  difficulty: RoomDifficulty.EASY,
+  unlockLevel: 1,
+  style: LaboratoryBiome.style,
+  roomSize: {
+    width: { min: 500, max: 500 },
+    height: { min: 500, max: 500 },
+  },
+  ecosystemSettings: {
+    initialHealth: EcosystemHealth.FAIR,
+    growthRate: 1.0,
+    reproductionRate: 1.0,
+    hostilityLevel: 1,
+  },
+  factionSettings: {
+    hasFactions: false,
+    factionCount: 0,
+    hostilityLevel: 1,
+  },
+  modifiers: NEUTRAL_MODIFIERS,
+  soil: { nutrients: 0.5, moisture: 0.5 },
+  atmosphere: { oxygen: 0.75, contamination: 0 },
+  dayCycle: { dayLength: 240, nightLight: 0.2 },
+  weather: [{ event: WeatherEvent.RAIN, weight: 1 }],
+};
+
+// Every zone of the dungeon, looked up by the biome stored on rooms. Zones
+// are laid out in order of their unlock level, so adding one only takes a
+// new definition here and species that live in it.
+export class BiomeRegistry {
+  private static definitions: Map<string, BiomeDefinition> = new Map();
+
+  static register(definition: BiomeDefinition): void {
+    const problem = BiomeRegistry.validate(definition);
+    if (problem) {
+      throw new Error(
+        `Invalid biome definition "${definition.id}": ${problem}`
+      );
+    }
+    BiomeRegistry.definitions.set(definition.id, definition);
+  }
+
+  static get(id: string): BiomeDefinition | undefined {
+    return BiomeRegistry.definitions.get(id);
+  }
+
+  // The biome's definition, or neutral settings for an unknown biome
+  static getOrDefault(id: string): BiomeDefinition {
+    return BiomeRegistry.get(id) || DEFAULT_BIOME;
+  }
+
+  // Registered biomes in the order the player reaches them
+  static getZones(): BiomeDefinition[] {
+    return Array.from(BiomeRegistry.definitions.values()).sort(
+      (a, b) => a.unlockLevel - b.unlockLevel
+    );
+  }
+
+  // Behaviour factors for a kind of creature in a biome
+  static getModifiers(
+    id: string,
+    creatureType: EntityTypeValue
+  ): BiomeModifiers {
+    const definition = BiomeRegistry.getOrDefault(id);
+    if (creatureType === EntityType.DECOMPOSER) {
+      return definition.decomposerModifiers || NEUTRAL_MODIFIERS;
+    }
+    return definition.modifiers;
+  }
+
+  static getSpeciesPools(id: string): BiomeSpecies {
+    return SpeciesRegistry.getBiomeSpecies(id);
+  }
+
+  // Describe what is wrong with a definition, or return null if it is valid
+  private static validate(definition: BiomeDefinition): string | null {
+    if (!definition.id) return "missing id";
+    if (BiomeRegistry.definitions.has(definition.id)) {
+      return "id is already registered";
+    }
+    if (!definition.name) return "missing name";
+    if (!(definition.unlockLevel >= 1)) return "unlock level must be 1 or more";
+
+    const { width, height } = definition.roomSize;
+    if (!BiomeRegistry.isSizeRange(width)) return "invalid room width range";
+    if (!BiomeRegistry.isSizeRange(height)) return "invalid room height range";
+
+    const { hostilityLevel } = definition.ecosystemSettings;
+    if (!(hostilityLevel >= 0 && hostilityLevel <= 10)) {
+      return "hostility level must be between 0 and 10";
+    }
+
+    const { soil, atmosphere, dayCycle } = definition;
+    if (
+      ![
+        soil.nutrients,
+        soil.moisture,
+        atmosphere.oxygen,
+        atmosphere.contamination,
+        dayCycle.nightLight,
+      ].every(BiomeRegistry.isFraction)
+    ) {
+      return "soil, air and night light levels must be between 0 and 1";
+    }
+    if (!(dayCycle.dayLength > 0)) return "day length must be positive";
+
+    if (definition.weather.length === 0) return "no weather";
+    if (definition.weather.some(({ weight }) => !(weight > 0))) {
+      return "weather weights must be positive";
+    }
+
+    // Rooms are stocked with every kind of creature
+    const pools = BiomeRegistry.getSpeciesPools(definition.id);
+    const missing = (Object.keys(pools) as (keyof BiomeSpecies)[]).filter(
+      (kind) => pools[kind].length === 0
+    );
+    if (missing.length > 0) return `no species for ${missing.join(", ")}`;
+
+    return null;
+  }
+
+  private static isSizeRange(range: SizeRange): boolean {
+    return range.min > 0 && range.min <= range.max;
+  }
+
+  private static isFraction(value: number): boolean {
+    return value >= 0 && value <= 1;
+  }
+}
+
+[ForestBiome, DesertBiome, LaboratoryBiome].forEach((definition) =>
+  BiomeRegistry.register(definition)
+);
@@ -0,0 +1,65 @@
+import { EcosystemHealth, WeatherEvent } from "../types/gameTypes";
+import { BiomeDefinition, RoomDifficulty } from "../types/biomeTypes";
+
+// Second zone - medium rooms, resilient creatures and scarce resources
+export const DesertBiome: BiomeDefinition = {
+  id: "desert",
+  name: "Scorched Wasteland",
+  description:
+    "A harsh desert environment with resilient creatures and scarce resources.",
+  difficulty: RoomDifficulty.MEDIUM,
+  unlockLevel: 5,
+  style: {
+    backgroundColor: "#fef3c7",
+    wallColor: "#f59e0b",
+    wallBorderColor: "#d97706",
+    floorColor: "#fbbf24",
+    floorOpacity: 0.3,
+    gridColor: "#f59e0b",
+    gridOpacity: 0.4,
+    particleColor: "#fbbf24",
+    particleCount: 30,
+    particleSize: 1,
+    hasShadows: false,
+    shadowColor: "#000",
+    shadowOpacity: 0,
+  },
+  roomSize: {
+    width: { min: 1200, max: 1400 },
+    height: { min: 800, max: 1000 },
+  },
+  ecosystemSettings: {
+    initialHealth: EcosystemHealth.FAIR,
+    growthRate: 0.7,
+    reproductionRate: 0.8,
+    hostilityLevel: 5, // Medium hostility
+  },
+  factionSettings: {
+    hasFactions: true,
+    factionCount: 2,
+    hostilityLevel: 5,
+  },
+  modifiers: {
+    speedMultiplier: 1.2,
+    aggressionMultiplier: 1.1,
+    reproductionRate: 0.8,
+    foodEfficiency: 0.9,
+    energyEfficiency: 0.8,
+  },
+  // Dry ground slows decomposition down
+  decomposerModifiers: {
+    speedMultiplier: 0.8,
+    aggressionMultiplier: 1.0,
+    reproductionRate: 0.7,
+    foodEfficiency: 0.8,
+    energyEfficiency: 0.9,
+  },
+  soil: { nutrients: 0.3, moisture: 0.2 },
+  atmosphere: { oxygen: 0.7, contamination: 0 },
+  dayCycle: { dayLength: 240, nightLight: 0.1 },
+  weather: [
+    { event: WeatherEvent.SANDSTORM, weight: 3 },
+    { event: WeatherEvent.DROUGHT, weight: 2 },
+    { event: WeatherEvent.RAIN, weight: 0.5 },
+  ],
+};
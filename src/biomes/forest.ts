@@ -0,0 +1,59 @@
+import { EcosystemHealth, WeatherEvent } from "../types/gameTypes";
+import { BiomeDefinition, RoomDifficulty } from "../types/biomeTypes";
+
+// Starting zone - small rooms with gentle creatures
+export const ForestBiome: BiomeDefinition = {
+  id: "forest",
+  name: "Ancient Forest",
+  description:
+    "A peaceful forest with gentle creatures and a balanced ecosystem.",
+  difficulty: RoomDifficulty.EASY,
+  unlockLevel: 1,
+  style: {
+    backgroundColor: "#1b4332",
+    wallColor: "#2d5a3d",
+    wallBorderColor: "#40916c",
+    floorColor: "#2d5a3d",
+    floorOpacity: 0.15,
+    gridColor: "#74c69d",
+    gridOpacity: 0.25,
+    particleColor: "#95d5b2",
+    particleCount: 20,
+    particleSize: 3,
+    hasShadows: true,
+    shadowColor: "#000",
+    shadowOpacity: 0.4,
+    hasVines: true,
+    hasMoss: true,
+  },
+  roomSize: {
+    width: { min: 800, max: 1000 },
+    height: { min: 600, max: 800 },
+  },
+  ecosystemSettings: {
+    initialHealth: EcosystemHealth.GOOD,
+    growthRate: 1.0,
+    reproductionRate: 1.0,
+    hostilityLevel: 2, // Very low hostility
+  },
+  factionSettings: {
+    hasFactions: false,
+    factionCount: 0,
+    hostilityLevel: 1,
+  },
+  modifiers: {
+    speedMultiplier: 1.0,
+    aggressionMultiplier: 1.0,
+    reproductionRate: 1.0,
+    foodEfficiency: 1.0,
+    energyEfficiency: 1.0,
+  },
+  soil: { nutrients: 0.6, moisture: 0.7 },
+  atmosphere: { oxygen: 0.8, contamination: 0 },
+  dayCycle: { dayLength: 240, nightLight: 0.15 },
+  weather: [
+    { event: WeatherEvent.RAIN, weight: 3 },
+    { event: WeatherEvent.FOG, weight: 2 },
+    { event: WeatherEvent.DROUGHT, weight: 1 },
+  ],
+};
@@ -0,0 +1,62 @@
+import { EcosystemHealth, WeatherEvent } from "../types/gameTypes";
+import { BiomeDefinition, RoomDifficulty } from "../types/biomeTypes";
+
+// Third zone - large rooms with mutated creatures and unstable ecosystems
+export const LaboratoryBiome: BiomeDefinition = {
+  id: "laboratory",
+  name: "Abandoned Laboratory",
+  description:
+    "A dangerous lab with mutated creatures and unstable ecosystems.",
+  difficulty: RoomDifficulty.HARD,
+  unlockLevel: 10,
+  style: {
+    backgroundColor: "#1e293b",
+    wallColor: "#475569",
+    wallBorderColor: "#64748b",
+    floorColor: "#334155",
+    floorOpacity: 0.1,
+    gridColor: "#94a3b8",
+    gridOpacity: 0.2,
+    particleColor: "#94a3b8",
+    particleCount: 15,
+    particleSize: 2,
+    hasShadows: true,
+    shadowColor: "#000",
+    shadowOpacity: 0.3,
+  },
+  roomSize: {
+    width: { min: 1600, max: 1800 },
+    height: { min: 1200, max: 1400 },
+  },
+  ecosystemSettings: {
+    initialHealth: EcosystemHealth.CRITICAL,
+    growthRate: 1.8, // Very fast but very unstable
+    reproductionRate: 1.5,
+    hostilityLevel: 10, // Maximum hostility
+  },
+  factionSettings: {
+    hasFactions: true,
+    factionCount: 5,
+    hostilityLevel: 10,
+  },
+  modifiers: {
+    speedMultiplier: 1.0,
+    aggressionMultiplier: 1.0,
+    reproductionRate: 1.0,
+    foodEfficiency: 1.0,
+    energyEfficiency: 1.0,
+  },
+  decomposerModifiers: {
+    speedMultiplier: 1.1,
+    aggressionMultiplier: 1.0,
+    reproductionRate: 1.2,
+    foodEfficiency: 1.0,
+    energyEfficiency: 1.0,
+  },
+  // Contaminants leak from the abandoned experiments, and the emergency
+  // lights stay on through the night
+  soil: { nutrients: 0.4, moisture: 0.5 },
+  atmosphere: { oxygen: 0.7, contamination: 0.4 },
+  dayCycle: { dayLength: 240, nightLight: 0.5 },
+  weather: [{ event: WeatherEvent.CHEMICAL_LEAK, weight: 1 }],
+};
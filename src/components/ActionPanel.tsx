@@ -183,6 +183,8 @@ const ActionPanel: React.FC = () => {
                     ? "🐀"
                     : selectedEntity.type === EntityType.CARNIVORE
                     ? "🕷️"
+                    : selectedEntity.type === EntityType.DECOMPOSER
+                    ? "🪲"
                     : "❓"}
                 </Text>
                 <View style={styles.entityInfo}>
@@ -223,6 +225,25 @@ const ActionPanel: React.FC = () => {
                     </Text>
                   </View>
                 )}
+
+                {selectedEntity.type === EntityType.DECOMPOSER && (
+                  <View style={styles.statItem}>
+                    <Text style={styles.statLabel}>Hunger</Text>
+                    <Text style={styles.statValue}>
+                      {Math.round((selectedEntity as any).hunger)}/
+                      {(selectedEntity as any).maxHunger}
+                    </Text>
+                  </View>
+                )}
+
+                {selectedEntity.state === EntityState.DECAYING && (
+                  <View style={styles.statItem}>
+                    <Text style={styles.statLabel}>Decay</Text>
+                    <Text style={styles.statValue}>
+                      {Math.ceil(selectedEntity.decayTimer)}s
+                    </Text>
+                  </View>
+                )}
               </View>
             </View>
           </View>
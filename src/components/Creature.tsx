@@ -1,6 +1,13 @@
 import React from "react";
 import { View, Text, StyleSheet } from "react-native";
-import { Position, EntityTypeValue, EntityType } from "../types/gameTypes";
+import {
+  Position,
+  EntityTypeValue,
+  EntityType,
+  EntityStateValue,
+  EntityState,
+} from "../types/gameTypes";
+import { SpeciesRegistry } from "../species/SpeciesRegistry";
 
 interface CreatureProps {
   id: string;
@@ -14,6 +21,10 @@ interface CreatureProps {
   species: string;
   hunger?: number;
   maxHunger?: number;
+  state?: EntityStateValue;
+  decayTimer?: number;
+  decayDuration?: number;
+  factionColor?: string | undefined; // Ring in the color of its faction
   showRanges?: boolean;
   screenWidth?: number;
   screenHeight?: number;
@@ -30,104 +41,23 @@ const Creature: React.FC<CreatureProps> = ({
   species,
   hunger,
   maxHunger,
+  state = EntityState.ALIVE,
+  decayTimer = 0,
+  decayDuration = 0,
+  factionColor,
   showRanges = false,
   screenWidth = 400,
   screenHeight = 600,
 }) => {
-  const getCreatureIcon = (type: EntityTypeValue, species: string) => {
-    switch (type) {
-      case EntityType.PLANT:
-        return "🌱";
-      case EntityType.HERBIVORE:
-        switch (species) {
-          case "rabbit":
-            return "🐰";
-          case "deer":
-            return "🦌";
-          case "mouse":
-            return "🐁";
-          default:
-            return "🐰";
-        }
-      case EntityType.CARNIVORE:
-        switch (species) {
-          case "rat":
-            return "🐀";
-          case "wolf":
-            return "🐺";
-          case "snake":
-            return "🐍";
-          default:
-            return "🐀";
-        }
-      default:
-        return "❓";
-    }
-  };
+  const sprite = SpeciesRegistry.getSprite(type, species);
 
-  const getCreatureColor = (type: EntityTypeValue, species: string) => {
-    switch (type) {
-      case EntityType.PLANT:
-        return "#4ade80"; // Green
-      case EntityType.HERBIVORE:
-        switch (species) {
-          case "rabbit":
-            return "#f3f4f6"; // Light gray
-          case "deer":
-            return "#d97706"; // Orange
-          case "mouse":
-            return "#fbbf24"; // Yellow
-          default:
-            return "#f3f4f6";
-        }
-      case EntityType.CARNIVORE:
-        switch (species) {
-          case "rat":
-            return "#6b7280"; // Gray
-          case "wolf":
-            return "#374151"; // Dark gray
-          case "snake":
-            return "#059669"; // Green
-          default:
-            return "#6b7280";
-        }
-      default:
-        return "#94a3b8";
-    }
-  };
+  const isDecaying = state === EntityState.DECAYING;
+  const isCarcass = state === EntityState.DEAD || isDecaying;
+  // Carcasses fade as they rot away
+  const decayProgress =
+    isDecaying && decayDuration > 0 ? decayTimer / decayDuration : 1;
 
-  const getCreatureSize = (type: EntityTypeValue, species: string) => {
-    switch (type) {
-      case EntityType.PLANT:
-        return 25;
-      case EntityType.HERBIVORE:
-        switch (species) {
-          case "rat":
-            return 30;
-          case "rabbit":
-            return 35;
-          case "deer":
-            return 45;
-          default:
-            return 30;
-        }
-      case EntityType.CARNIVORE:
-        switch (species) {
-          case "spider":
-            return 28;
-          case "wolf":
-            return 40;
-          case "snake":
-            return 35;
-          default:
-            return 28;
-        }
-      default:
-        return 30;
-    }
-  };
-
-  const size = getCreatureSize(type, species);
+  const size = sprite.size;
   const screenX = position.x - size / 2;
   const screenY = position.y - size / 2;
 
@@ -151,11 +81,22 @@ const Creature: React.FC<CreatureProps> = ({
           top: screenY,
           width: size,
           height: size,
+          opacity: isCarcass ? 0.3 + decayProgress * 0.4 : 1,
         },
       ]}
     >
+      {/* Faction ring */}
+      {factionColor && !isCarcass && (
+        <View
+          style={[
+            styles.factionRing,
+            { borderColor: factionColor, borderRadius: size / 2 },
+          ]}
+        />
+      )}
+
       <Text style={[styles.creatureIcon, { fontSize: size * 0.6 }]}>
-        {getCreatureIcon(type, species)}
+        {sprite.icon}
       </Text>
 
       {/* Range indicators */}
@@ -178,8 +119,13 @@ const Creature: React.FC<CreatureProps> = ({
         </>
       )}
 
+      {/* Decay timer for rotting carcasses */}
+      {isDecaying && (
+        <Text style={styles.decayTimer}>⏳ {Math.ceil(decayTimer)}s</Text>
+      )}
+
       {/* Health bar for creatures */}
-      {type !== EntityType.PLANT && (
+      {type !== EntityType.PLANT && !isCarcass && (
         <View style={styles.healthBar}>
           <View
             style={[
@@ -195,7 +141,10 @@ const Creature: React.FC<CreatureProps> = ({
       )}
 
       {/* Hunger bar for herbivores and carnivores */}
-      {(type === EntityType.HERBIVORE || type === EntityType.CARNIVORE) &&
+      {(type === EntityType.HERBIVORE ||
+        type === EntityType.CARNIVORE ||
+        type === EntityType.DECOMPOSER) &&
+        !isCarcass &&
         hunger !== undefined &&
         maxHunger !== undefined && (
           <View style={styles.hungerBar}>
@@ -225,6 +174,22 @@ const styles = StyleSheet.create({
   creatureIcon: {
     textAlign: "center",
   },
+  factionRing: {
+    position: "absolute",
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    borderWidth: 2,
+  },
+  decayTimer: {
+    position: "absolute",
+    top: -14,
+    fontSize: 9,
+    color: "#d6d3d1",
+    width: 60,
+    textAlign: "center",
+  },
   healthBar: {
     position: "absolute",
     bottom: -6,
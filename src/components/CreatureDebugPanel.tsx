@@ -1,6 +1,32 @@
 import React from "react";
 import { View, Text, ScrollView, StyleSheet } from "react-native";
-import { IEntity, EntityType } from "../types/gameTypes";
+import {
+  IEntity,
+  EntityType,
+  EntityState,
+  Herbivore,
+  Carnivore,
+  Decomposer,
+  MemoryKind,
+  MemoryKindValue,
+  MemoryPoint,
+} from "../types/gameTypes";
+import { SpeciesRegistry } from "../species/SpeciesRegistry";
+import { DiseaseModel } from "../simulation/DiseaseModel";
+
+// Colors of remembered places on a creature's memory map
+const MemoryColors: Record<MemoryKindValue, string> = {
+  [MemoryKind.FOOD]: "#4ade80",
+  [MemoryKind.PREY]: "#f59e0b",
+  [MemoryKind.DANGER]: "#ef4444",
+};
+
+// Size of the memory map and the pixels of the room it covers on each side
+// of the creature
+const MEMORY_MAP_WIDTH = 160;
+const MEMORY_MAP_HEIGHT = 80;
+const MEMORY_MAP_RANGE = 500;
+const MEMORY_DOT_SIZE = 6;
 
 interface CreatureDebugPanelProps {
   entities: IEntity[];
@@ -13,17 +39,19 @@ const CreatureDebugPanel: React.FC<CreatureDebugPanelProps> = ({
 }) => {
   if (!visible) return null;
 
-  // Filter to only show creatures (herbivores and carnivores)
+  // Filter to only show creatures (herbivores, carnivores and decomposers)
   const creatures = entities.filter(
-    (entity) =>
+    (entity): entity is Herbivore | Carnivore | Decomposer =>
       entity.type === EntityType.HERBIVORE ||
-      entity.type === EntityType.CARNIVORE
+      entity.type === EntityType.CARNIVORE ||
+      entity.type === EntityType.DECOMPOSER
   );
 
   const getStateColor = (state: string) => {
     switch (state) {
       case "hunting":
       case "grazing":
+      case "scavenging":
         return "#4ade80"; // Green for food-seeking
       case "fleeing":
         return "#ef4444"; // Red for fleeing
@@ -49,9 +77,71 @@ const CreatureDebugPanel: React.FC<CreatureDebugPanelProps> = ({
     return "#4ade80"; // Green for not hungry
   };
 
+  // Place on the memory map of a point remembered at an offset from the
+  // creature, pinned to the edge if it is out of range
+  const toMapPosition = (dx: number, dy: number) => {
+    const scale = MEMORY_MAP_WIDTH / (MEMORY_MAP_RANGE * 2);
+    const clamp = (value: number, max: number) =>
+      Math.max(0, Math.min(max - MEMORY_DOT_SIZE, value));
+    return {
+      left: clamp(
+        MEMORY_MAP_WIDTH / 2 + dx * scale - MEMORY_DOT_SIZE / 2,
+        MEMORY_MAP_WIDTH
+      ),
+      top: clamp(
+        MEMORY_MAP_HEIGHT / 2 + dy * scale - MEMORY_DOT_SIZE / 2,
+        MEMORY_MAP_HEIGHT
+      ),
+    };
+  };
+
+  // Remembered places of each kind, e.g. "2 food · 0 prey · 1 danger"
+  const summarizeMemories = (memories: MemoryPoint[]) =>
+    Object.values(MemoryKind)
+      .map(
+        (kind) =>
+          `${memories.filter((point) => point.kind === kind).length} ${kind}`
+      )
+      .join(" · ");
+
+  // Small values such as thresholds need decimals, speeds and ranges don't
+  const formatTrait = (value: number) =>
+    value < 10 ? value.toFixed(2) : value.toFixed(0);
+
+  // Mean prey speed in the room - rises as predators catch the slow ones
+  const herbivores = creatures.filter(
+    (creature) => creature.type === EntityType.HERBIVORE
+  );
+  const meanPreySpeed =
+    herbivores.length > 0
+      ? herbivores.reduce((sum, creature) => sum + creature.speed, 0) /
+        herbivores.length
+      : null;
+
+  const infectedCount = DiseaseModel.countInfected(creatures);
+
+  // Members of each hunting pack in the room, by leader ID
+  const packSizes = new Map<string, number>();
+  creatures.forEach((creature) => {
+    const pack = (creature as Carnivore).pack;
+    if (creature.type === EntityType.CARNIVORE && pack) {
+      packSizes.set(pack, (packSizes.get(pack) ?? 0) + 1);
+    }
+  });
+
   return (
     <View style={styles.container}>
       <Text style={styles.title}>Creature Debug Panel</Text>
+      {meanPreySpeed !== null && (
+        <Text style={styles.summary}>
+          Mean prey speed: {meanPreySpeed.toFixed(1)}
+        </Text>
+      )}
+      {infectedCount > 0 && (
+        <Text style={[styles.summary, styles.infected]}>
+          Infected: {infectedCount}
+        </Text>
+      )}
       <ScrollView
         style={styles.scrollView}
         showsVerticalScrollIndicator={false}
@@ -60,19 +150,26 @@ const CreatureDebugPanel: React.FC<CreatureDebugPanelProps> = ({
           <Text style={styles.noCreatures}>No creatures in current room</Text>
         ) : (
           creatures.map((creature) => {
-            const hungerPercent =
-              ((creature as any).hunger / (creature as any).maxHunger) * 100;
+            const hungerPercent = (creature.hunger / creature.maxHunger) * 100;
             const stateColor = getStateColor(creature.state);
             const hungerColor = getHungerColor(
-              (creature as any).hunger,
-              (creature as any).maxHunger
+              creature.hunger,
+              creature.maxHunger
             );
+            const { infection, immunity, memories } = creature;
+            const hunter =
+              creature.type === EntityType.CARNIVORE
+                ? (creature as Carnivore)
+                : null;
 
             return (
               <View key={creature.id} style={styles.creatureCard}>
                 <View style={styles.creatureHeader}>
                   <Text style={styles.creatureType}>
-                    {creature.type === EntityType.HERBIVORE ? "🦌" : "🐺"}{" "}
+                    {
+                      SpeciesRegistry.getSprite(creature.type, creature.species)
+                        .icon
+                    }{" "}
                     {creature.type}
                   </Text>
                   <Text style={styles.creatureId}>
@@ -88,6 +185,15 @@ const CreatureDebugPanel: React.FC<CreatureDebugPanelProps> = ({
                     </Text>
                   </View>
 
+                  {creature.state === EntityState.DECAYING && (
+                    <View style={styles.infoRow}>
+                      <Text style={styles.infoLabel}>Decay:</Text>
+                      <Text style={styles.infoValue}>
+                        {Math.ceil(creature.decayTimer)}s left
+                      </Text>
+                    </View>
+                  )}
+
                   <View style={styles.infoRow}>
                     <Text style={styles.infoLabel}>Hunger:</Text>
                     <Text style={[styles.infoValue, { color: hungerColor }]}>
@@ -102,6 +208,39 @@ const CreatureDebugPanel: React.FC<CreatureDebugPanelProps> = ({
                     </Text>
                   </View>
 
+                  {infection && (
+                    <View style={styles.infoRow}>
+                      <Text style={styles.infoLabel}>Infection:</Text>
+                      <Text style={[styles.infoValue, styles.infected]}>
+                        {DiseaseModel.getPathogen(infection.pathogen).icon}{" "}
+                        {DiseaseModel.getPathogen(infection.pathogen).name} (
+                        {Math.ceil(infection.remaining)}s)
+                      </Text>
+                    </View>
+                  )}
+
+                  {immunity > 0 && (
+                    <View style={styles.infoRow}>
+                      <Text style={styles.infoLabel}>Immune:</Text>
+                      <Text style={styles.infoValue}>
+                        {Math.ceil(immunity)}s
+                      </Text>
+                    </View>
+                  )}
+
+                  {hunter && (
+                    <View style={styles.infoRow}>
+                      <Text style={styles.infoLabel}>Pack:</Text>
+                      <Text style={styles.infoValue}>
+                        {hunter.pack
+                          ? `${hunter.packRole} of ${hunter.pack.slice(-4)} (${
+                              packSizes.get(hunter.pack) ?? 1
+                            })`
+                          : "alone"}
+                      </Text>
+                    </View>
+                  )}
+
                   <View style={styles.infoRow}>
                     <Text style={styles.infoLabel}>Position:</Text>
                     <Text style={styles.infoValue}>
@@ -110,23 +249,77 @@ const CreatureDebugPanel: React.FC<CreatureDebugPanelProps> = ({
                     </Text>
                   </View>
 
-                  {(creature as any).speed && (
-                    <View style={styles.infoRow}>
-                      <Text style={styles.infoLabel}>Speed:</Text>
-                      <Text style={styles.infoValue}>
-                        {(creature as any).speed.toFixed(1)}
-                      </Text>
-                    </View>
+                  <View style={styles.infoRow}>
+                    <Text style={styles.infoLabel}>Speed:</Text>
+                    <Text style={styles.infoValue}>
+                      {creature.speed.toFixed(1)}
+                    </Text>
+                  </View>
+
+                  <View style={styles.infoRow}>
+                    <Text style={styles.infoLabel}>Active:</Text>
+                    <Text style={styles.infoValue}>{creature.activity}</Text>
+                  </View>
+
+                  <View style={styles.infoRow}>
+                    <Text style={styles.infoLabel}>Gen:</Text>
+                    <Text style={styles.infoValue}>{creature.generation}</Text>
+                  </View>
+                  {Object.entries(creature.genome.traits).map(
+                    ([trait, value]) => (
+                      <View key={trait} style={styles.infoRow}>
+                        <Text style={styles.genomeLabel}>{trait}</Text>
+                        <Text style={styles.genomeValue}>
+                          {formatTrait(value)}
+                        </Text>
+                      </View>
+                    )
                   )}
 
-                  {(creature as any).currentTarget && (
+                  {creature.currentTarget && (
                     <View style={styles.infoRow}>
                       <Text style={styles.infoLabel}>Target:</Text>
                       <Text style={styles.infoValue}>
-                        {(creature as any).currentTarget.slice(-4)}
+                        {creature.currentTarget.slice(-4)}
                       </Text>
                     </View>
                   )}
+
+                  {memories.length > 0 && (
+                    <>
+                      <View style={styles.infoRow}>
+                        <Text style={styles.infoLabel}>Memory:</Text>
+                        <Text style={styles.infoValue}>
+                          {summarizeMemories(memories)}
+                        </Text>
+                      </View>
+                      <View style={styles.memoryMap}>
+                        {memories.map((point, index) => (
+                          <View
+                            key={index}
+                            style={[
+                              styles.memoryDot,
+                              toMapPosition(
+                                point.x - creature.position.x,
+                                point.y - creature.position.y
+                              ),
+                              {
+                                backgroundColor: MemoryColors[point.kind],
+                                opacity: Math.max(0.2, point.strength),
+                              },
+                            ]}
+                          />
+                        ))}
+                        <View
+                          style={[
+                            styles.memoryDot,
+                            styles.memorySelf,
+                            toMapPosition(0, 0),
+                          ]}
+                        />
+                      </View>
+                    </>
+                  )}
                 </View>
               </View>
             );
@@ -158,6 +351,15 @@ const styles = StyleSheet.create({
     borderBottomWidth: 1,
     borderBottomColor: "#334155",
   },
+  summary: {
+    fontSize: 12,
+    color: "#94a3b8",
+    paddingHorizontal: 12,
+    paddingTop: 8,
+  },
+  infected: {
+    color: "#a3e635", // Sickly green
+  },
   scrollView: {
     maxHeight: 250,
   },
@@ -205,6 +407,31 @@ const styles = StyleSheet.create({
     color: "#e2e8f0",
     fontWeight: "bold",
   },
+  genomeLabel: {
+    fontSize: 11,
+    color: "#64748b",
+    paddingLeft: 8,
+  },
+  genomeValue: {
+    fontSize: 11,
+    color: "#cbd5e1",
+  },
+  memoryMap: {
+    width: MEMORY_MAP_WIDTH,
+    height: MEMORY_MAP_HEIGHT,
+    alignSelf: "flex-end",
+    backgroundColor: "#1e293b",
+    borderRadius: 4,
+  },
+  memoryDot: {
+    position: "absolute",
+    width: MEMORY_DOT_SIZE,
+    height: MEMORY_DOT_SIZE,
+    borderRadius: MEMORY_DOT_SIZE / 2,
+  },
+  memorySelf: {
+    backgroundColor: "#e2e8f0",
+  },
 });
 
 export default CreatureDebugPanel;
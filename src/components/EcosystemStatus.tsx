@@ -1,12 +1,27 @@
 import React from "react";
 import { StyleSheet, View, Text, ScrollView, Dimensions } from "react-native";
 import { useGame } from "../context/GameContext";
-import { EntityType, EntityState, EcosystemHealth } from "../types/gameTypes";
+import {
+  EntityType,
+  EntityState,
+  EcosystemHealth,
+  FactionRelation,
+  IEntity,
+} from "../types/gameTypes";
+import { EcoSimulation } from "../simulation/EcoSimulation";
+import { DiseaseModel } from "../simulation/DiseaseModel";
+import { InvasionModel, InvasionRates } from "../simulation/InvasionModel";
+import { FactionModel } from "../simulation/FactionModel";
+import {
+  AtmosphereModel,
+  AtmosphereRates,
+} from "../simulation/AtmosphereModel";
 
 const { width: screenWidth } = Dimensions.get("window");
 
 const EcosystemStatus: React.FC = () => {
-  const { entities, ecosystemHealth, gameTime } = useGame();
+  const { entities, ecosystemHealth, gameTime, rooms, currentRoomId } =
+    useGame();
 
   const getHealthColor = (
     health: (typeof EcosystemHealth)[keyof typeof EcosystemHealth]
@@ -65,6 +80,12 @@ const EcosystemStatus: React.FC = () => {
     }
   };
 
+  const biomes = new Map(rooms.map((room) => [room.id, room.biome]));
+  const isInvasive = (entity: IEntity): boolean => {
+    const biome = biomes.get(entity.roomId);
+    return !!biome && InvasionModel.isInvasive(entity, biome);
+  };
+
   // Count entities by type and state
   const entityCounts = {
     plants: entities.filter(
@@ -77,6 +98,10 @@ const EcosystemStatus: React.FC = () => {
       (e) => e.type === EntityType.CARNIVORE && e.state === EntityState.ALIVE
     ).length,
     dead: entities.filter((e) => e.state === EntityState.DEAD).length,
+    infected: DiseaseModel.countInfected(entities),
+    invasive: entities.filter(
+      (e) => e.state === EntityState.ALIVE && isInvasive(e)
+    ).length,
     total: entities.length,
   };
 
@@ -96,6 +121,46 @@ const EcosystemStatus: React.FC = () => {
       ? ((entityCounts.carnivores / totalAlive) * 100).toFixed(1)
       : "0";
 
+  // An outbreak once a quarter of the animals are sick
+  const livingAnimals = entities.filter(
+    (e) => e.state === EntityState.ALIVE && DiseaseModel.isHost(e)
+  ).length;
+  const outbreak =
+    entityCounts.infected > 0 && entityCounts.infected >= livingAnimals * 0.25;
+
+  // Foreign species crowding out the natives
+  const invaded =
+    InvasionModel.getInvasiveShare(entities, (roomId) => biomes.get(roomId)) >=
+    InvasionRates.DOMINANCE;
+
+  // Air of the room the player is in
+  const currentRoom = rooms.find((room) => room.id === currentRoomId);
+  const atmosphere = currentRoom?.atmosphere;
+  const breathable = atmosphere
+    ? AtmosphereModel.getBreathable(atmosphere)
+    : 1;
+  const lowOxygen = breathable < AtmosphereRates.LOW_OXYGEN;
+  const roomHealth = EcoSimulation.adjustHealthForAtmosphere(
+    EcoSimulation.calculateEcosystemHealth(
+      entities.filter((e) => e.roomId === currentRoomId),
+      rooms
+    ),
+    breathable
+  );
+  // Factions of the room and how they see the player
+  const factions = (currentRoom?.factions ?? []).map((faction) => ({
+    faction,
+    members: entities.filter(
+      (e) =>
+        e.state === EntityState.ALIVE &&
+        FactionModel.isMember(e) &&
+        e.faction === faction.id
+    ).length,
+    relation: FactionModel.getPlayerRelation(faction),
+  }));
+  const formatLevel = (level: number): string =>
+    `${(level * 100).toFixed(0)}%`;
+
   // Format game time
   const formatTime = (seconds: number): string => {
     const minutes = Math.floor(seconds / 60);
@@ -161,6 +226,32 @@ const EcosystemStatus: React.FC = () => {
               <Text style={styles.countLabel}>Dead</Text>
               <Text style={styles.countValue}>{entityCounts.dead}</Text>
             </View>
+
+            <View style={styles.countCard}>
+              <Text style={styles.countEmoji}>🦠</Text>
+              <Text style={styles.countLabel}>Infected</Text>
+              <Text
+                style={[
+                  styles.countValue,
+                  outbreak && styles.countValueWarning,
+                ]}
+              >
+                {entityCounts.infected}
+              </Text>
+            </View>
+
+            <View style={styles.countCard}>
+              <Text style={styles.countEmoji}>🧬</Text>
+              <Text style={styles.countLabel}>Invasive</Text>
+              <Text
+                style={[
+                  styles.countValue,
+                  invaded && styles.countValueWarning,
+                ]}
+              >
+                {entityCounts.invasive}
+              </Text>
+            </View>
           </View>
 
           <View style={styles.totalCard}>
@@ -169,6 +260,82 @@ const EcosystemStatus: React.FC = () => {
           </View>
         </View>
 
+        {/* Room Air */}
+        {atmosphere && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Room Air</Text>
+            <View style={styles.countsGrid}>
+              <View style={styles.countCard}>
+                <Text style={styles.countEmoji}>🫧</Text>
+                <Text style={styles.countLabel}>Oxygen</Text>
+                <Text
+                  style={[
+                    styles.countValue,
+                    lowOxygen && styles.countValueWarning,
+                  ]}
+                >
+                  {formatLevel(atmosphere.oxygen)}
+                </Text>
+                <Text style={styles.countRatio}>
+                  ({formatLevel(breathable)} breathable)
+                </Text>
+              </View>
+
+              <View style={styles.countCard}>
+                <Text style={styles.countEmoji}>☣️</Text>
+                <Text style={styles.countLabel}>Contamination</Text>
+                <Text style={styles.countValue}>
+                  {formatLevel(atmosphere.contamination)}
+                </Text>
+              </View>
+
+              <View style={styles.countCard}>
+                <Text style={styles.countEmoji}>
+                  {getHealthEmoji(roomHealth)}
+                </Text>
+                <Text style={styles.countLabel}>Room Health</Text>
+                <Text
+                  style={[
+                    styles.countValue,
+                    { color: getHealthColor(roomHealth) },
+                  ]}
+                >
+                  {roomHealth.toUpperCase()}
+                </Text>
+              </View>
+            </View>
+          </View>
+        )}
+
+        {/* Room Factions */}
+        {factions.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Factions</Text>
+            <View style={styles.countsGrid}>
+              {factions.map(({ faction, members, relation }) => (
+                <View key={faction.id} style={styles.countCard}>
+                  <Text style={[styles.countLabel, { color: faction.color }]}>
+                    {faction.name}
+                  </Text>
+                  <Text
+                    style={[
+                      styles.countValue,
+                      relation === FactionRelation.HOSTILE &&
+                        styles.countValueWarning,
+                    ]}
+                  >
+                    {faction.standing > 0 ? "+" : ""}
+                    {Math.round(faction.standing)}
+                  </Text>
+                  <Text style={styles.countRatio}>
+                    {relation}, {members} members
+                  </Text>
+                </View>
+              ))}
+            </View>
+          </View>
+        )}
+
         {/* Game Time */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Game Time</Text>
@@ -202,6 +369,29 @@ const EcosystemStatus: React.FC = () => {
               </View>
             )}
 
+            {lowOxygen && (
+              <View style={styles.warningItem}>
+                <Text style={styles.warningIcon}>⚠️</Text>
+                <Text style={styles.warningText}>Low oxygen in this room</Text>
+              </View>
+            )}
+
+            {outbreak && (
+              <View style={styles.warningItem}>
+                <Text style={styles.warningIcon}>⚠️</Text>
+                <Text style={styles.warningText}>Disease outbreak</Text>
+              </View>
+            )}
+
+            {invaded && (
+              <View style={styles.warningItem}>
+                <Text style={styles.warningIcon}>⚠️</Text>
+                <Text style={styles.warningText}>
+                  Invasive species spreading
+                </Text>
+              </View>
+            )}
+
             {entityCounts.dead > entityCounts.total * 0.3 && (
               <View style={styles.warningItem}>
                 <Text style={styles.warningIcon}>⚠️</Text>
@@ -212,6 +402,9 @@ const EcosystemStatus: React.FC = () => {
             {parseFloat(plantRatio) >= 50 &&
               parseFloat(herbivoreRatio) <= 40 &&
               parseFloat(carnivoreRatio) <= 20 &&
+              !lowOxygen &&
+              !outbreak &&
+              !invaded &&
               entityCounts.dead <= entityCounts.total * 0.3 && (
                 <View style={styles.healthyItem}>
                   <Text style={styles.healthyIcon}>✅</Text>
@@ -304,6 +497,9 @@ const styles = StyleSheet.create({
     color: "#4ade80",
     fontWeight: "bold",
   },
+  countValueWarning: {
+    color: "#ef4444",
+  },
   countRatio: {
     fontSize: screenWidth > 768 ? 10 : 8,
     color: "#94a3b8",
@@ -8,13 +8,18 @@ import {
 } from "react-native";
 import { GestureHandlerRootView } from "react-native-gesture-handler";
 import { useGame } from "../context/GameContext";
-import { Position } from "../types/gameTypes";
+import { Position, TimeOfDay, TimeOfDayValue } from "../types/gameTypes";
 import Joystick from "./Joystick";
 import Player from "./Player";
 import Room from "./Room";
 import CreatureDebugPanel from "./CreatureDebugPanel";
+import SaveSlotPanel from "./SaveSlotPanel";
 import { usePlayerController } from "../controllers/PlayerController";
 import { Teleporter } from "../types/gameTypes";
+import { SaveSlots } from "../persistence/SaveSlotManager";
+import { AtmosphereModel } from "../simulation/AtmosphereModel";
+import { DayNightCycle } from "../simulation/DayNightCycle";
+import { WeatherSystem } from "../simulation/WeatherSystem";
 
 const { width: screenWidth, height: screenHeight } = Dimensions.get("window");
 
@@ -23,30 +28,41 @@ interface GameScreenProps {
   onBackToMenu: () => void;
 }
 
-// World dimensions (10x bigger)
-const WORLD_WIDTH = 30000;
-const WORLD_HEIGHT = 30000;
+const TimeOfDayIcons: Record<TimeOfDayValue, string> = {
+  [TimeOfDay.DAWN]: "🌅",
+  [TimeOfDay.DAY]: "☀️",
+  [TimeOfDay.DUSK]: "🌇",
+  [TimeOfDay.NIGHT]: "🌙",
+};
 
 // Room dimensions
 const ROOM_WIDTH = 3000;
 const ROOM_HEIGHT = 1500;
 
-// Player movement speed
-const MOVEMENT_SPEED = 15; // Increased from 3 to 15 for faster movement
-
 const GameScreen: React.FC<GameScreenProps> = ({
   selectedCharacter,
   onBackToMenu,
 }) => {
   const game = useGame();
-  const [playerPosition, setPlayerPosition] = useState(new Position(0, 0));
   const [cameraPosition, setCameraPosition] = useState(new Position(0, 0));
   const [showRanges, setShowRanges] = useState(false);
+  const [showSoil, setShowSoil] = useState(false);
   const [showSkillAllocation, setShowSkillAllocation] = useState(false);
   const [showCreatureDebug, setShowCreatureDebug] = useState(false);
-  const [teleporterStates, setTeleporterStates] = useState<{
-    [key: string]: boolean;
-  }>({});
+  const [showSaveSlots, setShowSaveSlots] = useState(false);
+
+  const currentRoom = game.rooms.find(
+    (room) => room.id === game.currentRoomId
+  );
+  const currentAtmosphere = currentRoom?.atmosphere;
+  const currentBiome = currentRoom?.biome ?? "";
+  const timeOfDay = DayNightCycle.getTimeOfDay(currentBiome, game.gameTime);
+  const season = WeatherSystem.getSeasonConfig(
+    WeatherSystem.getSeason(game.gameTime)
+  );
+  const currentWeather = currentRoom?.weather.event
+    ? WeatherSystem.getEventConfig(currentRoom.weather.event)
+    : null;
 
   // Update camera to follow player
   const updateCameraPosition = useCallback(
@@ -74,91 +90,6 @@ const GameScreen: React.FC<GameScreenProps> = ({
     [screenWidth, screenHeight, game.rooms]
   );
 
-  // Handle teleporter activation
-  const handleTeleporterActivation = useCallback(
-    (teleporterId: string, activated: boolean) => {
-      setTeleporterStates((prev) => {
-        const newStates = { ...prev, [teleporterId]: activated };
-
-        // Find the linked teleporter and activate it too
-        const currentRoom = game.rooms.find(
-          (room) => room.id === game.currentRoomId
-        );
-        if (currentRoom) {
-          const teleporter = currentRoom.teleporters.find(
-            (t) => t.id === teleporterId
-          );
-          if (teleporter) {
-            // Find the linked teleporter in the connected room
-            const connectedRoom = game.rooms.find(
-              (room) => room.id === teleporter.connectedRoomId
-            );
-            if (connectedRoom) {
-              const linkedTeleporter = connectedRoom.teleporters.find(
-                (t) => t.connectedRoomId === currentRoom.id
-              );
-              if (linkedTeleporter) {
-                newStates[linkedTeleporter.id] = activated;
-              }
-            }
-          }
-        }
-
-        return newStates;
-      });
-    },
-    [game.rooms, game.currentRoomId]
-  );
-
-  // Memoized position change handler
-  const handlePositionChange = useCallback(
-    (newPosition: Position) => {
-      setPlayerPosition(newPosition);
-      updateCameraPosition(newPosition);
-
-      // Check if player has moved to a different room
-      const currentRoom = game.rooms.find(
-        (room) => room.id === game.currentRoomId
-      );
-      if (currentRoom) {
-        const withinCurrentRoom =
-          newPosition.x >= currentRoom.x + 50 &&
-          newPosition.x <= currentRoom.x + currentRoom.width - 50 &&
-          newPosition.y >= currentRoom.y + 50 &&
-          newPosition.y <= currentRoom.y + currentRoom.height - 50;
-
-        if (!withinCurrentRoom) {
-          // Player is outside current room, find which room they're in
-          for (const room of game.rooms) {
-            const withinRoom =
-              newPosition.x >= room.x + 50 &&
-              newPosition.x <= room.x + room.width - 50 &&
-              newPosition.y >= room.y + 50 &&
-              newPosition.y <= room.y + room.height - 50;
-
-            if (withinRoom && room.id !== game.currentRoomId) {
-              // Player has moved to a different room
-              game.changeRoom(room.id);
-              break;
-            }
-          }
-        }
-      }
-
-      // Update game context player position without dispatching action
-      if (game.player) {
-        game.player.position = newPosition;
-      }
-    },
-    [
-      updateCameraPosition,
-      game.player,
-      game.rooms,
-      game.currentRoomId,
-      game.changeRoom,
-    ]
-  );
-
   // Memoized action handler
   const handleAction = useCallback(
     (action: string) => {
@@ -169,30 +100,21 @@ const GameScreen: React.FC<GameScreenProps> = ({
 
   // Player controller
   const playerController = usePlayerController({
-    playerPosition,
-    onPositionChange: handlePositionChange,
+    onMove: game.setMoveDirection,
     onAction: handleAction,
-    worldBounds: { width: WORLD_WIDTH, height: WORLD_HEIGHT },
-    movementSpeed: MOVEMENT_SPEED,
-    rooms: game.rooms,
-    currentRoomId: game.currentRoomId,
   });
 
-  // Initialize player position when game starts (only runs once)
+  // Keep the camera on the player as the simulation moves them
   useEffect(() => {
-    if (game.player && game.rooms.length > 0) {
-      const currentRoom = game.rooms.find(
-        (room) => room.id === game.currentRoomId
-      );
-      if (currentRoom) {
-        const roomCenterX = currentRoom.x + currentRoom.width / 2;
-        const roomCenterY = currentRoom.y + currentRoom.height / 2;
-        const roomCenter = new Position(roomCenterX, roomCenterY);
-        setPlayerPosition(roomCenter);
-        updateCameraPosition(roomCenter);
-      }
+    if (game.rooms.length > 0) {
+      updateCameraPosition(game.playerPosition);
     }
-  }, [game.player, game.rooms]); // Only run when game.player or game.rooms change, not on room changes
+  }, [game.playerPosition, game.rooms, updateCameraPosition]);
+
+  // The simulation only sends creature memory while the panel is open
+  useEffect(() => {
+    game.setInspecting(showCreatureDebug);
+  }, [showCreatureDebug, game.setInspecting]);
 
   // Initialize game with selected character
   useEffect(() => {
@@ -201,22 +123,6 @@ const GameScreen: React.FC<GameScreenProps> = ({
     }
   }, [selectedCharacter, game.resetGame]);
 
-  // Initialize teleporter states when rooms are loaded
-  useEffect(() => {
-    if (game.rooms.length > 0) {
-      const initialTeleporterStates: { [key: string]: boolean } = {};
-
-      // Initialize all teleporters to deactivated (false)
-      game.rooms.forEach((room) => {
-        room.teleporters.forEach((teleporter) => {
-          initialTeleporterStates[teleporter.id] = false;
-        });
-      });
-
-      setTeleporterStates(initialTeleporterStates);
-    }
-  }, [game.rooms]);
-
   // Handle joystick movement
   const handleJoystickMove = (direction: { x: number; y: number }) => {
     playerController.handleJoystickMove(direction);
@@ -224,65 +130,9 @@ const GameScreen: React.FC<GameScreenProps> = ({
 
   const handleTeleport = useCallback(
     (teleporter: Teleporter) => {
-      // Teleport player to the connected room
-      const targetRoom = game.rooms.find(
-        (r) => r.id === teleporter.connectedRoomId
-      );
-
-      if (targetRoom) {
-        // Find the specific target teleporter
-        const targetTeleporter = targetRoom.teleporters.find(
-          (t) => t.connectedRoomId === game.currentRoomId
-        );
-
-        if (targetTeleporter) {
-          // Position player near the target teleporter but not exactly on it
-          // Add offset based on teleporter direction to avoid immediate re-teleportation
-          let offsetX = 0;
-          let offsetY = 0;
-
-          switch (targetTeleporter.direction) {
-            case "north":
-              offsetY = 200; // Move player 200px south of the teleporter
-              break;
-            case "south":
-              offsetY = -200; // Move player 200px north of the teleporter
-              break;
-            case "east":
-              offsetX = -200; // Move player 200px west of the teleporter
-              break;
-            case "west":
-              offsetX = 200; // Move player 200px east of the teleporter
-              break;
-          }
-
-          // Teleporter coordinates are already in world coordinates
-          const teleporterCenterX =
-            targetTeleporter.x + targetTeleporter.width / 2;
-          const teleporterCenterY =
-            targetTeleporter.y + targetTeleporter.height / 2;
-
-          const newX = teleporterCenterX + offsetX;
-          const newY = teleporterCenterY + offsetY;
-          const newPosition = new Position(newX, newY);
-
-          setPlayerPosition(newPosition);
-          updateCameraPosition(newPosition);
-          game.changeRoom(teleporter.connectedRoomId);
-
-          if (game.player) {
-            game.player.position = newPosition;
-          }
-        }
-      }
+      game.teleport(teleporter.id);
     },
-    [
-      game.rooms,
-      game.currentRoomId,
-      game.changeRoom,
-      game.player,
-      updateCameraPosition,
-    ]
+    [game.teleport]
   );
 
   return (
@@ -340,12 +190,14 @@ const GameScreen: React.FC<GameScreenProps> = ({
                   room: roomWithFilteredEntities,
                   cameraPosition: cameraPosition,
                   showRanges: showRanges,
+                  showSoil: showSoil,
+                  gameTime: game.gameTime,
                   onTeleport: handleTeleport,
-                  playerPosition: playerPosition,
+                  playerPosition: game.playerPosition,
                   screenWidth: screenWidth,
                   screenHeight: screenHeight,
-                  teleporterStates: teleporterStates,
-                  onTeleporterActivation: handleTeleporterActivation,
+                  teleporterStates: game.teleporterStates,
+                  onTeleporterActivation: game.activateTeleporter,
                   linkedTeleporters: linkedTeleporters,
                 }}
               />
@@ -355,7 +207,7 @@ const GameScreen: React.FC<GameScreenProps> = ({
         {/* Player */}
         {game.player && (
           <Player
-            position={playerPosition}
+            position={game.playerPosition}
             cameraPosition={cameraPosition}
             characterClass={game.player.characterClass}
             health={game.player.health}
@@ -376,7 +228,7 @@ const GameScreen: React.FC<GameScreenProps> = ({
 
           <View style={styles.playerInfo}>
             <Text style={styles.playerName}>
-              Lv. {game.player?.level || 1} {selectedCharacter}
+              Lv. {game.player?.level || 1} {game.player?.characterClass}
             </Text>
             <Text style={styles.playerStats}>
               ❤️ {game.player?.health || 0} | ⚡ {game.player?.energy || 0}
@@ -393,6 +245,13 @@ const GameScreen: React.FC<GameScreenProps> = ({
             )}
           </View>
 
+          <TouchableOpacity
+            style={styles.menuButton}
+            onPress={() => setShowSaveSlots(true)}
+          >
+            <Text style={styles.menuButtonText}>💾</Text>
+          </TouchableOpacity>
+
           <View style={styles.ecosystemInfo}>
             <Text style={styles.ecosystemHealth}>
               🌿 {game.ecosystemHealth}
@@ -400,6 +259,28 @@ const GameScreen: React.FC<GameScreenProps> = ({
             <Text style={styles.currentRoom}>
               🏠 Room: {game.currentRoomId}
             </Text>
+            <Text style={styles.currentRoom}>🎲 Seed: {game.seed}</Text>
+            <Text style={styles.currentRoom}>
+              {TimeOfDayIcons[timeOfDay]}{" "}
+              {DayNightCycle.formatClock(currentBiome, game.gameTime)}{" "}
+              {timeOfDay}
+            </Text>
+            <Text style={styles.currentRoom}>
+              {season.icon} {season.name}
+              {currentWeather &&
+                ` · ${currentWeather.icon} ${currentWeather.name}`}
+            </Text>
+            {currentAtmosphere && (
+              <Text
+                style={[
+                  styles.currentRoom,
+                  AtmosphereModel.getSuffocation(currentAtmosphere) > 0 &&
+                    styles.lowOxygen,
+                ]}
+              >
+                🫧 O₂: {Math.round(currentAtmosphere.oxygen * 100)}%
+              </Text>
+            )}
           </View>
         </View>
 
@@ -483,6 +364,21 @@ const GameScreen: React.FC<GameScreenProps> = ({
           </View>
         )}
 
+        {/* Save Slots Modal */}
+        {showSaveSlots && (
+          <SaveSlotPanel
+            title="Save Game"
+            slotIds={[SaveSlots.SLOT_1, SaveSlots.SLOT_2, SaveSlots.SLOT_3]}
+            slots={game.saveSlots}
+            allowEmpty={true}
+            onSelect={(slotId) => {
+              game.saveToSlot(slotId);
+              setShowSaveSlots(false);
+            }}
+            onClose={() => setShowSaveSlots(false)}
+          />
+        )}
+
         {/* Joystick */}
         <View style={styles.joystickContainer}>
           <Joystick onMove={handleJoystickMove} size={120} />
@@ -516,11 +412,7 @@ const GameScreen: React.FC<GameScreenProps> = ({
 
           <TouchableOpacity
             style={styles.actionButton}
-            onPress={() => {
-              if (game.player) {
-                game.player.heal();
-              }
-            }}
+            onPress={game.heal}
           >
             <Text style={styles.actionButtonIcon}>💚</Text>
             <Text style={styles.actionButtonText}>Heal</Text>
@@ -536,6 +428,17 @@ const GameScreen: React.FC<GameScreenProps> = ({
             <Text style={styles.actionButtonIcon}>🎯</Text>
             <Text style={styles.actionButtonText}>Ranges</Text>
           </TouchableOpacity>
+
+          <TouchableOpacity
+            style={[
+              styles.actionButton,
+              showSoil && { backgroundColor: "rgba(59, 130, 246, 0.3)" },
+            ]}
+            onPress={() => setShowSoil(!showSoil)}
+          >
+            <Text style={styles.actionButtonIcon}>🟫</Text>
+            <Text style={styles.actionButtonText}>Soil</Text>
+          </TouchableOpacity>
         </View>
 
         {/* Game Messages */}
@@ -651,6 +554,9 @@ const styles = StyleSheet.create({
     color: "#94a3b8",
     marginTop: 2,
   },
+  lowOxygen: {
+    color: "#ef4444",
+  },
   joystickContainer: {
     position: "absolute",
     bottom: 120,
@@ -45,7 +45,12 @@ const GameWorld: React.FC = () => {
 
   // Get emoji for entity type
   const getEntityEmoji = (entity: IEntity): string => {
-    if (entity.state === EntityState.DEAD) return "💀";
+    if (
+      entity.state === EntityState.DEAD ||
+      entity.state === EntityState.DECAYING
+    ) {
+      return "💀";
+    }
 
     switch (entity.type) {
       case EntityType.PLANT:
@@ -54,6 +59,8 @@ const GameWorld: React.FC = () => {
         return (entity as any).species === "rat" ? "🐀" : "🦔";
       case EntityType.CARNIVORE:
         return (entity as any).species === "spider" ? "🕷️" : "🦂";
+      case EntityType.DECOMPOSER:
+        return "🪲";
       case EntityType.PLAYER:
         return "🧙";
       default:
@@ -7,15 +7,28 @@ import {
   Dimensions,
   Animated,
 } from "react-native";
+import { useGame } from "../context/GameContext";
+import { SaveSlotId, SaveSlots } from "../persistence/SaveSlotManager";
+import { InputRecording } from "../simulation/InputRecorder";
+import SaveSlotPanel from "./SaveSlotPanel";
 
 const { width: screenWidth, height: screenHeight } = Dimensions.get("window");
 
 interface MainMenuProps {
   onPlayGame: () => void;
   onOptions: () => void;
+  onGameLoaded: () => void;
+  onWatchReplay: (recording: InputRecording) => void;
 }
 
-const MainMenu: React.FC<MainMenuProps> = ({ onPlayGame, onOptions }) => {
+const MainMenu: React.FC<MainMenuProps> = ({
+  onPlayGame,
+  onOptions,
+  onGameLoaded,
+  onWatchReplay,
+}) => {
+  const game = useGame();
+  const [showLoadSlots, setShowLoadSlots] = useState(false);
   const [titleParticles, setTitleParticles] = useState<
     Array<{
       id: number;
@@ -33,6 +46,26 @@ const MainMenu: React.FC<MainMenuProps> = ({ onPlayGame, onOptions }) => {
   const [chasePosition, setChasePosition] = useState(0);
   const [hoveredButton, setHoveredButton] = useState<string | null>(null);
 
+  // Most recent save (slots are sorted newest first)
+  const latestSlot = game.saveSlots[0];
+
+  // Recording of the current run - only worth replaying once it has inputs
+  const [recording, setRecording] = useState<InputRecording | null>(null);
+  const { getRecording } = game;
+
+  useEffect(() => {
+    getRecording()
+      .then(setRecording)
+      .catch((error) => console.warn("Failed to read recording:", error));
+  }, [getRecording]);
+
+  const handleLoadSlot = async (slotId: SaveSlotId) => {
+    setShowLoadSlots(false);
+    if (await game.loadFromSlot(slotId)) {
+      onGameLoaded();
+    }
+  };
+
   // Animated values for effects
   const titleGlow = new Animated.Value(0.3);
   const backgroundPulse = new Animated.Value(1);
@@ -200,6 +233,31 @@ const MainMenu: React.FC<MainMenuProps> = ({ onPlayGame, onOptions }) => {
 
       {/* Menu Buttons */}
       <View style={styles.menuSection}>
+        {latestSlot && (
+          <TouchableOpacity
+            style={[
+              styles.menuButton,
+              hoveredButton === "continue" && styles.menuButtonHovered,
+            ]}
+            onPress={() => handleLoadSlot(latestSlot.slotId)}
+            activeOpacity={0.8}
+            onPressIn={() => setHoveredButton("continue")}
+            onPressOut={() => setHoveredButton(null)}
+          >
+            <View style={styles.menuButtonContent}>
+              <Text style={styles.menuButtonIcon}>▶️</Text>
+              <View>
+                <Text style={styles.menuButtonText}>Continue</Text>
+                <Text style={styles.menuButtonSubtext}>
+                  Lv. {latestSlot.level} {latestSlot.characterClass} •{" "}
+                  {latestSlot.name}
+                </Text>
+              </View>
+            </View>
+            <View style={styles.menuButtonGlow} />
+          </TouchableOpacity>
+        )}
+
         <TouchableOpacity
           style={[
             styles.menuButton,
@@ -217,6 +275,44 @@ const MainMenu: React.FC<MainMenuProps> = ({ onPlayGame, onOptions }) => {
           <View style={styles.menuButtonGlow} />
         </TouchableOpacity>
 
+        {game.saveSlots.length > 0 && (
+          <TouchableOpacity
+            style={[
+              styles.menuButton,
+              hoveredButton === "load" && styles.menuButtonHovered,
+            ]}
+            onPress={() => setShowLoadSlots(true)}
+            activeOpacity={0.8}
+            onPressIn={() => setHoveredButton("load")}
+            onPressOut={() => setHoveredButton(null)}
+          >
+            <View style={styles.menuButtonContent}>
+              <Text style={styles.menuButtonIcon}>📂</Text>
+              <Text style={styles.menuButtonText}>Load Game</Text>
+            </View>
+            <View style={styles.menuButtonGlow} />
+          </TouchableOpacity>
+        )}
+
+        {recording && recording.inputs.length > 0 && (
+          <TouchableOpacity
+            style={[
+              styles.menuButton,
+              hoveredButton === "replay" && styles.menuButtonHovered,
+            ]}
+            onPress={() => onWatchReplay(recording)}
+            activeOpacity={0.8}
+            onPressIn={() => setHoveredButton("replay")}
+            onPressOut={() => setHoveredButton(null)}
+          >
+            <View style={styles.menuButtonContent}>
+              <Text style={styles.menuButtonIcon}>🎬</Text>
+              <Text style={styles.menuButtonText}>Watch Replay</Text>
+            </View>
+            <View style={styles.menuButtonGlow} />
+          </TouchableOpacity>
+        )}
+
         <TouchableOpacity
           style={[
             styles.menuButton,
@@ -271,6 +367,23 @@ const MainMenu: React.FC<MainMenuProps> = ({ onPlayGame, onOptions }) => {
           Explore • Survive • Balance • Thrive
         </Text>
       </View>
+
+      {/* Load Game Slots */}
+      {showLoadSlots && (
+        <SaveSlotPanel
+          title="Load Game"
+          slotIds={[
+            SaveSlots.AUTOSAVE,
+            SaveSlots.SLOT_1,
+            SaveSlots.SLOT_2,
+            SaveSlots.SLOT_3,
+          ]}
+          slots={game.saveSlots}
+          allowEmpty={false}
+          onSelect={handleLoadSlot}
+          onClose={() => setShowLoadSlots(false)}
+        />
+      )}
     </View>
   );
 };
@@ -382,6 +495,11 @@ const styles = StyleSheet.create({
     fontWeight: "bold",
     color: "#e2e8f0",
   },
+  menuButtonSubtext: {
+    fontSize: 12,
+    color: "#94a3b8",
+    textTransform: "capitalize",
+  },
   grassBar: {
     position: "absolute",
     bottom: -40, // Extend beyond any container padding
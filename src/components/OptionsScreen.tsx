@@ -8,6 +8,7 @@ import {
   Dimensions,
   ScrollView,
 } from "react-native";
+import { useGame } from "../context/GameContext";
 
 const { width: screenWidth } = Dimensions.get("window");
 
@@ -19,7 +20,7 @@ const OptionsScreen: React.FC<OptionsScreenProps> = ({ onBack }) => {
   const [soundEnabled, setSoundEnabled] = useState(true);
   const [musicEnabled, setMusicEnabled] = useState(true);
   const [vibrationEnabled, setVibrationEnabled] = useState(true);
-  const [autoSaveEnabled, setAutoSaveEnabled] = useState(true);
+  const { autoSaveEnabled, setAutoSaveEnabled } = useGame();
 
   return (
     <View style={styles.container}>
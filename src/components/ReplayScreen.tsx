@@ -0,0 +1,301 @@
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  StyleSheet,
+  View,
+  Text,
+  TouchableOpacity,
+  Pressable,
+  Dimensions,
+  GestureResponderEvent,
+  LayoutChangeEvent,
+} from "react-native";
+import { Position } from "../types/gameTypes";
+import { InputRecording } from "../simulation/InputRecorder";
+import { ReplayPlayer } from "../simulation/ReplayPlayer";
+import Player from "./Player";
+import Room from "./Room";
+
+const { width: screenWidth, height: screenHeight } = Dimensions.get("window");
+
+// Seconds skipped by the rewind and fast-forward buttons
+const SKIP_SECONDS = 10;
+
+interface ReplayScreenProps {
+  recording: InputRecording;
+  onBack: () => void;
+}
+
+const ReplayScreen: React.FC<ReplayScreenProps> = ({ recording, onBack }) => {
+  const [replay] = useState(() => new ReplayPlayer(recording));
+  const [tick, setTick] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [trackWidth, setTrackWidth] = useState(1);
+
+  const session = replay.getSession();
+  const simulation = session.getSimulation();
+  const player = session.getPlayer();
+  const totalTicks = replay.getTotalTicks();
+  const ticksPerSecond = Math.round(1 / recording.stepDelta);
+
+  const seek = useCallback(
+    (targetTick: number) => {
+      replay.seek(targetTick);
+      setTick(replay.getTick());
+    },
+    [replay]
+  );
+
+  // Playback at the recorded step rate
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    const playbackLoop = setInterval(() => {
+      if (!replay.advance()) {
+        setIsPlaying(false);
+      }
+      setTick(replay.getTick());
+    }, recording.stepDelta * 1000);
+
+    return () => clearInterval(playbackLoop);
+  }, [isPlaying, replay, recording.stepDelta]);
+
+  const handleScrub = (event: GestureResponderEvent) => {
+    const progress = event.nativeEvent.locationX / trackWidth;
+    seek(Math.round(progress * totalTicks));
+  };
+
+  const handleTrackLayout = (event: LayoutChangeEvent) => {
+    setTrackWidth(Math.max(1, event.nativeEvent.layout.width));
+  };
+
+  const formatTime = (ticks: number) => {
+    const seconds = Math.floor(ticks / ticksPerSecond);
+    return `${Math.floor(seconds / 60)}:${(seconds % 60)
+      .toString()
+      .padStart(2, "0")}`;
+  };
+
+  // Camera follows the replayed player
+  const currentRoom = simulation.getRoom(session.getCurrentRoomId());
+  const playerPosition = player?.position || new Position(0, 0);
+  const cameraPosition = new Position(
+    Math.max(0, playerPosition.x - screenWidth / 2),
+    Math.max(0, playerPosition.y - screenHeight / 2)
+  );
+  const summary = replay.getSummary();
+
+  return (
+    <View style={styles.container}>
+      {/* Replayed World */}
+      <View style={styles.gameWorld}>
+        {currentRoom && (
+          <Room
+            config={{
+              room: {
+                ...currentRoom,
+                entities: simulation
+                  .getEntities()
+                  .filter((entity) => entity.roomId === currentRoom.id),
+              },
+              cameraPosition,
+              playerPosition,
+              screenWidth,
+              screenHeight,
+              teleporterStates: session.getTeleporterStates(),
+            }}
+          />
+        )}
+
+        {player && (
+          <Player
+            position={playerPosition}
+            cameraPosition={cameraPosition}
+            characterClass={player.characterClass}
+            health={player.health}
+            maxHealth={player.maxHealth}
+            energy={player.energy}
+            maxEnergy={player.maxEnergy}
+          />
+        )}
+      </View>
+
+      {/* Top Bar */}
+      <View style={styles.topBar}>
+        <TouchableOpacity style={styles.menuButton} onPress={onBack}>
+          <Text style={styles.menuButtonText}>☰</Text>
+        </TouchableOpacity>
+
+        <View style={styles.replayInfo}>
+          <Text style={styles.replayTitle}>🎬 Replay</Text>
+          <Text style={styles.replayStats}>
+            🎲 Seed: {recording.seed} | 🏠 {session.getCurrentRoomId()}
+          </Text>
+        </View>
+
+        <View style={styles.replayInfo}>
+          <Text style={styles.ecosystemHealth}>
+            🌿 {summary.ecosystemHealth}
+          </Text>
+          <Text style={styles.replayStats}>
+            🌱 {summary.population.plants} | 🐰{" "}
+            {summary.population.herbivores} | 🐺{" "}
+            {summary.population.carnivores} | 🪲{" "}
+            {summary.population.decomposers}
+          </Text>
+        </View>
+      </View>
+
+      {/* Playback Controls */}
+      <View style={styles.controls}>
+        <Pressable
+          style={styles.track}
+          onLayout={handleTrackLayout}
+          onPress={handleScrub}
+        >
+          <View
+            style={[
+              styles.trackFill,
+              { width: `${(tick / Math.max(1, totalTicks)) * 100}%` },
+            ]}
+          />
+        </Pressable>
+
+        <View style={styles.controlRow}>
+          <Text style={styles.timeText}>{formatTime(tick)}</Text>
+
+          <View style={styles.controlButtons}>
+            <TouchableOpacity
+              style={styles.controlButton}
+              onPress={() => seek(tick - SKIP_SECONDS * ticksPerSecond)}
+            >
+              <Text style={styles.controlButtonText}>⏪</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={styles.controlButton}
+              onPress={() => {
+                if (replay.isFinished()) {
+                  seek(0);
+                }
+                setIsPlaying(!isPlaying);
+              }}
+            >
+              <Text style={styles.controlButtonText}>
+                {isPlaying ? "⏸️" : "▶️"}
+              </Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={styles.controlButton}
+              onPress={() => seek(tick + SKIP_SECONDS * ticksPerSecond)}
+            >
+              <Text style={styles.controlButtonText}>⏩</Text>
+            </TouchableOpacity>
+          </View>
+
+          <Text style={styles.timeText}>{formatTime(totalTicks)}</Text>
+        </View>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#0f172a",
+  },
+  gameWorld: {
+    position: "absolute",
+    width: screenWidth,
+    height: screenHeight,
+    overflow: "hidden",
+  },
+  topBar: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 20,
+    paddingTop: 20,
+    paddingBottom: 15,
+    backgroundColor: "rgba(30, 41, 59, 0.9)",
+    borderBottomWidth: 1,
+    borderBottomColor: "#334155",
+  },
+  menuButton: {
+    padding: 8,
+    backgroundColor: "#334155",
+    borderRadius: 8,
+  },
+  menuButtonText: {
+    fontSize: 18,
+    color: "#e2e8f0",
+  },
+  replayInfo: {
+    alignItems: "center",
+  },
+  replayTitle: {
+    fontSize: 16,
+    fontWeight: "bold",
+    color: "#e2e8f0",
+  },
+  replayStats: {
+    fontSize: 12,
+    color: "#94a3b8",
+    marginTop: 2,
+  },
+  ecosystemHealth: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#4ade80",
+    textTransform: "capitalize",
+  },
+  controls: {
+    position: "absolute",
+    bottom: 20,
+    left: 20,
+    right: 20,
+    backgroundColor: "rgba(30, 41, 59, 0.9)",
+    borderRadius: 12,
+    padding: 12,
+    borderWidth: 1,
+    borderColor: "#334155",
+  },
+  track: {
+    height: 12,
+    backgroundColor: "#334155",
+    borderRadius: 6,
+    overflow: "hidden",
+    marginBottom: 12,
+  },
+  trackFill: {
+    height: "100%",
+    backgroundColor: "#4ade80",
+  },
+  controlRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  controlButtons: {
+    flexDirection: "row",
+    gap: 12,
+  },
+  controlButton: {
+    backgroundColor: "#334155",
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  controlButtonText: {
+    fontSize: 18,
+    color: "#e2e8f0",
+  },
+  timeText: {
+    fontSize: 12,
+    color: "#94a3b8",
+    minWidth: 40,
+  },
+});
+
+export default ReplayScreen;
@@ -3,12 +3,18 @@ import { View, StyleSheet, Text } from "react-native";
 import { Position, Room as RoomType, Teleporter } from "../types/gameTypes";
 import TeleporterComponent from "./Teleporter";
 import Creature from "./Creature";
-import { Biomes, BiomeStyle } from "../types/biomeTypes";
+import { BiomeStyle } from "../types/biomeTypes";
+import { BiomeRegistry } from "../biomes/BiomeRegistry";
+import { SoilModel } from "../simulation/SoilModel";
+import { DayNightCycle } from "../simulation/DayNightCycle";
+import { WeatherSystem } from "../simulation/WeatherSystem";
 
 interface RoomConfig {
   room: RoomType;
   cameraPosition: Position;
   showRanges?: boolean;
+  showSoil?: boolean;
+  gameTime?: number; // Drives the day/night tint
   onTeleport?: (teleporter: Teleporter) => void;
   playerPosition: Position;
   screenWidth?: number;
@@ -28,8 +34,9 @@ const Room: React.FC<RoomProps> = ({ config }) => {
   >([]);
 
   // Get biome styling
-  const biome = (Biomes[config.room.biome as keyof typeof Biomes] ||
-    Biomes.laboratory)!;
+  const biome = BiomeRegistry.getOrDefault(config.room.biome).style;
+  // Weather events bring their own particles
+  const particleStyle = WeatherSystem.getParticles(config.room, biome);
 
   // Particle animation for room atmosphere
   useEffect(() => {
@@ -37,7 +44,7 @@ const Room: React.FC<RoomProps> = ({ config }) => {
       setParticles((prev) => {
         // Add new particles within room bounds
         const newParticles = [...prev];
-        if (newParticles.length < biome.particleCount) {
+        if (newParticles.length < particleStyle.particleCount) {
           newParticles.push({
             id: Date.now() + Math.random(),
             x: config.room.x + Math.random() * config.room.width,
@@ -63,9 +70,18 @@ const Room: React.FC<RoomProps> = ({ config }) => {
     config.room.y,
     config.room.width,
     config.room.height,
-    biome.particleCount,
+    particleStyle.particleCount,
   ]);
 
+  const lightingTint = DayNightCycle.getTint(
+    config.room.biome,
+    config.gameTime ?? 0
+  );
+
+  const factionColors = new Map(
+    config.room.factions.map((faction) => [faction.id, faction.color])
+  );
+
   // Calculate grid lines for floor pattern
   const gridSpacing = 100;
   const gridLinesX = Math.ceil(config.room.width / gridSpacing);
@@ -131,6 +147,65 @@ const Room: React.FC<RoomProps> = ({ config }) => {
         ))}
       </View>
 
+      {/* Soil overlay - green where fertile, brown where depleted */}
+      {config.showSoil && (
+        <View style={styles.soilOverlay}>
+          {config.room.soil.nutrients.map((_, index) => {
+            const soil = config.room.soil;
+            const fertility = SoilModel.cellFertility(soil, index);
+            return (
+              <View
+                key={`soil-${index}`}
+                style={[
+                  styles.soilCell,
+                  {
+                    left: (index % soil.columns) * soil.cellSize,
+                    top: Math.floor(index / soil.columns) * soil.cellSize,
+                    width: soil.cellSize,
+                    height: soil.cellSize,
+                    backgroundColor: `rgba(${Math.round(
+                      180 - 140 * fertility
+                    )}, ${Math.round(80 + 120 * fertility)}, 40, 0.35)`,
+                  },
+                ]}
+              />
+            );
+          })}
+        </View>
+      )}
+
+      {/* Faction territories */}
+      {config.room.factions.map(({ id, name, color, territory }) => (
+        <View
+          key={id}
+          style={[
+            styles.territory,
+            {
+              left: territory.x - territory.radius - config.room.x,
+              top: territory.y - territory.radius - config.room.y,
+              width: territory.radius * 2,
+              height: territory.radius * 2,
+              borderRadius: territory.radius,
+              borderColor: color,
+              backgroundColor: `${color}1a`,
+            },
+          ]}
+        >
+          <Text style={[styles.territoryName, { color }]}>{name}</Text>
+        </View>
+      ))}
+
+      {/* Day/night lighting */}
+      <View
+        style={[
+          styles.lightingTint,
+          {
+            backgroundColor: lightingTint.color,
+            opacity: lightingTint.opacity,
+          },
+        ]}
+      />
+
       {/* Ambient Particles */}
       <View style={styles.ambientParticles}>
         {particles.map((particle) => (
@@ -142,10 +217,10 @@ const Room: React.FC<RoomProps> = ({ config }) => {
                 left: particle.x - config.room.x,
                 top: particle.y - config.room.y,
                 opacity: particle.opacity,
-                backgroundColor: biome.particleColor,
-                width: biome.particleSize,
-                height: biome.particleSize,
-                borderRadius: biome.particleSize / 2,
+                backgroundColor: particleStyle.particleColor,
+                width: particleStyle.particleSize,
+                height: particleStyle.particleSize,
+                borderRadius: particleStyle.particleSize / 2,
               },
             ]}
           />
@@ -201,6 +276,10 @@ const Room: React.FC<RoomProps> = ({ config }) => {
             species={entity.species || "moss"}
             hunger={entity.hunger}
             maxHunger={entity.maxHunger}
+            state={entity.state}
+            decayTimer={entity.decayTimer}
+            decayDuration={entity.decayDuration}
+            factionColor={factionColors.get(entity.faction)}
             showRanges={config.showRanges || false}
             screenWidth={config.screenWidth || 400}
             screenHeight={config.screenHeight || 600}
@@ -212,6 +291,36 @@ const Room: React.FC<RoomProps> = ({ config }) => {
 };
 
 const styles = StyleSheet.create({
+  lightingTint: {
+    position: "absolute",
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+  },
+  soilOverlay: {
+    position: "absolute",
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    overflow: "hidden",
+  },
+  soilCell: {
+    position: "absolute",
+  },
+  territory: {
+    position: "absolute",
+    borderWidth: 2,
+    borderStyle: "dashed",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  territoryName: {
+    fontSize: 14,
+    fontWeight: "bold",
+    opacity: 0.6,
+  },
   room: {
     position: "absolute",
   },
@@ -0,0 +1,151 @@
+import React from "react";
+import { StyleSheet, View, Text, TouchableOpacity } from "react-native";
+import {
+  SaveSlotId,
+  SaveSlotMetadata,
+  SaveSlotNames,
+} from "../persistence/SaveSlotManager";
+
+interface SaveSlotPanelProps {
+  title: string;
+  slotIds: SaveSlotId[];
+  slots: SaveSlotMetadata[];
+  // Allow selecting empty slots (saving) or only occupied ones (loading)
+  allowEmpty: boolean;
+  onSelect: (slotId: SaveSlotId) => void;
+  onClose: () => void;
+}
+
+// Format simulated seconds as m:ss
+const formatPlaytime = (seconds: number): string => {
+  const totalSeconds = Math.floor(seconds);
+  const minutes = Math.floor(totalSeconds / 60);
+  const remainder = totalSeconds % 60;
+  return `${minutes}:${remainder.toString().padStart(2, "0")}`;
+};
+
+const SaveSlotPanel: React.FC<SaveSlotPanelProps> = ({
+  title,
+  slotIds,
+  slots,
+  allowEmpty,
+  onSelect,
+  onClose,
+}) => {
+  return (
+    <View style={styles.modalOverlay}>
+      <View style={styles.modal}>
+        <View style={styles.modalHeader}>
+          <Text style={styles.modalTitle}>{title}</Text>
+          <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+            <Text style={styles.closeButtonText}>✕</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.slotList}>
+          {slotIds.map((slotId) => {
+            const slot = slots.find((s) => s.slotId === slotId);
+            const disabled = !slot && !allowEmpty;
+
+            return (
+              <TouchableOpacity
+                key={slotId}
+                style={[styles.slot, disabled && styles.slotDisabled]}
+                onPress={() => onSelect(slotId)}
+                disabled={disabled}
+              >
+                <Text style={styles.slotName}>{SaveSlotNames[slotId]}</Text>
+                {slot ? (
+                  <>
+                    <Text style={styles.slotDetail}>
+                      Lv. {slot.level} {slot.characterClass}
+                    </Text>
+                    <Text style={styles.slotMeta}>
+                      ⏱️ {formatPlaytime(slot.playtime)} | 🌿{" "}
+                      {slot.ecosystemHealth}
+                    </Text>
+                  </>
+                ) : (
+                  <Text style={styles.slotMeta}>Empty</Text>
+                )}
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    position: "absolute",
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    backgroundColor: "rgba(0, 0, 0, 0.7)",
+    justifyContent: "center",
+    alignItems: "center",
+    zIndex: 1000,
+  },
+  modal: {
+    backgroundColor: "#1e293b",
+    borderRadius: 12,
+    padding: 20,
+    margin: 20,
+    borderWidth: 1,
+    borderColor: "#334155",
+    minWidth: 300,
+  },
+  modalHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 16,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: "bold",
+    color: "#e2e8f0",
+  },
+  closeButton: {
+    padding: 4,
+  },
+  closeButtonText: {
+    fontSize: 18,
+    color: "#94a3b8",
+  },
+  slotList: {
+    gap: 12,
+  },
+  slot: {
+    backgroundColor: "#334155",
+    borderRadius: 8,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: "#475569",
+  },
+  slotDisabled: {
+    opacity: 0.5,
+  },
+  slotName: {
+    fontSize: 16,
+    fontWeight: "bold",
+    color: "#e2e8f0",
+    marginBottom: 4,
+  },
+  slotDetail: {
+    fontSize: 14,
+    color: "#4ade80",
+    marginBottom: 4,
+    textTransform: "capitalize",
+  },
+  slotMeta: {
+    fontSize: 12,
+    color: "#94a3b8",
+    textTransform: "capitalize",
+  },
+});
+
+export default SaveSlotPanel;
@@ -9,30 +9,45 @@ import React, {
   useRef,
 } from "react";
 import {
-  EntityType,
   EcosystemHealth,
   PlayerAction,
-  EntityState,
-  EntityStateValue,
   Position,
-  Plant,
-  Herbivore,
-  Carnivore,
   Player,
   IEntity,
   GameState,
   GameMessage,
-  GameAction,
   Room,
+  SoilGrid,
+  RoomAtmosphere,
+  RoomWeather,
+  Faction,
 } from "../types/gameTypes";
-import {
-  AdvancedCreatureAIFactory,
-  AdvancedCreatureAI,
-} from "../controllers/AdvancedCreatureAI";
 
-import { RoomFactory } from "../factories/RoomFactory";
-import { DungeonGenerator } from "../factories/DungeonGenerator";
 import { RoomController } from "../controllers/RoomController";
+import { SIMULATION_STEP } from "../simulation/GameSession";
+import {
+  PlayerInput,
+  PlayerInputType,
+  SkillType,
+} from "../simulation/PlayerInput";
+import { InputRecording } from "../simulation/InputRecorder";
+import { SimulationClient } from "../simulation/SimulationClient";
+import { SimulationTransportFactory } from "../simulation/SimulationTransportFactory";
+import {
+  SimulationEvent,
+  SimulationEventType,
+} from "../simulation/SimulationProtocol";
+import { EntityMirror } from "../simulation/StateDiff";
+import { SaveGame } from "../persistence/SaveGame";
+import {
+  SaveSlotManager,
+  SaveSlotMetadata,
+  SaveSlotId,
+  SaveSlots,
+  SaveSlotNames,
+} from "../persistence/SaveSlotManager";
+import { SettingsStore } from "../persistence/SettingsStore";
+import { StorageAdapterFactory } from "../persistence/StorageAdapter";
 
 // Game state structure
 const initialState: GameState = {
@@ -47,16 +62,20 @@ const initialState: GameState = {
   playerPosition: new Position(1500, 1500), // Will be set to room center
   rooms: [],
   currentRoomId: "",
+  seed: 0,
+  teleporterStates: {},
 };
 
 // Room controller instance
 const roomController = new RoomController();
 
+// Periodic autosave interval (real time)
+const AUTOSAVE_INTERVAL_MS = 60000;
+
 // Action types
 const GameActions = {
   INITIALIZE_GAME: "INITIALIZE_GAME",
   UPDATE_GAME: "UPDATE_GAME",
-  MOVE_PLAYER: "MOVE_PLAYER",
   PERFORM_ACTION: "PERFORM_ACTION",
   ADD_ENTITY: "ADD_ENTITY",
   REMOVE_ENTITY: "REMOVE_ENTITY",
@@ -66,6 +85,8 @@ const GameActions = {
   TOGGLE_PAUSE: "TOGGLE_PAUSE",
   RESET_GAME: "RESET_GAME",
   CHANGE_ROOM: "CHANGE_ROOM",
+  SET_TELEPORTER_STATES: "SET_TELEPORTER_STATES",
+  SET_ROOM_STATE: "SET_ROOM_STATE",
 } as const;
 
 type GameActionType = (typeof GameActions)[keyof typeof GameActions];
@@ -77,25 +98,24 @@ interface InitializeGameAction {
     entities: IEntity[];
     rooms: Room[];
     currentRoomId: string;
+    seed: number;
+    gameTime: number;
+    ecosystemHealth: (typeof EcosystemHealth)[keyof typeof EcosystemHealth];
+    messages: GameMessage[]; // Message log of a loaded game
+    teleporterStates: { [teleporterId: string]: boolean };
   };
 }
 
 interface UpdateGameAction {
   type: typeof GameActions.UPDATE_GAME;
   payload: {
-    deltaTime: number;
+    gameTime: number; // Simulated time from the simulation clock
     entities: IEntity[];
+    playerPosition: Position;
     ecosystemHealth: (typeof EcosystemHealth)[keyof typeof EcosystemHealth];
   };
 }
 
-interface MovePlayerAction {
-  type: typeof GameActions.MOVE_PLAYER;
-  payload: {
-    player: Player;
-  };
-}
-
 interface PerformActionAction {
   type: typeof GameActions.PERFORM_ACTION;
   payload: {
@@ -155,10 +175,27 @@ interface ChangeRoomAction {
   };
 }
 
+interface SetTeleporterStatesAction {
+  type: typeof GameActions.SET_TELEPORTER_STATES;
+  payload: {
+    teleporterStates: { [teleporterId: string]: boolean };
+  };
+}
+
+interface SetRoomStateAction {
+  type: typeof GameActions.SET_ROOM_STATE;
+  payload: {
+    roomId: string;
+    soil: SoilGrid;
+    atmosphere: RoomAtmosphere;
+    weather: RoomWeather;
+    factions: Faction[];
+  };
+}
+
 type GameReducerAction =
   | InitializeGameAction
   | UpdateGameAction
-  | MovePlayerAction
   | PerformActionAction
   | AddEntityAction
   | RemoveEntityAction
@@ -167,7 +204,9 @@ type GameReducerAction =
   | SelectEntityAction
   | TogglePauseAction
   | ResetGameAction
-  | ChangeRoomAction;
+  | ChangeRoomAction
+  | SetTeleporterStatesAction
+  | SetRoomStateAction;
 
 // Game reducer
 function gameReducer(state: GameState, action: GameReducerAction): GameState {
@@ -179,9 +218,11 @@ function gameReducer(state: GameState, action: GameReducerAction): GameState {
         entities: action.payload.entities,
         rooms: action.payload.rooms,
         currentRoomId: action.payload.currentRoomId,
-        ecosystemHealth: EcosystemHealth.GOOD,
-        gameTime: 0,
-        messages: [],
+        seed: action.payload.seed,
+        teleporterStates: action.payload.teleporterStates,
+        ecosystemHealth: action.payload.ecosystemHealth,
+        gameTime: action.payload.gameTime,
+        messages: action.payload.messages,
         selectedEntity: null,
         playerPosition: action.payload.player.position,
       };
@@ -189,18 +230,12 @@ function gameReducer(state: GameState, action: GameReducerAction): GameState {
     case GameActions.UPDATE_GAME:
       return {
         ...state,
-        gameTime: state.gameTime + action.payload.deltaTime,
+        gameTime: action.payload.gameTime,
         entities: action.payload.entities,
+        playerPosition: action.payload.playerPosition,
         ecosystemHealth: action.payload.ecosystemHealth,
       };
 
-    case GameActions.MOVE_PLAYER:
-      return {
-        ...state,
-        player: action.payload.player,
-        playerPosition: action.payload.player.position,
-      };
-
     case GameActions.PERFORM_ACTION:
       return {
         ...state,
@@ -261,6 +296,28 @@ function gameReducer(state: GameState, action: GameReducerAction): GameState {
         currentRoomId: action.payload.newRoomId,
       };
 
+    case GameActions.SET_TELEPORTER_STATES:
+      return {
+        ...state,
+        teleporterStates: action.payload.teleporterStates,
+      };
+
+    case GameActions.SET_ROOM_STATE:
+      return {
+        ...state,
+        rooms: state.rooms.map((room) =>
+          room.id === action.payload.roomId
+            ? {
+                ...room,
+                soil: action.payload.soil,
+                atmosphere: action.payload.atmosphere,
+                weather: action.payload.weather,
+                factions: action.payload.factions,
+              }
+            : room
+        ),
+      };
+
     default:
       return state;
   }
@@ -275,9 +332,24 @@ interface GameContextType extends GameState {
   ) => void;
   selectEntity: (entity: IEntity | null) => void;
   togglePause: () => void;
-  resetGame: (characterClass?: string) => void;
-  changeRoom: (newRoomId: string) => void;
-  allocateSkillPoint: (skill: "observation" | "restoration") => void;
+  resetGame: (characterClass?: string, seed?: number) => void;
+  setMoveDirection: (direction: { x: number; y: number }) => void;
+  activateTeleporter: (teleporterId: string, activated: boolean) => void;
+  teleport: (teleporterId: string) => void;
+  allocateSkillPoint: (skill: SkillType) => void;
+  heal: () => void;
+  // Sends creature AI memory along while the debug panel shows it
+  setInspecting: (inspecting: boolean) => void;
+  // Replays
+  getRecording: () => Promise<InputRecording | null>;
+  // Persistence
+  saveGame: () => Promise<SaveGame | null>;
+  loadGame: (save: unknown) => void;
+  saveSlots: SaveSlotMetadata[];
+  saveToSlot: (slotId: SaveSlotId) => Promise<void>;
+  loadFromSlot: (slotId: SaveSlotId) => Promise<boolean>;
+  autoSaveEnabled: boolean;
+  setAutoSaveEnabled: (enabled: boolean) => void;
   // Room management
   getRoomController: () => RoomController;
 }
@@ -294,432 +366,146 @@ export function GameProvider({ children }: GameProviderProps) {
   const [state, dispatch] = useReducer(gameReducer, initialState);
   const [roomController] = useState(() => new RoomController());
 
-  // Cache AI instances per entity to prevent recreation every frame
-  const aiCache = useRef<Map<string, AdvancedCreatureAI>>(new Map());
-
-  // Initialize the game world with multiple rooms
-  const initializeGame = useCallback((characterClass: string = "wanderer") => {
-    // Generate multiple rooms using DungeonGenerator
-    const rooms = DungeonGenerator.generateDungeon();
-    const startingRoom = rooms[0]; // Start in the first room
-
-    if (!startingRoom) {
-      throw new Error("Failed to generate starting room");
-    }
-
-    const roomCenterX = startingRoom.x + startingRoom.width / 2;
-    const roomCenterY = startingRoom.y + startingRoom.height / 2;
-
-    const player = new Player(
-      "player_1",
-      new Position(roomCenterX, roomCenterY),
-      characterClass,
-      startingRoom.id
-    );
-
-    // Combine all entities from all rooms
-    const allEntities: IEntity[] = rooms.flatMap((room) => room.entities);
-
-    dispatch({
-      type: GameActions.INITIALIZE_GAME,
-      payload: {
-        player,
-        entities: allEntities,
-        rooms,
-        currentRoomId: startingRoom.id,
-      },
-    });
-  }, []);
-
-  // Calculate ecosystem health based on entity balance
-  const calculateEcosystemHealth = useCallback(
-    (
-      entities: IEntity[]
-    ): (typeof EcosystemHealth)[keyof typeof EcosystemHealth] => {
-      const plants = entities.filter(
-        (e) => e.type === EntityType.PLANT && e.state === EntityState.ALIVE
-      ).length;
-      const herbivores = entities.filter(
-        (e) => e.type === EntityType.HERBIVORE && e.state === EntityState.ALIVE
-      ).length;
-      const carnivores = entities.filter(
-        (e) => e.type === EntityType.CARNIVORE && e.state === EntityState.ALIVE
-      ).length;
-
-      // Simple balance calculation
-      const totalEntities = plants + herbivores + carnivores;
-      if (totalEntities === 0) return EcosystemHealth.CRITICAL;
-
-      const plantRatio = plants / totalEntities;
-      const herbivoreRatio = herbivores / totalEntities;
-      const carnivoreRatio = carnivores / totalEntities;
-
-      // Ideal ratios: 60% plants, 30% herbivores, 10% carnivores
-      const plantBalance = Math.abs(plantRatio - 0.6);
-      const herbivoreBalance = Math.abs(herbivoreRatio - 0.3);
-      const carnivoreBalance = Math.abs(carnivoreRatio - 0.1);
-
-      const totalImbalance = plantBalance + herbivoreBalance + carnivoreBalance;
-
-      if (totalImbalance < 0.1) return EcosystemHealth.EXCELLENT;
-      if (totalImbalance < 0.2) return EcosystemHealth.GOOD;
-      if (totalImbalance < 0.3) return EcosystemHealth.FAIR;
-      if (totalImbalance < 0.4) return EcosystemHealth.POOR;
-      return EcosystemHealth.CRITICAL;
+  // The simulation runs in a worker and sends state diffs back. The mirror
+  // rebuilds entities from them and interpolates between snapshots.
+  const [client] = useState(
+    () => new SimulationClient(SimulationTransportFactory.createForPlatform())
+  );
+  const [mirror] = useState(() => new EntityMirror(SIMULATION_STEP * 1000));
+  // Latest simulated time and health, shown with the next rendered frame
+  const snapshotRef = useRef<{
+    gameTime: number;
+    ecosystemHealth: (typeof EcosystemHealth)[keyof typeof EcosystemHealth];
+  }>({ gameTime: 0, ecosystemHealth: EcosystemHealth.GOOD });
+
+  // Persistence - save slots and settings share one platform storage
+  const [storage] = useState(() => StorageAdapterFactory.createForPlatform());
+  const [saveSlotManager] = useState(() => new SaveSlotManager(storage));
+  const [settingsStore] = useState(() => new SettingsStore(storage));
+  const [saveSlots, setSaveSlots] = useState<SaveSlotMetadata[]>([]);
+  const [autoSaveEnabled, setAutoSaveEnabledState] = useState(true);
+
+  // Only autosave once the player has started or loaded a run, not the
+  // background world created on mount
+  const sessionActiveRef = useRef(false);
+  const autoSaveRef = useRef<() => void>(() => {});
+
+  // Initialize the game world with multiple rooms. Passing the same seed
+  // reproduces the same world.
+  const initializeGame = useCallback(
+    (characterClass: string = "wanderer", seed?: number) => {
+      client.start(characterClass, seed);
     },
-    []
+    [client]
   );
 
-  // Handle entity interactions (predation, reproduction, etc.)
-  const handleEntityInteractions = useCallback(
-    (entities: IEntity[]): IEntity[] => {
-      const newEntities = [...entities];
-
-      // Handle carnivore hunting and eating - simplified for new state system
-      entities.forEach((carnivoreEntity) => {
-        if (
-          carnivoreEntity.type === EntityType.CARNIVORE &&
-          carnivoreEntity.state === EntityState.ALIVE
-        ) {
-          const carnivore = carnivoreEntity as Carnivore;
-          const nearbyLiveHerbivores = entities.filter(
-            (e) =>
-              e.type === EntityType.HERBIVORE &&
-              (e.state === EntityState.ALIVE || e.state === EntityState.FLEEING) &&
-              carnivore.position.distanceTo(e.position) <= 30 // Attack range
-          ) as Herbivore[];
-          
-          const nearbyDeadHerbivores = entities.filter(
-            (e) =>
-              e.type === EntityType.HERBIVORE &&
-              e.state === EntityState.DEAD &&
-              e.weight > 0 &&
-              carnivore.position.distanceTo(e.position) <= 30 // Eating range
-          ) as Herbivore[];
-
-          const isHunting = carnivore.behaviorState === "hunting";
-          const isEating = carnivore.behaviorState === "eating";
-          const isFull = carnivore.hunger <= 0;
-
-          // Handle eating dead prey (higher priority)
-          if (isEating && nearbyDeadHerbivores.length > 0 && !isFull) {
-            const closestDeadPrey = nearbyDeadHerbivores.reduce((closest, prey) => {
-              const distance = carnivore.position.distanceTo(prey.position);
-              const closestDistance = carnivore.position.distanceTo(closest.position);
-              return distance < closestDistance ? prey : closest;
-            });
-
-            // Add eating cooldown
-            const now = Date.now();
-            const lastEatTime = (carnivore as any).lastEatTime || 0;
-            const eatCooldown = 200;
-
-            if (now - lastEatTime >= eatCooldown) {
-              carnivore.hunt(closestDeadPrey); // Use hunt method to eat dead prey
-              (carnivore as any).lastEatTime = now;
-            }
-          }
-          // Handle hunting live prey
-          else if (isHunting && nearbyLiveHerbivores.length > 0 && !isFull) {
-            const closestLivePrey = nearbyLiveHerbivores.reduce((closest, prey) => {
-              const distance = carnivore.position.distanceTo(prey.position);
-              const closestDistance = carnivore.position.distanceTo(closest.position);
-              return distance < closestDistance ? prey : closest;
-            });
-
-            // Add hunting cooldown
-            const now = Date.now();
-            const lastHuntTime = (carnivore as any).lastHuntTime || 0;
-            const huntCooldown = 200;
-
-            if (now - lastHuntTime >= huntCooldown) {
-              carnivore.hunt(closestLivePrey);
-              (carnivore as any).lastHuntTime = now;
-            }
-          }
+  // Mirror events from the simulation worker into the game state
+  const handleSimulationEvent = useCallback(
+    (event: SimulationEvent) => {
+      const now = Date.now();
+
+      switch (event.type) {
+        case SimulationEventType.WORLD: {
+          mirror.applyWorld(event, now);
+          const player = mirror.getPlayer();
+          if (!player) return;
+
+          const entities = mirror.getEntities();
+          snapshotRef.current = {
+            gameTime: event.gameTime,
+            ecosystemHealth: event.ecosystemHealth,
+          };
+          dispatch({
+            type: GameActions.INITIALIZE_GAME,
+            payload: {
+              player,
+              entities,
+              rooms: event.rooms.map((room) => ({
+                ...room,
+                entities: entities.filter(
+                  (entity) => entity.roomId === room.id
+                ),
+              })),
+              currentRoomId: event.currentRoomId,
+              seed: event.seed,
+              gameTime: event.gameTime,
+              ecosystemHealth: event.ecosystemHealth,
+              messages: event.messages,
+              teleporterStates: event.teleporterStates,
+            },
+          });
+          break;
         }
-      });
 
-      // Handle herbivore eating - simplified for new state system
-      entities.forEach((herbivoreEntity) => {
-        if (
-          herbivoreEntity.type === EntityType.HERBIVORE &&
-          herbivoreEntity.state === EntityState.ALIVE
-        ) {
-          const herbivore = herbivoreEntity as Herbivore;
-          const nearbyPlants = entities.filter(
-            (e) =>
-              e.type === EntityType.PLANT &&
-              (e.state === EntityState.ALIVE ||
-                (e.state === EntityState.DEAD && e.weight > 0)) &&
-              herbivore.position.distanceTo(e.position) <= 25 // Eating range
-          ) as Plant[];
-
-          // Only eat when in EATING state and close to food
-          const isEating = herbivore.behaviorState === "eating";
-          const isFull = herbivore.hunger <= 0;
-
-          if (isEating && nearbyPlants.length > 0 && !isFull) {
-            // Find closest plant
-            const closestPlant = nearbyPlants.reduce((closest, plant) => {
-              const distance = herbivore.position.distanceTo(plant.position);
-              const closestDistance = herbivore.position.distanceTo(closest.position);
-              return distance < closestDistance ? plant : closest;
+        case SimulationEventType.DIFF:
+          mirror.applyDiff(event, now);
+          snapshotRef.current = {
+            gameTime: event.gameTime,
+            ecosystemHealth: event.ecosystemHealth,
+          };
+
+          if (event.roomState) {
+            dispatch({
+              type: GameActions.SET_ROOM_STATE,
+              payload: event.roomState,
             });
-
-            // Add eating cooldown
-            const now = Date.now();
-            const lastEatTime = (herbivore as any).lastEatTime || 0;
-            const eatCooldown = 200;
-
-            if (now - lastEatTime >= eatCooldown) {
-              herbivore.eat(closestPlant);
-              (herbivore as any).lastEatTime = now;
-            }
           }
-        }
-      });
-
-      // Handle reproduction
-      entities.forEach((reproducingEntity) => {
-        if (reproducingEntity.state === EntityState.REPRODUCING) {
-          const newPosition = new Position(
-            reproducingEntity.position.x + (Math.random() - 0.5) * 200,
-            reproducingEntity.position.y + (Math.random() - 0.5) * 200
-          );
-
-          // Ensure position is within room bounds
-          const currentRoom = state.rooms.find(
-            (room) => room.id === state.currentRoomId
-          );
-          if (currentRoom) {
-            newPosition.x = Math.max(
-              currentRoom.x + 50,
-              Math.min(currentRoom.x + currentRoom.width - 50, newPosition.x)
-            );
-            newPosition.y = Math.max(
-              currentRoom.y + 50,
-              Math.min(currentRoom.y + currentRoom.height - 50, newPosition.y)
-            );
+          if (event.teleporterStates) {
+            dispatch({
+              type: GameActions.SET_TELEPORTER_STATES,
+              payload: { teleporterStates: event.teleporterStates },
+            });
           }
+          if (event.currentRoomId !== undefined) {
+            dispatch({
+              type: GameActions.CHANGE_ROOM,
+              payload: { newRoomId: event.currentRoomId },
+            });
 
-          let newEntity: IEntity;
-          if (reproducingEntity.type === EntityType.PLANT) {
-            const plant = reproducingEntity as Plant;
-            newEntity = new Plant(
-              `plant_${Date.now()}_${Math.random()}`,
-              newPosition,
-              plant.species,
-              reproducingEntity.roomId
-            );
-          } else if (reproducingEntity.type === EntityType.HERBIVORE) {
-            const herbivore = reproducingEntity as Herbivore;
-            newEntity = new Herbivore(
-              `herbivore_${Date.now()}_${Math.random()}`,
-              newPosition,
-              herbivore.species,
-              reproducingEntity.roomId
-            );
-          } else if (reproducingEntity.type === EntityType.CARNIVORE) {
-            const carnivore = reproducingEntity as Carnivore;
-            newEntity = new Carnivore(
-              `carnivore_${Date.now()}_${Math.random()}`,
-              newPosition,
-              carnivore.species,
-              reproducingEntity.roomId
-            );
-          } else {
-            return;
+            // Autosave on room change
+            autoSaveRef.current();
           }
+          break;
 
-          newEntities.push(newEntity);
-          reproducingEntity.state = EntityState.ALIVE;
-        }
-      });
+        case SimulationEventType.MESSAGES:
+          event.messages.forEach((text) => {
+            dispatch({
+              type: GameActions.ADD_MESSAGE,
+              payload: { message: { text, timestamp: Date.now() } },
+            });
+          });
+          break;
 
-      return newEntities;
+        case SimulationEventType.ERROR:
+          console.warn("Simulation error:", event.message);
+          break;
+      }
     },
-    []
+    [mirror]
   );
 
-  // Update game loop
-  const updateGame = useCallback(
-    (deltaTime: number) => {
-      if (state.isPaused) return;
-
-      // Update all entities using AI system
-      const updatedEntities = state.entities.map((entity) => {
-        // Update basic entity properties (health, energy, age, hunger)
-        entity.update(deltaTime);
-
-        // Use AI for movement and behavior
-        if (
-          entity.state === EntityState.ALIVE &&
-          entity.type !== EntityType.PLAYER
-        ) {
-          // Get or create AI instance from cache to prevent recreation every frame
-          let ai = aiCache.current.get(entity.id);
-          if (!ai) {
-            ai = AdvancedCreatureAIFactory.createAI(
-              entity.type,
-              (entity as any).species
-            );
-            aiCache.current.set(entity.id, ai);
-          }
-
-          // Get nearby entities for AI decision making (within reasonable range)
-          const nearbyEntities = state.entities.filter(
-            (e) =>
-              e.id !== entity.id &&
-              (e.state === EntityState.ALIVE || (e.state === EntityState.DEAD && e.weight > 0)) &&
-              entity.position.distanceTo(e.position) <= 400 // Include dead entities with weight for carnivores to eat
-          );
-
-          // Get room bounds for this entity
-          const entityRoom = state.rooms.find(
-            (room) => room.id === entity.roomId
-          );
-          const roomBounds = entityRoom
-            ? {
-                minX: entityRoom.x + 50,
-                maxX: entityRoom.x + entityRoom.width - 50,
-                minY: entityRoom.y + 50,
-                maxY: entityRoom.y + entityRoom.height - 50,
-              }
-            : undefined;
-
-          // Update position using simplified AI
-          const aiResult = ai.update(
-            deltaTime,
-            entity.position,
-            nearbyEntities,
-            roomBounds,
-            entityRoom?.biome,
-            entity.type === EntityType.HERBIVORE ||
-              entity.type === EntityType.CARNIVORE
-              ? (entity as Herbivore | Carnivore).hunger
-              : undefined,
-            entity.type === EntityType.HERBIVORE ||
-              entity.type === EntityType.CARNIVORE
-              ? (entity as Herbivore | Carnivore).maxHunger
-              : undefined,
-            entity.type === EntityType.HERBIVORE ||
-              entity.type === EntityType.CARNIVORE
-              ? (entity as Herbivore | Carnivore).speed
-              : undefined,
-            entity.type === EntityType.HERBIVORE ||
-              entity.type === EntityType.CARNIVORE
-              ? (entity as Herbivore | Carnivore).health
-              : undefined,
-            entity.type === EntityType.HERBIVORE ||
-              entity.type === EntityType.CARNIVORE
-              ? (entity as Herbivore | Carnivore).maxHealth
-              : undefined,
-            entity.type === EntityType.HERBIVORE ||
-              entity.type === EntityType.CARNIVORE
-              ? 100 // Default energy
-              : undefined,
-            entity.type === EntityType.HERBIVORE ||
-              entity.type === EntityType.CARNIVORE
-              ? 100 // Default maxEnergy
-              : undefined
-          );
-
-          // Update entity position and state from AI result
-          entity.position.x = aiResult.position.x;
-          entity.position.y = aiResult.position.y;
-          entity.behaviorState = aiResult.state; // Set behavior state, not life state
-
-          // Keep entity within its own room bounds
-          if (entityRoom) {
-            entity.position.x = Math.max(
-              entityRoom.x + 50,
-              Math.min(entityRoom.x + entityRoom.width - 50, entity.position.x)
-            );
-            entity.position.y = Math.max(
-              entityRoom.y + 50,
-              Math.min(entityRoom.y + entityRoom.height - 50, entity.position.y)
-            );
-          }
-        }
-
-        return entity;
-      });
-
-      // Handle entity interactions
-      const finalEntities = handleEntityInteractions(updatedEntities);
-
-      // Remove dead entities (either state DEAD or fully consumed entities with weight <= 0)
-      const deadEntities = finalEntities.filter(
-        (e) => e.state === EntityState.DEAD || e.weight <= 0
-      );
-
-      // Clean up AI cache for dead entities
-      deadEntities.forEach((entity) => {
-        aiCache.current.delete(entity.id);
-      });
-
-      // Keep alive entities AND dead entities that still have weight (for eating)
-      const aliveEntities = finalEntities.filter(
-        (e) => e.state !== EntityState.DEAD || e.weight > 0
-      );
-
-      // Calculate ecosystem health
-      const ecosystemHealth = calculateEcosystemHealth(aliveEntities);
-
-      dispatch({
-        type: GameActions.UPDATE_GAME,
-        payload: {
-          deltaTime,
-          entities: aliveEntities,
-          ecosystemHealth,
-        },
-      });
+  // Forward a player input to the simulation, which records it for replays
+  const applyInput = useCallback(
+    (input: PlayerInput) => {
+      client.sendInput(input);
     },
-    [
-      state.isPaused,
-      state.entities,
-      calculateEcosystemHealth,
-      handleEntityInteractions,
-    ]
+    [client]
   );
 
-  // Player actions
+  // Player actions. The simulation keeps the player inside the room.
   const movePlayer = useCallback(
     (newPosition: Position) => {
       if (!state.player) return;
 
-      // Get current room bounds for player movement
-      const currentRoom = state.rooms.find(
-        (room) => room.id === state.currentRoomId
-      );
-
-      if (currentRoom) {
-        // Ensure position is within current room bounds
-        newPosition.x = Math.max(
-          currentRoom.x + 50,
-          Math.min(currentRoom.x + currentRoom.width - 50, newPosition.x)
-        );
-        newPosition.y = Math.max(
-          currentRoom.y + 50,
-          Math.min(currentRoom.y + currentRoom.height - 50, newPosition.y)
-        );
-      } else {
-        // Fallback to world bounds if no room found
-        newPosition.x = Math.max(50, Math.min(2950, newPosition.x));
-        newPosition.y = Math.max(50, Math.min(2950, newPosition.y));
-      }
-
-      state.player.move(newPosition);
-
-      dispatch({
-        type: GameActions.MOVE_PLAYER,
-        payload: { player: state.player },
+      applyInput({
+        type: PlayerInputType.MOVE_TO,
+        position: { x: newPosition.x, y: newPosition.y },
       });
     },
-    [state.player, state.rooms, state.currentRoomId]
+    [state.player, applyInput]
   );
 
+  // Results come back as messages and diffs from the simulation
   const performAction = useCallback(
     (
       action: (typeof PlayerAction)[keyof typeof PlayerAction],
@@ -727,107 +513,13 @@ export function GameProvider({ children }: GameProviderProps) {
     ) => {
       if (!state.player) return;
 
-      let message = "";
-      let updatedEntities = [...state.entities];
-
-      switch (action) {
-        case PlayerAction.GATHER:
-          if (
-            targetEntity &&
-            targetEntity.position.distanceTo(state.player.position) <= 50
-          ) {
-            state.player.gather(targetEntity);
-            updatedEntities = updatedEntities.filter(
-              (e) => e.id !== targetEntity.id
-            );
-            message = `Gathered ${targetEntity.type}`;
-          } else {
-            message = "No target to gather nearby";
-          }
-          break;
-
-        case PlayerAction.ATTACK:
-          if (
-            targetEntity &&
-            targetEntity.position.distanceTo(state.player.position) <= 50
-          ) {
-            state.player.attack(targetEntity);
-            message = `Attacked ${targetEntity.type}`;
-          } else {
-            message = "No target to attack nearby";
-          }
-          break;
-
-        case PlayerAction.PLANT:
-          const newPlant = state.player.plant("moss", state.player.position);
-          updatedEntities.push(newPlant);
-          message = "Planted new moss";
-          break;
-
-        case PlayerAction.OBSERVE:
-          if (state.player) {
-            state.player.observe();
-            // Find nearby entities for observation
-            const nearbyEntities = updatedEntities.filter(
-              (e) => e.position.distanceTo(state.player!.position) <= 100
-            );
-            const plantCount = nearbyEntities.filter(
-              (e) => e.type === EntityType.PLANT
-            ).length;
-            const herbivoreCount = nearbyEntities.filter(
-              (e) => e.type === EntityType.HERBIVORE
-            ).length;
-            const carnivoreCount = nearbyEntities.filter(
-              (e) => e.type === EntityType.CARNIVORE
-            ).length;
-            message = `Observed: ${plantCount} plants, ${herbivoreCount} herbivores, ${carnivoreCount} carnivores`;
-          }
-          break;
-
-        case PlayerAction.RESTORE:
-          if (state.player) {
-            state.player.restore(state.player.position);
-            // Heal nearby entities
-            const entitiesToHeal = updatedEntities.filter(
-              (e) => e.position.distanceTo(state.player!.position) <= 80
-            );
-            entitiesToHeal.forEach((healingEntity) => {
-              healingEntity.health = Math.min(
-                healingEntity.maxHealth,
-                healingEntity.health + 10
-              );
-            });
-            message = `Restored area, healed ${entitiesToHeal.length} entities`;
-          }
-          break;
-      }
-
-      // Check if player leveled up during this action
-      const previousLevel = state.player.level;
-
-      dispatch({
-        type: GameActions.PERFORM_ACTION,
-        payload: {
-          player: state.player,
-          entities: updatedEntities,
-          message: { text: message, timestamp: Date.now() },
-        },
-      });
-
-      // Add level up message if player leveled up
-      if (state.player.level > previousLevel) {
-        dispatch({
-          type: GameActions.ADD_MESSAGE,
-          payload: {
-            message: {
-              text: `🎉 LEVEL UP! You are now level ${state.player.level}! You gained 2 skill points!`,
-              timestamp: Date.now(),
-            },
-          },
-        });
+      const input: PlayerInput = { type: PlayerInputType.ACTION, action };
+      if (targetEntity) {
+        input.targetEntityId = targetEntity.id;
       }
+      applyInput(input);
     },
-    [state.player, state.entities]
+    [state.player, applyInput]
   );
 
   const selectEntity = useCallback((entity: IEntity | null) => {
@@ -842,52 +534,149 @@ export function GameProvider({ children }: GameProviderProps) {
   }, []);
 
   const resetGame = useCallback(
-    (characterClass?: string) => {
-      // Clear AI cache when resetting game
-      aiCache.current.clear();
+    (characterClass?: string, seed?: number) => {
+      // Starting a run replaces all simulation state (including the AI
+      // cache) in the worker
       dispatch({ type: GameActions.RESET_GAME });
-      initializeGame(characterClass || "wanderer");
+      initializeGame(characterClass || "wanderer", seed);
+      sessionActiveRef.current = true;
     },
     [initializeGame]
   );
 
-  const changeRoom = useCallback((newRoomId: string) => {
-    dispatch({
-      type: GameActions.CHANGE_ROOM,
-      payload: { newRoomId },
-    });
-  }, []);
+  const setMoveDirection = useCallback(
+    (direction: { x: number; y: number }) => {
+      applyInput({ type: PlayerInputType.MOVE, direction });
+    },
+    [applyInput]
+  );
+
+  const activateTeleporter = useCallback(
+    (teleporterId: string, activated: boolean) => {
+      applyInput({
+        type: PlayerInputType.ACTIVATE_TELEPORTER,
+        teleporterId,
+        activated,
+      });
+    },
+    [applyInput]
+  );
+
+  const teleport = useCallback(
+    (teleporterId: string) => {
+      applyInput({ type: PlayerInputType.TELEPORT, teleporterId });
+    },
+    [applyInput]
+  );
 
   const allocateSkillPoint = useCallback(
-    (skill: "observation" | "restoration") => {
+    (skill: SkillType) => {
       if (!state.player) return;
 
-      const success = state.player.allocateSkillPoint(skill);
-      if (success) {
-        dispatch({
-          type: GameActions.UPDATE_ENTITY,
-          payload: { entity: state.player },
-        });
+      applyInput({ type: PlayerInputType.ALLOCATE_SKILL, skill });
+    },
+    [state.player, applyInput]
+  );
+
+  const heal = useCallback(() => {
+    if (!state.player) return;
+
+    applyInput({ type: PlayerInputType.HEAL });
+  }, [state.player, applyInput]);
+
+  // Inputs recorded since the current run started, or null for loaded games
+  const getRecording = useCallback((): Promise<InputRecording | null> => {
+    return client.requestRecording();
+  }, [client]);
+
+  // Snapshot the full game state into a versioned save
+  const saveGame = useCallback((): Promise<SaveGame | null> => {
+    if (!state.player) return Promise.resolve(null);
+
+    return client.requestSave(state.messages);
+  }, [state.player, state.messages, client]);
+
+  // Restore a save (parsed JSON of any supported version). The world is
+  // mirrored once the simulation has rehydrated it.
+  const loadGame = useCallback(
+    (save: unknown) => {
+      client.load(save);
+      sessionActiveRef.current = true;
+    },
+    [client]
+  );
+
+  const refreshSaveSlots = useCallback(async () => {
+    setSaveSlots(await saveSlotManager.listSlots());
+  }, [saveSlotManager]);
+
+  const saveToSlot = useCallback(
+    async (slotId: SaveSlotId) => {
+      try {
+        const save = await saveGame();
+        if (!save) return;
 
-        // Add a message about the skill allocation
+        await saveSlotManager.save(slotId, save);
+        await refreshSaveSlots();
         dispatch({
           type: GameActions.ADD_MESSAGE,
           payload: {
             message: {
-              text: `🎯 ${
-                skill.charAt(0).toUpperCase() + skill.slice(1)
-              } skill increased to ${
-                skill === "observation"
-                  ? state.player.observationSkill
-                  : state.player.restorationSkill
-              }!`,
+              text: `💾 Game saved to ${SaveSlotNames[slotId]}`,
               timestamp: Date.now(),
             },
           },
         });
+      } catch (error) {
+        console.warn(`Failed to save to ${slotId}:`, error);
       }
     },
-    [state.player]
+    [saveGame, saveSlotManager, refreshSaveSlots]
+  );
+
+  const loadFromSlot = useCallback(
+    async (slotId: SaveSlotId): Promise<boolean> => {
+      try {
+        const save = await saveSlotManager.load(slotId);
+        if (!save) return false;
+        loadGame(save);
+        return true;
+      } catch (error) {
+        console.warn(`Failed to load ${slotId}:`, error);
+        return false;
+      }
+    },
+    [saveSlotManager, loadGame]
+  );
+
+  // Quietly write the autosave slot
+  const autoSave = useCallback(() => {
+    if (!autoSaveEnabled || !sessionActiveRef.current) return;
+
+    saveGame()
+      .then(async (save) => {
+        if (!save) return;
+        await saveSlotManager.save(SaveSlots.AUTOSAVE, save);
+        await refreshSaveSlots();
+      })
+      .catch((error) => console.warn("Autosave failed:", error));
+  }, [autoSaveEnabled, saveGame, saveSlotManager, refreshSaveSlots]);
+
+  const setAutoSaveEnabled = useCallback(
+    (enabled: boolean) => {
+      setAutoSaveEnabledState(enabled);
+      settingsStore
+        .save({ autoSaveEnabled: enabled })
+        .catch((error) => console.warn("Failed to save settings:", error));
+    },
+    [settingsStore]
+  );
+
+  const setInspecting = useCallback(
+    (inspecting: boolean) => {
+      client.setInspecting(inspecting);
+    },
+    [client]
   );
 
   // Room management methods
@@ -895,19 +684,74 @@ export function GameProvider({ children }: GameProviderProps) {
     return roomController;
   }, []);
 
+  // Receive simulation events - registered before the world is requested
+  useEffect(() => {
+    client.setListener(handleSimulationEvent);
+    return () => client.setListener(null);
+  }, [client, handleSimulationEvent]);
+
   // Initialize game on mount
   useEffect(() => {
     initializeGame("wanderer");
   }, [initializeGame]);
 
-  // Game loop - 30 FPS
+  // Load persisted settings and save slot metadata on mount
   useEffect(() => {
-    const gameLoop = setInterval(() => {
-      updateGame(1 / 30); // 30 FPS = 1/30 second intervals
-    }, 1000 / 30); // 33.33ms intervals
+    settingsStore
+      .load()
+      .then((settings) => setAutoSaveEnabledState(settings.autoSaveEnabled))
+      .catch((error) => console.warn("Failed to load settings:", error));
+    refreshSaveSlots().catch((error) =>
+      console.warn("Failed to read save slots:", error)
+    );
+  }, [settingsStore, refreshSaveSlots]);
+
+  // Keep the latest autosave callback for room changes and the timer
+  useEffect(() => {
+    autoSaveRef.current = autoSave;
+  }, [autoSave]);
+
+  // Periodic autosave
+  useEffect(() => {
+    if (!autoSaveEnabled) return;
+
+    const autoSaveTimer = setInterval(() => {
+      autoSaveRef.current();
+    }, AUTOSAVE_INTERVAL_MS);
+
+    return () => clearInterval(autoSaveTimer);
+  }, [autoSaveEnabled]);
+
+  // Pausing stops the simulation itself, not just rendering
+  useEffect(() => {
+    client.setPaused(state.isPaused);
+  }, [client, state.isPaused]);
+
+  // Render loop - the simulation steps at 30 FPS in the worker, frames are
+  // drawn at the display rate with positions interpolated between snapshots
+  useEffect(() => {
+    if (state.isPaused) return;
+
+    let frame = 0;
+    const render = () => {
+      if (mirror.interpolate(Date.now())) {
+        const player = mirror.getPlayer();
+        dispatch({
+          type: GameActions.UPDATE_GAME,
+          payload: {
+            gameTime: snapshotRef.current.gameTime,
+            entities: mirror.getEntities(),
+            playerPosition: player?.position || initialState.playerPosition,
+            ecosystemHealth: snapshotRef.current.ecosystemHealth,
+          },
+        });
+      }
+      frame = requestAnimationFrame(render);
+    };
+    frame = requestAnimationFrame(render);
 
-    return () => clearInterval(gameLoop);
-  }, [updateGame]);
+    return () => cancelAnimationFrame(frame);
+  }, [state.isPaused, mirror]);
 
   const value: GameContextType = {
     ...state,
@@ -916,8 +760,22 @@ export function GameProvider({ children }: GameProviderProps) {
     selectEntity,
     togglePause,
     resetGame,
-    changeRoom,
+    setMoveDirection,
+    activateTeleporter,
+    teleport,
     allocateSkillPoint,
+    heal,
+    setInspecting,
+    // Replays
+    getRecording,
+    // Persistence
+    saveGame,
+    loadGame,
+    saveSlots,
+    saveToSlot,
+    loadFromSlot,
+    autoSaveEnabled,
+    setAutoSaveEnabled,
     // Room management
     getRoomController,
   };
@@ -1,14 +1,56 @@
-import { Position } from "../types/gameTypes";
+import {
+  Carnivore,
+  EntityType,
+  FactionRelation,
+  FactionRelationValue,
+  Herbivore,
+  IEntity,
+  MemoryPoint,
+  PersonalityTraits,
+  Position,
+} from "../types/gameTypes";
+import { BiomeModifiers } from "../types/biomeTypes";
+import { SeededRandom } from "../utils/SeededRandom";
+import {
+  AIProfile,
+  CarnivoreSpecies,
+  DecomposerSpecies,
+  HerbivoreSpecies,
+} from "../types/speciesTypes";
+import { SpeciesRegistry } from "../species/SpeciesRegistry";
+import { BiomeRegistry } from "../biomes/BiomeRegistry";
 import { 
   BehaviorStateMachine, 
   BehaviorFactory, 
   SteeringBehaviors, 
   SteeringForce,
   BehaviorState,
-  PersonalityTraits,
-  CreatureMemory
+  CreatureMemory,
+  BehaviorStateMachineSnapshot,
+  CreatureMemorySnapshot,
+  MemoryBehaviors,
+  MemoryRates
 } from "./BehaviorSystem";
 
+export const HuntingRates = {
+  STRIKE_RANGE: 70, // Pixels from which stalkers and ambushers pounce
+  STALK_SPEED: 0.4, // Speed of a stalker creeping up, relative to its own
+  POUNCE_SPEED: 1.5, // Speed of a pounce, likewise
+  SPRINT_SPEED: 1.25, // Speed of a chaser sprinting, likewise
+  WINDED_SPEED: 0.6, // Speed of a chaser out of breath, likewise
+  STAMINA: 6, // Seconds a chaser can sprint
+  RECOVERY: 0.5, // Stamina regained per second off the sprint
+  SPOT_RATE: 2, // Chance per second fully alert prey spots a hunter with no stealth
+} as const;
+
+export const HerdRates = {
+  RANGE: 150, // Pixels within which herbivores of a species herd together
+  SPACING: 40, // Herd mates closer than this push apart
+  COHESION: 0.6, // Pull towards the herd of a fully sociable herbivore
+  ALIGNMENT: 0.4, // Pull into the herd's heading, likewise
+  SEPARATION: 1, // Push away from crowding herd mates
+} as const;
+
 export interface AdvancedCreatureAI {
   update(
     deltaTime: number,
@@ -22,16 +64,39 @@ export interface AdvancedCreatureAI {
     health?: number,
     maxHealth?: number,
     energy?: number,
-    maxEnergy?: number
+    maxEnergy?: number,
+    isActiveTime?: boolean,
+    relationTo?: (entity: IEntity) => FactionRelationValue, // How its faction sees an entity
+    pack?: PackOrders, // Orders from the leader of its hunting pack
+    ambushSpots?: Position[] // Teleporters and other places prey passes by
   ): { position: Position; state: string };
+  getPersonality(): PersonalityTraits | null;
+  rememberAttack(position: Position): void; // Note where the creature was hurt
+  getMemoryPoints(): MemoryPoint[];
+  toSnapshot(): CreatureAISnapshot;
+  restoreSnapshot(
+    snapshot: CreatureAISnapshot,
+    resolveEntity: (id: string) => IEntity | undefined
+  ): void;
 }
 
-export interface BiomeModifiers {
-  speedMultiplier: number;
-  aggressionMultiplier: number;
-  reproductionRate: number;
-  foodEfficiency: number;
-  energyEfficiency: number;
+// What the leader of a hunting pack asks of a member
+export interface PackOrders {
+  targetId: string | null; // Prey the whole pack goes for
+  flankOffset: number; // Pixels to the side of the prey to close in from, 0 for straight on
+}
+
+// Plain-data form of an AI instance for save games
+export interface CreatureAISnapshot {
+  creatureType: string;
+  species: string;
+  id: string;
+  velocity: { x: number; y: number };
+  currentTargetId: string | null; // Target entity, resolved again on load
+  stateMachine: BehaviorStateMachineSnapshot | null;
+  memory: CreatureMemorySnapshot | null;
+  personality: PersonalityTraits | null;
+  stamina?: { remaining: number; winded: boolean }; // Chasers' sprint
 }
 
 // Simplified Plant AI (plants don't move)
@@ -48,11 +113,44 @@ export class AdvancedPlantAI implements AdvancedCreatureAI {
     health?: number,
     maxHealth?: number,
     energy?: number,
-    maxEnergy?: number
+    maxEnergy?: number,
+    isActiveTime?: boolean
   ): { position: Position; state: string } {
     // Plants don't move
     return { position, state: "growing" };
   }
+
+  // Plants have no personality to inherit
+  getPersonality(): PersonalityTraits | null {
+    return null;
+  }
+
+  // Plants remember nothing
+  rememberAttack(position: Position): void {}
+
+  getMemoryPoints(): MemoryPoint[] {
+    return [];
+  }
+
+  toSnapshot(): CreatureAISnapshot {
+    return {
+      creatureType: "plant",
+      species: "",
+      id: "",
+      velocity: { x: 0, y: 0 },
+      currentTargetId: null,
+      stateMachine: null,
+      memory: null,
+      personality: null,
+    };
+  }
+
+  restoreSnapshot(
+    snapshot: CreatureAISnapshot,
+    resolveEntity: (id: string) => IEntity | undefined
+  ): void {
+    // Plants have no AI state
+  }
 }
 
 // Simplified Herbivore AI
@@ -64,17 +162,28 @@ export class AdvancedHerbivoreAI implements AdvancedCreatureAI {
   private currentTarget: any = null; // Target plant entity
   private id: string;
   private species: string;
+  private profile: AIProfile;
+  private rng: SeededRandom;
 
-  constructor(species: string = "rabbit") {
-    this.species = species;
-    this.id = Math.random().toString(36).substr(2, 9);
+  constructor(
+    definition: HerbivoreSpecies,
+    rng: SeededRandom,
+    personality: PersonalityTraits | null = null
+  ) {
+    this.species = definition.id;
+    this.profile = definition.ai;
+    this.rng = rng;
+    this.id = rng.next().toString(36).substr(2, 9);
+    // Offspring inherit a personality, founders are born with a random one
+    this.personality = personality
+      ? { ...personality }
+      : BehaviorFactory.generatePersonality(rng);
     this.stateMachine = new BehaviorStateMachine(
       BehaviorFactory.createHerbivoreBehaviors(),
       BehaviorFactory.generateMemory(),
-      BehaviorFactory.generatePersonality()
+      { ...this.personality }
     );
     this.memory = BehaviorFactory.generateMemory();
-    this.personality = BehaviorFactory.generatePersonality();
   }
 
   update(
@@ -89,16 +198,46 @@ export class AdvancedHerbivoreAI implements AdvancedCreatureAI {
     health?: number,
     maxHealth?: number,
     energy?: number,
-    maxEnergy?: number
+    maxEnergy?: number,
+    isActiveTime?: boolean,
+    relationTo?: (entity: IEntity) => FactionRelationValue
   ): { position: Position; state: string } {
+    // Allies are neither prey nor threat
+    const isAlly = (e: IEntity) => relationTo?.(e) === FactionRelation.ALLIED;
+    MemoryBehaviors.advance(this.memory, deltaTime);
+
     // Separate entities by type with distance limits
     const nearbyPlants = nearbyEntities.filter(e => e.type === "plant" && e.state === "alive");
+    const nearbyHerbivores = nearbyEntities.filter(e => e.type === "herbivore" && e.state === "alive");
+    const herd = nearbyHerbivores.filter(e => e.species === this.species && position.distanceTo(e.position) <= HerdRates.RANGE);
+    const fleeingMates = herd.filter(e => e.behaviorState === BehaviorState.FLEEING);
+    const alertness = this.getAlertness();
     const nearbyPredators = nearbyEntities.filter(e => 
       e.type === "carnivore" && 
       e.state === "alive" && 
-      position.distanceTo(e.position) <= 200 // Only consider predators within 200px for fleeing
+      !isAlly(e) &&
+      ((position.distanceTo(e.position) <= this.profile.threatRange && // Only consider predators within the species' threat range for fleeing
+        this.notices(e, position, alertness, deltaTime)) ||
+        // A herd mate running from a predator warns the rest of the herd
+        fleeingMates.some(mate => mate.position.distanceTo(e.position) <= this.profile.threatRange))
     );
-    const nearbyHerbivores = nearbyEntities.filter(e => e.type === "herbivore" && e.state === "alive");
+
+    // Remember the closest plant and every predator in sight. Remembered
+    // food that should be in sight but is not has been eaten.
+    if (nearbyPlants.length > 0) {
+      const closestPlant = nearbyPlants.reduce((closest, plant) =>
+        position.distanceTo(plant.position) < position.distanceTo(closest.position) ? plant : closest
+      );
+      MemoryBehaviors.remember(this.memory, this.memory.lastKnownFoodPositions, closestPlant.position);
+    } else {
+      this.memory.lastKnownFoodPositions = MemoryBehaviors.forgetAround(this.memory.lastKnownFoodPositions, position, MemoryRates.SIGHT_RANGE);
+    }
+    nearbyPredators.forEach(predator =>
+      MemoryBehaviors.remember(this.memory, this.memory.lastKnownPredatorPositions, predator.position)
+    );
+
+    // Plants where it was attacked or saw predators are left alone for a while
+    const safePlants = nearbyPlants.filter(plant => !MemoryBehaviors.isDangerous(this.memory, plant.position));
 
     // Calculate context for state machine
     const hungerPercent = (hunger || 0) / (maxHunger || 100);
@@ -106,7 +245,7 @@ export class AdvancedHerbivoreAI implements AdvancedCreatureAI {
     const healthPercent = (health || 100) / (maxHealth || 100);
 
     // Check if close to food
-    const isCloseToFood = nearbyPlants.some(plant => 
+    const isCloseToFood = safePlants.some(plant => 
       position.distanceTo(plant.position) <= 25
     );
 
@@ -118,21 +257,13 @@ export class AdvancedHerbivoreAI implements AdvancedCreatureAI {
       energy: energy || 100,
       maxEnergy: maxEnergy || 100,
       nearbyPredators: nearbyPredators.length,
-      nearbyFood: nearbyPlants.length,
+      nearbyFood: safePlants.length,
       isCloseToFood,
+      isActiveTime: isActiveTime ?? true, // Awake unless told otherwise
     };
 
     // Update state machine
     const newState = this.stateMachine.update(deltaTime, context);
-    
-    // Debug logging for fleeing behavior
-    if (newState === "fleeing" && Math.random() < 0.1) {
-      console.log(`🦘 Herbivore ${this.id.slice(-4)} fleeing from ${nearbyPredators.length} predators within 200px`);
-      nearbyPredators.forEach(predator => {
-        const distance = position.distanceTo(predator.position);
-        console.log(`  - Predator ${predator.id.slice(-4)} at distance ${distance.toFixed(1)}px`);
-      });
-    }
 
     // Calculate movement based on state
     const speed = (creatureSpeed || 80) * (this.getBiomeModifiers(biome || "forest").speedMultiplier);
@@ -159,26 +290,28 @@ export class AdvancedHerbivoreAI implements AdvancedCreatureAI {
             const closestDistance = position.distanceTo(closest.position);
             return distance < closestDistance ? predator : closest;
           });
-          steeringForce = SteeringBehaviors.flee(position, closestPredator.position, speed * 1.5, this.currentVelocity);
+          steeringForce = SteeringBehaviors.flee(position, closestPredator.position, speed * this.profile.fleeSpeedMultiplier, this.currentVelocity);
+          // The herd runs as one
+          steeringForce = this.addHerdForce(steeringForce, position, herd, speed);
         }
         break;
 
       case BehaviorState.GRAZING:
         // Move toward target plant - stick to chosen target
-        if (nearbyPlants.length > 0) {
+        if (safePlants.length > 0) {
           // If no current target, choose the closest plant
           if (!this.currentTarget) {
-            this.currentTarget = nearbyPlants.reduce((closest, plant) => {
+            this.currentTarget = safePlants.reduce((closest, plant) => {
               const distance = position.distanceTo(plant.position);
               const closestDistance = position.distanceTo(closest.position);
               return distance < closestDistance ? plant : closest;
             });
           } else {
             // Check if current target is still valid
-            const targetStillValid = nearbyPlants.some(plant => plant.id === this.currentTarget.id);
+            const targetStillValid = safePlants.some(plant => plant.id === this.currentTarget.id);
             if (!targetStillValid) {
               // Target is no longer valid, choose new target
-              this.currentTarget = nearbyPlants.reduce((closest, plant) => {
+              this.currentTarget = safePlants.reduce((closest, plant) => {
                 const distance = position.distanceTo(plant.position);
                 const closestDistance = position.distanceTo(closest.position);
                 return distance < closestDistance ? plant : closest;
@@ -195,6 +328,7 @@ export class AdvancedHerbivoreAI implements AdvancedCreatureAI {
           } else {
             // Move toward target plant - full speed when hungry
             steeringForce = SteeringBehaviors.arrive(position, this.currentTarget.position, speed, 25, this.currentVelocity);
+            steeringForce = this.addDangerForce(steeringForce, position, speed);
           }
         } else {
           // No plants nearby, clear target
@@ -204,8 +338,16 @@ export class AdvancedHerbivoreAI implements AdvancedCreatureAI {
 
       case BehaviorState.WANDERING:
       default:
-        // Random wandering movement
-        steeringForce = SteeringBehaviors.wander(this.currentVelocity, 50, 100, 10);
+        // Hungry herbivores head back to food they remember, others roam
+        const rememberedFood = hungerPercent >= MemoryRates.FORAGE_HUNGER && safePlants.length === 0
+          ? MemoryBehaviors.recall(this.memory, this.memory.lastKnownFoodPositions, position)
+          : null;
+        steeringForce = rememberedFood
+          ? SteeringBehaviors.arrive(position, rememberedFood, speed, 25, this.currentVelocity)
+          : SteeringBehaviors.wander(this.rng, this.currentVelocity, this.profile.wanderRadius, this.profile.wanderDistance, 10);
+        // Drift along with the herd
+        steeringForce = this.addHerdForce(steeringForce, position, herd, speed);
+        steeringForce = this.addDangerForce(steeringForce, position, speed);
         // Clear target when wandering
         this.currentTarget = null;
         break;
@@ -246,25 +388,101 @@ export class AdvancedHerbivoreAI implements AdvancedCreatureAI {
     return { position: newPosition, state: newState };
   }
 
+  getPersonality(): PersonalityTraits | null {
+    return { ...this.personality };
+  }
+
+  rememberAttack(position: Position): void {
+    MemoryBehaviors.remember(this.memory, this.memory.lastKnownPredatorPositions, position);
+  }
+
+  getMemoryPoints(): MemoryPoint[] {
+    return MemoryBehaviors.toPoints(this.memory);
+  }
+
+  toSnapshot(): CreatureAISnapshot {
+    return {
+      creatureType: "herbivore",
+      species: this.species,
+      id: this.id,
+      velocity: { ...this.currentVelocity },
+      currentTargetId: this.currentTarget ? this.currentTarget.id : null,
+      stateMachine: this.stateMachine.toSnapshot(),
+      memory: BehaviorFactory.serializeMemory(this.memory),
+      personality: { ...this.personality },
+    };
+  }
+
+  restoreSnapshot(
+    snapshot: CreatureAISnapshot,
+    resolveEntity: (id: string) => IEntity | undefined
+  ): void {
+    this.species = snapshot.species;
+    this.id = snapshot.id;
+    this.currentVelocity = { ...snapshot.velocity };
+    this.currentTarget = snapshot.currentTargetId
+      ? resolveEntity(snapshot.currentTargetId) || null
+      : null;
+    if (snapshot.stateMachine) {
+      this.stateMachine.restoreSnapshot(snapshot.stateMachine);
+    }
+    if (snapshot.memory) {
+      this.memory = BehaviorFactory.deserializeMemory(snapshot.memory);
+    }
+    if (snapshot.personality) {
+      this.personality = { ...snapshot.personality };
+    }
+  }
+
   private getBiomeModifiers(biome: string): BiomeModifiers {
-    switch (biome) {
-      case "forest":
-        return { speedMultiplier: 1.0, aggressionMultiplier: 1.0, reproductionRate: 1.0, foodEfficiency: 1.0, energyEfficiency: 1.0 };
-      case "desert":
-        return { speedMultiplier: 1.2, aggressionMultiplier: 1.1, reproductionRate: 0.8, foodEfficiency: 0.9, energyEfficiency: 0.8 };
-      case "arctic":
-        return { speedMultiplier: 0.8, aggressionMultiplier: 0.9, reproductionRate: 0.7, foodEfficiency: 1.1, energyEfficiency: 1.2 };
-      case "swamp":
-        return { speedMultiplier: 0.9, aggressionMultiplier: 1.0, reproductionRate: 1.1, foodEfficiency: 1.0, energyEfficiency: 0.9 };
-      case "cave":
-        return { speedMultiplier: 0.7, aggressionMultiplier: 1.2, reproductionRate: 0.9, foodEfficiency: 0.8, energyEfficiency: 1.1 };
-      case "volcanic":
-        return { speedMultiplier: 1.1, aggressionMultiplier: 1.3, reproductionRate: 0.6, foodEfficiency: 0.7, energyEfficiency: 0.8 };
-      case "laboratory":
-        return { speedMultiplier: 1.0, aggressionMultiplier: 1.0, reproductionRate: 1.0, foodEfficiency: 1.0, energyEfficiency: 1.0 };
-      default:
-        return { speedMultiplier: 1.0, aggressionMultiplier: 1.0, reproductionRate: 1.0, foodEfficiency: 1.0, energyEfficiency: 1.0 };
+    return BiomeRegistry.getModifiers(biome, EntityType.HERBIVORE);
+  }
+
+  // Keep clear of places where it was attacked or saw predators
+  private addDangerForce(force: SteeringForce, position: Position, speed: number): SteeringForce {
+    const avoid = MemoryBehaviors.avoidDanger(this.memory, position, speed);
+    return { x: force.x + avoid.x, y: force.y + avoid.y };
+  }
+
+  // Add the pull towards herd mates and into their heading, as strong as
+  // the herbivore is sociable, and the push away from mates crowding it
+  private addHerdForce(force: SteeringForce, position: Position, herd: Herbivore[], speed: number): SteeringForce {
+    if (herd.length === 0) return force;
+
+    const positions: Position[] = herd.map(mate => mate.position);
+    const cohesion = SteeringBehaviors.cohesion(position, positions, HerdRates.RANGE, speed);
+    const alignment = SteeringBehaviors.alignment(herd.map(mate => mate.velocity), speed, this.currentVelocity);
+    const separation = SteeringBehaviors.separation(position, positions, HerdRates.SPACING, speed);
+    const pull = this.personality.sociability;
+    return {
+      x: force.x + (cohesion.x * HerdRates.COHESION + alignment.x * HerdRates.ALIGNMENT) * pull + separation.x * HerdRates.SEPARATION,
+      y: force.y + (cohesion.y * HerdRates.COHESION + alignment.y * HerdRates.ALIGNMENT) * pull + separation.y * HerdRates.SEPARATION,
+    };
+  }
+
+  // How watchful the herbivore is - timid ones more than bold ones, and all
+  // of them less so with their heads down eating or asleep
+  private getAlertness(): number {
+    const state = this.stateMachine.getCurrentState();
+    const focus = state === BehaviorState.RESTING ? 0.3 : state === BehaviorState.EATING ? 0.6 : 1;
+    return (1 - this.personality.boldness * 0.5) * focus;
+  }
+
+  // Whether the herbivore notices a predator. Hunters out in the open are
+  // seen at once, stalking or lurking ones only up close or by chance.
+  private notices(predator: Carnivore, position: Position, alertness: number, deltaTime: number): boolean {
+    if (
+      predator.behaviorState !== BehaviorState.STALKING &&
+      predator.behaviorState !== BehaviorState.AMBUSHING
+    ) {
+      return true;
     }
+    // Prey already on the run keeps an eye on everything around it
+    if (this.stateMachine.getCurrentState() === BehaviorState.FLEEING) return true;
+
+    const distance = position.distanceTo(predator.position);
+    if (distance <= predator.detectionRange * (0.5 + alertness)) return true;
+    return this.rng.next() < (1 - predator.stealthLevel) * alertness * HuntingRates.SPOT_RATE * deltaTime;
   }
 }
 
@@ -277,17 +495,32 @@ export class AdvancedCarnivoreAI implements AdvancedCreatureAI {
   private currentTarget: any = null; // Single target system
   private id: string;
   private species: string;
+  private profile: AIProfile;
+  private hunting: CarnivoreSpecies["hunting"];
+  private stamina: number = HuntingRates.STAMINA; // Seconds of sprint left
+  private winded = false; // Ran out of stamina and not yet recovered
+  private rng: SeededRandom;
 
-  constructor(species: string = "rat") {
-    this.species = species;
-    this.id = Math.random().toString(36).substr(2, 9);
+  constructor(
+    definition: CarnivoreSpecies,
+    rng: SeededRandom,
+    personality: PersonalityTraits | null = null
+  ) {
+    this.species = definition.id;
+    this.profile = definition.ai;
+    this.hunting = definition.hunting;
+    this.rng = rng;
+    this.id = rng.next().toString(36).substr(2, 9);
+    // Offspring inherit a personality, founders are born with a random one
+    this.personality = personality
+      ? { ...personality }
+      : BehaviorFactory.generatePersonality(rng);
     this.stateMachine = new BehaviorStateMachine(
       BehaviorFactory.createCarnivoreBehaviors(),
       BehaviorFactory.generateMemory(),
-      BehaviorFactory.generatePersonality()
+      { ...this.personality }
     );
     this.memory = BehaviorFactory.generateMemory();
-    this.personality = BehaviorFactory.generatePersonality();
   }
 
   update(
@@ -302,17 +535,44 @@ export class AdvancedCarnivoreAI implements AdvancedCreatureAI {
     health?: number,
     maxHealth?: number,
     energy?: number,
-    maxEnergy?: number
+    maxEnergy?: number,
+    isActiveTime?: boolean,
+    relationTo?: (entity: IEntity) => FactionRelationValue,
+    pack?: PackOrders,
+    ambushSpots?: Position[]
   ): { position: Position; state: string } {
+    // Allies are neither prey nor threat
+    const isAlly = (e: IEntity) => relationTo?.(e) === FactionRelation.ALLIED;
+    MemoryBehaviors.advance(this.memory, deltaTime);
+
     // Separate entities by type with distance limits
-    const nearbyLivePrey = nearbyEntities.filter(e => e.type === "herbivore" && e.state === "alive");
+    const nearbyLivePrey = nearbyEntities.filter(e => e.type === "herbivore" && e.state === "alive" && !isAlly(e));
+    // Members of enemy factions are hunted first
+    const hostilePrey = nearbyLivePrey.filter(e => relationTo?.(e) === FactionRelation.HOSTILE);
+    const preferredPrey = hostilePrey.length > 0 ? hostilePrey : nearbyLivePrey;
     const nearbyDeadPrey = nearbyEntities.filter(e => e.type === "herbivore" && e.state === "dead" && e.weight > 0);
     const nearbyPrey = [...nearbyLivePrey, ...nearbyDeadPrey]; // Combine live and dead prey
+    const nearbyPlants = nearbyEntities.filter(e => e.type === "plant" && e.state === "alive"); // Where prey comes to feed
     const nearbyPredators = nearbyEntities.filter(e => 
       e.type === "carnivore" && 
       e.state === "alive" && 
       e.id !== this.id &&
-      position.distanceTo(e.position) <= 200 // Only consider predators within 200px for fleeing
+      !isAlly(e) &&
+      position.distanceTo(e.position) <= this.profile.threatRange // Only consider predators within the species' threat range for fleeing
+    );
+
+    // Remember the closest prey and every predator in sight. Remembered
+    // hunting grounds that should be in sight but hold no prey are empty.
+    if (nearbyLivePrey.length > 0) {
+      const closestPrey = nearbyLivePrey.reduce((closest, prey) =>
+        position.distanceTo(prey.position) < position.distanceTo(closest.position) ? prey : closest
+      );
+      MemoryBehaviors.remember(this.memory, this.memory.lastKnownPreyPositions, closestPrey.position);
+    } else {
+      this.memory.lastKnownPreyPositions = MemoryBehaviors.forgetAround(this.memory.lastKnownPreyPositions, position, MemoryRates.SIGHT_RANGE);
+    }
+    nearbyPredators.forEach(predator =>
+      MemoryBehaviors.remember(this.memory, this.memory.lastKnownPredatorPositions, predator.position)
     );
 
     // Calculate context for state machine
@@ -336,6 +596,7 @@ export class AdvancedCarnivoreAI implements AdvancedCreatureAI {
       nearbyFood: 0, // Carnivores don't eat plants
       nearbyPrey: nearbyLivePrey.length, // Only count live prey for hunting
       isCloseToPrey,
+      isActiveTime: isActiveTime ?? true, // Awake unless told otherwise
     };
 
     // Update state machine
@@ -344,6 +605,10 @@ export class AdvancedCarnivoreAI implements AdvancedCreatureAI {
     // Calculate movement based on state
     const speed = (creatureSpeed || 100) * (this.getBiomeModifiers(biome || "forest").speedMultiplier);
     let steeringForce: SteeringForce = { x: 0, y: 0 };
+    // Hunting styles change how fast the carnivore moves and what prey sees
+    let maxSpeed = speed;
+    let displayState: string = newState;
+    let sprinting = false;
 
     switch (newState) {
       case BehaviorState.EATING:
@@ -366,16 +631,29 @@ export class AdvancedCarnivoreAI implements AdvancedCreatureAI {
             const closestDistance = position.distanceTo(closest.position);
             return distance < closestDistance ? predator : closest;
           });
-          steeringForce = SteeringBehaviors.flee(position, closestPredator.position, speed * 1.5, this.currentVelocity);
+          steeringForce = SteeringBehaviors.flee(position, closestPredator.position, speed * this.profile.fleeSpeedMultiplier, this.currentVelocity);
         }
         break;
 
       case BehaviorState.HUNTING:
         // Single target hunting system - ONLY hunt live prey
         if (nearbyLivePrey.length > 0) {
-          // If no current target, choose the closest live prey
-          if (!this.currentTarget) {
-            this.currentTarget = nearbyLivePrey.reduce((closest, prey) => {
+          // Pack hunters go for the prey their leader picked
+          const packTarget = pack?.targetId
+            ? nearbyLivePrey.find(prey => prey.id === pack.targetId)
+            : undefined;
+          if (packTarget) {
+            this.currentTarget = packTarget;
+          } else if (this.hunting.style === "ambush") {
+            // Ambushers strike at whatever comes closest
+            this.currentTarget = preferredPrey.reduce((closest, prey) => {
+              const distance = position.distanceTo(prey.position);
+              const closestDistance = position.distanceTo(closest.position);
+              return distance < closestDistance ? prey : closest;
+            });
+          } else if (!this.currentTarget) {
+            // If no current target, choose the closest live prey
+            this.currentTarget = preferredPrey.reduce((closest, prey) => {
               const distance = position.distanceTo(prey.position);
               const closestDistance = position.distanceTo(closest.position);
               return distance < closestDistance ? prey : closest;
@@ -385,7 +663,7 @@ export class AdvancedCarnivoreAI implements AdvancedCreatureAI {
             const targetStillValid = nearbyLivePrey.some(prey => prey.id === this.currentTarget.id);
             if (!targetStillValid) {
               // Target is no longer valid, choose new live prey target
-              this.currentTarget = nearbyLivePrey.reduce((closest, prey) => {
+              this.currentTarget = preferredPrey.reduce((closest, prey) => {
                 const distance = position.distanceTo(prey.position);
                 const closestDistance = position.distanceTo(closest.position);
                 return distance < closestDistance ? prey : closest;
@@ -397,13 +675,49 @@ export class AdvancedCarnivoreAI implements AdvancedCreatureAI {
           if (this.currentTarget) {
             const distanceToTarget = position.distanceTo(this.currentTarget.position);
             
+            const isFar = distanceToTarget > HuntingRates.STRIKE_RANGE;
+            let lair: Position | null = null;
+            switch (this.hunting.style) {
+              case "stealth":
+                // Creep up unseen, pounce once close or spotted
+                if (isFar && this.currentTarget.behaviorState !== BehaviorState.FLEEING) {
+                  maxSpeed = speed * HuntingRates.STALK_SPEED;
+                  displayState = BehaviorState.STALKING;
+                } else {
+                  maxSpeed = speed * HuntingRates.POUNCE_SPEED;
+                }
+                break;
+              case "ambush":
+                // Lie in wait by food or a teleporter until prey comes close
+                lair = isFar ? this.findAmbushSpot(position, nearbyPlants, ambushSpots || []) : null;
+                if (lair) {
+                  displayState = BehaviorState.AMBUSHING;
+                } else {
+                  maxSpeed = speed * HuntingRates.POUNCE_SPEED;
+                }
+                break;
+              case "chase":
+              default:
+                // Run prey down while the breath lasts
+                sprinting = !this.winded;
+                maxSpeed = speed * (this.winded ? HuntingRates.WINDED_SPEED : HuntingRates.SPRINT_SPEED);
+                break;
+            }
+
             if (distanceToTarget <= 30) {
               // Close enough to attack - stand still
               steeringForce = { x: 0, y: 0 };
               this.currentVelocity = { x: 0, y: 0 };
+              sprinting = false;
+            } else if (lair) {
+              // Settle at the ambush spot and keep still
+              steeringForce = SteeringBehaviors.arrive(position, lair, maxSpeed, 25, this.currentVelocity);
+            } else if (pack && pack.flankOffset !== 0 && distanceToTarget > Math.abs(pack.flankOffset) * 2) {
+              // Flankers swing out to the prey's side before closing in
+              steeringForce = SteeringBehaviors.seek(position, this.getFlankPosition(position, this.currentTarget.position, pack.flankOffset), maxSpeed, this.currentVelocity);
             } else {
               // Move toward target
-              steeringForce = SteeringBehaviors.seek(position, this.currentTarget.position, speed, this.currentVelocity);
+              steeringForce = SteeringBehaviors.seek(position, this.currentTarget.position, maxSpeed, this.currentVelocity);
             }
           }
         } else {
@@ -414,15 +728,30 @@ export class AdvancedCarnivoreAI implements AdvancedCreatureAI {
 
       case BehaviorState.WANDERING:
       default:
-        // Random wandering movement
-        steeringForce = SteeringBehaviors.wander(this.currentVelocity, 50, 100, 10);
+        // Hungry carnivores go back to where they last saw prey, others roam
+        const rememberedPrey = hungerPercent >= MemoryRates.FORAGE_HUNGER && nearbyLivePrey.length === 0
+          ? MemoryBehaviors.recall(this.memory, this.memory.lastKnownPreyPositions, position)
+          : null;
+        steeringForce = rememberedPrey
+          ? SteeringBehaviors.arrive(position, rememberedPrey, speed, 25, this.currentVelocity)
+          : SteeringBehaviors.wander(this.rng, this.currentVelocity, this.profile.wanderRadius, this.profile.wanderDistance, 10);
+        steeringForce = this.addDangerForce(steeringForce, position, speed);
         // Clear target when wandering
         this.currentTarget = null;
         break;
     }
 
+    // Chasers tire while sprinting and get their breath back otherwise
+    if (sprinting) {
+      this.stamina = Math.max(0, this.stamina - deltaTime);
+      if (this.stamina === 0) this.winded = true;
+    } else {
+      this.stamina = Math.min(HuntingRates.STAMINA, this.stamina + HuntingRates.RECOVERY * deltaTime);
+      if (this.stamina === HuntingRates.STAMINA) this.winded = false;
+    }
+
     // Update velocity based on steering force
-    const maxForce = speed * 0.1;
+    const maxForce = maxSpeed * 0.1;
     const forceMagnitude = Math.sqrt(steeringForce.x * steeringForce.x + steeringForce.y * steeringForce.y);
     
     if (forceMagnitude > maxForce) {
@@ -434,6 +763,248 @@ export class AdvancedCarnivoreAI implements AdvancedCreatureAI {
     this.currentVelocity.x += steeringForce.x * deltaTime;
     this.currentVelocity.y += steeringForce.y * deltaTime;
 
+    // Limit velocity to speed
+    const velocityMagnitude = Math.sqrt(this.currentVelocity.x * this.currentVelocity.x + this.currentVelocity.y * this.currentVelocity.y);
+    if (velocityMagnitude > maxSpeed) {
+      this.currentVelocity.x = (this.currentVelocity.x / velocityMagnitude) * maxSpeed;
+      this.currentVelocity.y = (this.currentVelocity.y / velocityMagnitude) * maxSpeed;
+    }
+
+    // Update position
+    const newPosition = new Position(
+      position.x + this.currentVelocity.x * deltaTime,
+      position.y + this.currentVelocity.y * deltaTime
+    );
+
+    // Keep within bounds if provided
+    if (roomBounds) {
+      newPosition.x = Math.max(roomBounds.minX + 50, Math.min(roomBounds.maxX - 50, newPosition.x));
+      newPosition.y = Math.max(roomBounds.minY + 50, Math.min(roomBounds.maxY - 50, newPosition.y));
+    }
+
+    return { position: newPosition, state: displayState };
+  }
+
+  getPersonality(): PersonalityTraits | null {
+    return { ...this.personality };
+  }
+
+  rememberAttack(position: Position): void {
+    MemoryBehaviors.remember(this.memory, this.memory.lastKnownPredatorPositions, position);
+  }
+
+  getMemoryPoints(): MemoryPoint[] {
+    return MemoryBehaviors.toPoints(this.memory);
+  }
+
+  toSnapshot(): CreatureAISnapshot {
+    return {
+      creatureType: "carnivore",
+      species: this.species,
+      id: this.id,
+      velocity: { ...this.currentVelocity },
+      currentTargetId: this.currentTarget ? this.currentTarget.id : null,
+      stateMachine: this.stateMachine.toSnapshot(),
+      memory: BehaviorFactory.serializeMemory(this.memory),
+      personality: { ...this.personality },
+      stamina: { remaining: this.stamina, winded: this.winded },
+    };
+  }
+
+  restoreSnapshot(
+    snapshot: CreatureAISnapshot,
+    resolveEntity: (id: string) => IEntity | undefined
+  ): void {
+    this.species = snapshot.species;
+    this.id = snapshot.id;
+    this.currentVelocity = { ...snapshot.velocity };
+    this.currentTarget = snapshot.currentTargetId
+      ? resolveEntity(snapshot.currentTargetId) || null
+      : null;
+    if (snapshot.stateMachine) {
+      this.stateMachine.restoreSnapshot(snapshot.stateMachine);
+    }
+    if (snapshot.memory) {
+      this.memory = BehaviorFactory.deserializeMemory(snapshot.memory);
+    }
+    if (snapshot.personality) {
+      this.personality = { ...snapshot.personality };
+    }
+    if (snapshot.stamina) {
+      this.stamina = snapshot.stamina.remaining;
+      this.winded = snapshot.stamina.winded;
+    }
+  }
+
+  private getBiomeModifiers(biome: string): BiomeModifiers {
+    return BiomeRegistry.getModifiers(biome, EntityType.CARNIVORE);
+  }
+
+  // Keep clear of places where it was attacked or saw predators
+  private addDangerForce(force: SteeringForce, position: Position, speed: number): SteeringForce {
+    const avoid = MemoryBehaviors.avoidDanger(this.memory, position, speed);
+    return { x: force.x + avoid.x, y: force.y + avoid.y };
+  }
+
+  // Closest place to lie in wait - a plant prey comes to feed on or a
+  // teleporter it passes through
+  private findAmbushSpot(position: Position, plants: IEntity[], teleporters: Position[]): Position | null {
+    const spots: Position[] = [...plants.map(plant => plant.position), ...teleporters];
+    if (spots.length === 0) return null;
+    return spots.reduce((closest, spot) =>
+      position.distanceTo(spot) < position.distanceTo(closest) ? spot : closest
+    );
+  }
+
+  // Point beside the target, offset across the line from the hunter to it
+  private getFlankPosition(position: Position, target: Position, offset: number): Position {
+    const distance = position.distanceTo(target) || 1;
+    return new Position(
+      target.x - ((target.y - position.y) / distance) * offset,
+      target.y + ((target.x - position.x) / distance) * offset
+    );
+  }
+}
+
+// Decomposer AI - crawls to the nearest carcass and stays on it while feeding
+export class AdvancedDecomposerAI implements AdvancedCreatureAI {
+  private currentVelocity = { x: 0, y: 0 };
+  private stateMachine: BehaviorStateMachine;
+  private memory: CreatureMemory;
+  private personality: PersonalityTraits;
+  private currentTarget: IEntity | null = null; // Target carcass entity
+  private id: string;
+  private species: string;
+  private profile: AIProfile;
+  private rng: SeededRandom;
+
+  constructor(
+    definition: DecomposerSpecies,
+    rng: SeededRandom,
+    personality: PersonalityTraits | null = null
+  ) {
+    this.species = definition.id;
+    this.profile = definition.ai;
+    this.rng = rng;
+    this.id = rng.next().toString(36).substr(2, 9);
+    // Offspring inherit a personality, founders are born with a random one
+    this.personality = personality
+      ? { ...personality }
+      : BehaviorFactory.generatePersonality(rng);
+    this.stateMachine = new BehaviorStateMachine(
+      BehaviorFactory.createDecomposerBehaviors(),
+      BehaviorFactory.generateMemory(),
+      { ...this.personality }
+    );
+    this.memory = BehaviorFactory.generateMemory();
+  }
+
+  update(
+    deltaTime: number,
+    position: Position,
+    nearbyEntities: IEntity[],
+    roomBounds?: { minX: number; maxX: number; minY: number; maxY: number },
+    biome?: string,
+    hunger?: number,
+    maxHunger?: number,
+    creatureSpeed?: number,
+    health?: number,
+    maxHealth?: number,
+    energy?: number,
+    maxEnergy?: number,
+    isActiveTime?: boolean
+  ): { position: Position; state: string } {
+    MemoryBehaviors.advance(this.memory, deltaTime);
+
+    // Dead matter of any kind, fresh or decaying
+    const nearbyCarcasses = nearbyEntities.filter(e =>
+      (e.state === "dead" || e.state === "decaying") && e.weight > 0
+    );
+
+    // Check if close to a carcass
+    const isCloseToFood = nearbyCarcasses.some(carcass =>
+      position.distanceTo(carcass.position) <= 25
+    );
+
+    const context = {
+      hunger: hunger || 0,
+      maxHunger: maxHunger || 100,
+      health: health || 100,
+      maxHealth: maxHealth || 100,
+      energy: energy || 100,
+      maxEnergy: maxEnergy || 100,
+      nearbyPredators: 0, // Nothing hunts decomposers
+      nearbyFood: nearbyCarcasses.length,
+      isCloseToFood,
+      isActiveTime: isActiveTime ?? true, // Awake unless told otherwise
+    };
+
+    // Update state machine
+    const newState = this.stateMachine.update(deltaTime, context);
+
+    // Calculate movement based on state
+    const speed = (creatureSpeed || 30) * (this.getBiomeModifiers(biome || "forest").speedMultiplier);
+    let steeringForce: SteeringForce = { x: 0, y: 0 };
+
+    switch (newState) {
+      case BehaviorState.EATING:
+      case BehaviorState.RESTING:
+        // Complete stillness when feeding or resting
+        steeringForce = { x: 0, y: 0 };
+        this.currentVelocity = { x: 0, y: 0 };
+        break;
+
+      case BehaviorState.SCAVENGING:
+        // Move toward target carcass - stick to chosen target
+        if (nearbyCarcasses.length > 0) {
+          const current = this.currentTarget;
+          const target = current && nearbyCarcasses.some(carcass => carcass.id === current.id)
+            ? current
+            : nearbyCarcasses.reduce((closest, carcass) => {
+                const distance = position.distanceTo(carcass.position);
+                const closestDistance = position.distanceTo(closest.position);
+                return distance < closestDistance ? carcass : closest;
+              });
+          this.currentTarget = target;
+
+          const distanceToCarcass = position.distanceTo(target.position);
+
+          if (distanceToCarcass <= 25) {
+            // Close enough to feed - stand still
+            steeringForce = { x: 0, y: 0 };
+            this.currentVelocity = { x: 0, y: 0 };
+          } else {
+            steeringForce = SteeringBehaviors.arrive(position, target.position, speed, 25, this.currentVelocity);
+          }
+        } else {
+          // No carcasses nearby, clear target
+          this.currentTarget = null;
+        }
+        break;
+
+      case BehaviorState.WANDERING:
+      default:
+        // Slow random crawling
+        steeringForce = SteeringBehaviors.wander(this.rng, this.currentVelocity, this.profile.wanderRadius, this.profile.wanderDistance, 10);
+        steeringForce = this.addDangerForce(steeringForce, position, speed);
+        // Clear target when wandering
+        this.currentTarget = null;
+        break;
+    }
+
+    // Update velocity based on steering force
+    const maxForce = speed * 0.1;
+    const forceMagnitude = Math.sqrt(steeringForce.x * steeringForce.x + steeringForce.y * steeringForce.y);
+
+    if (forceMagnitude > maxForce) {
+      steeringForce.x = (steeringForce.x / forceMagnitude) * maxForce;
+      steeringForce.y = (steeringForce.y / forceMagnitude) * maxForce;
+    }
+
+    // Apply steering force to velocity
+    this.currentVelocity.x += steeringForce.x * deltaTime;
+    this.currentVelocity.y += steeringForce.y * deltaTime;
+
     // Limit velocity to speed
     const velocityMagnitude = Math.sqrt(this.currentVelocity.x * this.currentVelocity.x + this.currentVelocity.y * this.currentVelocity.y);
     if (velocityMagnitude > speed) {
@@ -456,40 +1027,105 @@ export class AdvancedCarnivoreAI implements AdvancedCreatureAI {
     return { position: newPosition, state: newState };
   }
 
-  private getBiomeModifiers(biome: string): BiomeModifiers {
-    switch (biome) {
-      case "forest":
-        return { speedMultiplier: 1.0, aggressionMultiplier: 1.0, reproductionRate: 1.0, foodEfficiency: 1.0, energyEfficiency: 1.0 };
-      case "desert":
-        return { speedMultiplier: 1.2, aggressionMultiplier: 1.1, reproductionRate: 0.8, foodEfficiency: 0.9, energyEfficiency: 0.8 };
-      case "arctic":
-        return { speedMultiplier: 0.8, aggressionMultiplier: 0.9, reproductionRate: 0.7, foodEfficiency: 1.1, energyEfficiency: 1.2 };
-      case "swamp":
-        return { speedMultiplier: 0.9, aggressionMultiplier: 1.0, reproductionRate: 1.1, foodEfficiency: 1.0, energyEfficiency: 0.9 };
-      case "cave":
-        return { speedMultiplier: 0.7, aggressionMultiplier: 1.2, reproductionRate: 0.9, foodEfficiency: 0.8, energyEfficiency: 1.1 };
-      case "volcanic":
-        return { speedMultiplier: 1.1, aggressionMultiplier: 1.3, reproductionRate: 0.6, foodEfficiency: 0.7, energyEfficiency: 0.8 };
-      case "laboratory":
-        return { speedMultiplier: 1.0, aggressionMultiplier: 1.0, reproductionRate: 1.0, foodEfficiency: 1.0, energyEfficiency: 1.0 };
-      default:
-        return { speedMultiplier: 1.0, aggressionMultiplier: 1.0, reproductionRate: 1.0, foodEfficiency: 1.0, energyEfficiency: 1.0 };
+  getPersonality(): PersonalityTraits | null {
+    return { ...this.personality };
+  }
+
+  rememberAttack(position: Position): void {
+    MemoryBehaviors.remember(this.memory, this.memory.lastKnownPredatorPositions, position);
+  }
+
+  getMemoryPoints(): MemoryPoint[] {
+    return MemoryBehaviors.toPoints(this.memory);
+  }
+
+  toSnapshot(): CreatureAISnapshot {
+    return {
+      creatureType: "decomposer",
+      species: this.species,
+      id: this.id,
+      velocity: { ...this.currentVelocity },
+      currentTargetId: this.currentTarget ? this.currentTarget.id : null,
+      stateMachine: this.stateMachine.toSnapshot(),
+      memory: BehaviorFactory.serializeMemory(this.memory),
+      personality: { ...this.personality },
+    };
+  }
+
+  restoreSnapshot(
+    snapshot: CreatureAISnapshot,
+    resolveEntity: (id: string) => IEntity | undefined
+  ): void {
+    this.species = snapshot.species;
+    this.id = snapshot.id;
+    this.currentVelocity = { ...snapshot.velocity };
+    this.currentTarget = snapshot.currentTargetId
+      ? resolveEntity(snapshot.currentTargetId) || null
+      : null;
+    if (snapshot.stateMachine) {
+      this.stateMachine.restoreSnapshot(snapshot.stateMachine);
+    }
+    if (snapshot.memory) {
+      this.memory = BehaviorFactory.deserializeMemory(snapshot.memory);
+    }
+    if (snapshot.personality) {
+      this.personality = { ...snapshot.personality };
     }
   }
+
+  private getBiomeModifiers(biome: string): BiomeModifiers {
+    return BiomeRegistry.getModifiers(biome, EntityType.DECOMPOSER);
+  }
+
+  // Keep clear of places where it was attacked or saw predators
+  private addDangerForce(force: SteeringForce, position: Position, speed: number): SteeringForce {
+    const avoid = MemoryBehaviors.avoidDanger(this.memory, position, speed);
+    return { x: force.x + avoid.x, y: force.y + avoid.y };
+  }
 }
 
 // AI Factory
 export class AdvancedCreatureAIFactory {
-  static createAI(creatureType: string, species: string): AdvancedCreatureAI {
+  static createAI(
+    creatureType: string,
+    species: string,
+    rng: SeededRandom,
+    personality: PersonalityTraits | null = null
+  ): AdvancedCreatureAI {
     switch (creatureType) {
       case "plant":
         return new AdvancedPlantAI();
       case "herbivore":
-        return new AdvancedHerbivoreAI(species);
+        return new AdvancedHerbivoreAI(
+          SpeciesRegistry.getHerbivore(species),
+          rng,
+          personality
+        );
       case "carnivore":
-        return new AdvancedCarnivoreAI(species);
+        return new AdvancedCarnivoreAI(
+          SpeciesRegistry.getCarnivore(species),
+          rng,
+          personality
+        );
+      case "decomposer":
+        return new AdvancedDecomposerAI(
+          SpeciesRegistry.getDecomposer(species),
+          rng,
+          personality
+        );
       default:
         throw new Error(`Unknown creature type: ${creatureType}`);
     }
   }
+
+  // Recreate an AI instance from a save game snapshot
+  static fromSnapshot(
+    snapshot: CreatureAISnapshot,
+    rng: SeededRandom,
+    resolveEntity: (id: string) => IEntity | undefined
+  ): AdvancedCreatureAI {
+    const ai = this.createAI(snapshot.creatureType, snapshot.species, rng);
+    ai.restoreSnapshot(snapshot, resolveEntity);
+    return ai;
+  }
 }
@@ -1,4 +1,10 @@
-import { Position } from "../types/gameTypes";
+import {
+  MemoryKind,
+  MemoryPoint,
+  PersonalityTraits,
+  Position,
+} from "../types/gameTypes";
+import { SeededRandom } from "../utils/SeededRandom";
 
 // Simplified steering force interface
 export interface SteeringForce {
@@ -58,6 +64,7 @@ export class SteeringBehaviors {
   }
 
   static wander(
+    rng: SeededRandom,
     currentVelocity: { x: number; y: number },
     wanderRadius: number = 50,
     wanderDistance: number = 100,
@@ -77,8 +84,8 @@ export class SteeringBehaviors {
 
     // Add random displacement
     const displacement = {
-      x: (Math.random() - 0.5) * 2 * wanderJitter,
-      y: (Math.random() - 0.5) * 2 * wanderJitter,
+      x: (rng.next() - 0.5) * 2 * wanderJitter,
+      y: (rng.next() - 0.5) * 2 * wanderJitter,
     };
 
     // Move the circle center by the displacement
@@ -129,6 +136,69 @@ export class SteeringBehaviors {
       y: desiredVelocity.y - currentVelocity.y,
     };
   }
+
+  // Steer towards the center of a group of neighbors, the harder the
+  // further it is up to radius away
+  static cohesion(
+    position: Position,
+    neighbors: Position[],
+    radius: number,
+    maxSpeed: number
+  ): SteeringForce {
+    if (neighbors.length === 0) return { x: 0, y: 0 };
+
+    const center = new Position(
+      neighbors.reduce((sum, neighbor) => sum + neighbor.x, 0) / neighbors.length,
+      neighbors.reduce((sum, neighbor) => sum + neighbor.y, 0) / neighbors.length
+    );
+    const distance = position.distanceTo(center);
+    if (distance === 0) return { x: 0, y: 0 };
+
+    const pull = Math.min(1, distance / radius) * maxSpeed;
+    return {
+      x: ((center.x - position.x) / distance) * pull,
+      y: ((center.y - position.y) / distance) * pull,
+    };
+  }
+
+  // Steer to move the same way as a group of neighbors
+  static alignment(
+    neighborVelocities: { x: number; y: number }[],
+    maxSpeed: number,
+    currentVelocity: { x: number; y: number } = { x: 0, y: 0 }
+  ): SteeringForce {
+    const heading = neighborVelocities.reduce(
+      (sum, velocity) => ({ x: sum.x + velocity.x, y: sum.y + velocity.y }),
+      { x: 0, y: 0 }
+    );
+
+    const length = Math.sqrt(heading.x * heading.x + heading.y * heading.y);
+    if (length === 0) return { x: 0, y: 0 };
+
+    return {
+      x: (heading.x / length) * maxSpeed - currentVelocity.x,
+      y: (heading.y / length) * maxSpeed - currentVelocity.y,
+    };
+  }
+
+  // Steer away from neighbors closer than radius, the harder the closer
+  static separation(
+    position: Position,
+    neighbors: Position[],
+    radius: number,
+    maxSpeed: number
+  ): SteeringForce {
+    const force = { x: 0, y: 0 };
+    neighbors.forEach((neighbor) => {
+      const distance = position.distanceTo(neighbor);
+      if (distance === 0 || distance >= radius) return;
+
+      const push = (1 - distance / radius) * maxSpeed;
+      force.x += ((position.x - neighbor.x) / distance) * push;
+      force.y += ((position.y - neighbor.y) / distance) * push;
+    });
+    return force;
+  }
 }
 
 // Simplified behavior states - only the essential ones
@@ -139,6 +209,10 @@ export enum BehaviorState {
   HUNTING = "hunting",
   FLEEING = "fleeing",
   RESTING = "resting",
+  SCAVENGING = "scavenging",
+  // Shown while hunting unseen - the state machine itself stays HUNTING
+  STALKING = "stalking",
+  AMBUSHING = "ambushing",
 }
 
 // Simplified state configuration
@@ -156,17 +230,10 @@ export interface BehaviorStateConfig {
     nearbyPrey?: number; // Minimum prey required (for carnivores)
     isCloseToFood?: boolean; // Must be close to food
     isCloseToPrey?: boolean; // Must be close to prey (for carnivores)
+    isActiveTime?: boolean; // Must be (or not be) the species' waking hours
   };
 }
 
-// Simplified personality traits
-export interface PersonalityTraits {
-  boldness: number; // 0-1: How willing to take risks
-  sociability: number; // 0-1: How social
-  aggression: number; // 0-1: How aggressive
-  energy: number; // 0-1: How energetic
-}
-
 // Simplified memory system
 export interface CreatureMemory {
   lastKnownFoodPositions: { position: Position; timestamp: number }[];
@@ -175,6 +242,162 @@ export interface CreatureMemory {
   lastUpdateTime: number;
 }
 
+type MemoryEntry = { position: Position; timestamp: number };
+
+export const MemoryRates = {
+  FOOD_SPAN: 120, // Seconds a food patch is remembered
+  PREY_SPAN: 60, // Seconds a prey sighting is remembered
+  DANGER_SPAN: 45, // Seconds a predator sighting or attack is remembered
+  MERGE_RADIUS: 60, // Sightings closer than this to a memory refresh it
+  MAX_ENTRIES: 8, // Places remembered of each kind, freshest kept
+  SIGHT_RANGE: 300, // Remembered food closer than this is seen to be gone
+  FORAGE_HUNGER: 0.4, // Hunger fraction at which remembered food is sought
+  AVOID_RADIUS: 150, // Pixels kept clear of remembered danger
+} as const;
+
+// Reading and writing a creature's memory. Sightings are stamped with the
+// memory's own clock, which runs while the creature's AI does, and fade
+// away after the span of their kind.
+export class MemoryBehaviors {
+  // Let time pass and forget what has faded
+  static advance(memory: CreatureMemory, deltaTime: number): void {
+    memory.lastUpdateTime += deltaTime;
+    const now = memory.lastUpdateTime;
+    const isFresh = (span: number) => (entry: MemoryEntry) =>
+      now - entry.timestamp < span;
+
+    memory.lastKnownFoodPositions = memory.lastKnownFoodPositions.filter(
+      isFresh(MemoryRates.FOOD_SPAN)
+    );
+    memory.lastKnownPreyPositions = memory.lastKnownPreyPositions.filter(
+      isFresh(MemoryRates.PREY_SPAN)
+    );
+    memory.lastKnownPredatorPositions =
+      memory.lastKnownPredatorPositions.filter(
+        isFresh(MemoryRates.DANGER_SPAN)
+      );
+  }
+
+  // Note a sighting, refreshing the memory of the same place if there is one
+  static remember(
+    memory: CreatureMemory,
+    entries: MemoryEntry[],
+    position: Position
+  ): void {
+    const known = entries.find(
+      (entry) => entry.position.distanceTo(position) <= MemoryRates.MERGE_RADIUS
+    );
+    if (known) {
+      known.timestamp = memory.lastUpdateTime;
+      return;
+    }
+
+    entries.push({
+      position: position.clone(),
+      timestamp: memory.lastUpdateTime,
+    });
+    if (entries.length > MemoryRates.MAX_ENTRIES) {
+      const oldest = entries.reduce((oldest, entry) =>
+        entry.timestamp < oldest.timestamp ? entry : oldest
+      );
+      entries.splice(entries.indexOf(oldest), 1);
+    }
+  }
+
+  // Drop memories within radius of a position
+  static forgetAround(
+    entries: MemoryEntry[],
+    position: Position,
+    radius: number
+  ): MemoryEntry[] {
+    return entries.filter(
+      (entry) => entry.position.distanceTo(position) > radius
+    );
+  }
+
+  // Closest remembered place away from remembered danger, if any
+  static recall(
+    memory: CreatureMemory,
+    entries: MemoryEntry[],
+    position: Position
+  ): Position | null {
+    const safe = entries.filter(
+      (entry) => !MemoryBehaviors.isDangerous(memory, entry.position)
+    );
+    if (safe.length === 0) return null;
+    return safe.reduce((closest, entry) =>
+      entry.position.distanceTo(position) <
+      closest.position.distanceTo(position)
+        ? entry
+        : closest
+    ).position;
+  }
+
+  // Whether a place is close to where the creature met danger
+  static isDangerous(memory: CreatureMemory, position: Position): boolean {
+    return memory.lastKnownPredatorPositions.some(
+      (entry) =>
+        entry.position.distanceTo(position) <= MemoryRates.AVOID_RADIUS
+    );
+  }
+
+  // Push away from remembered danger
+  static avoidDanger(
+    memory: CreatureMemory,
+    position: Position,
+    maxSpeed: number
+  ): SteeringForce {
+    return SteeringBehaviors.separation(
+      position,
+      memory.lastKnownPredatorPositions.map((entry) => entry.position),
+      MemoryRates.AVOID_RADIUS,
+      maxSpeed
+    );
+  }
+
+  // Everything remembered, with how fresh it still is
+  static toPoints(memory: CreatureMemory): MemoryPoint[] {
+    const now = memory.lastUpdateTime;
+    const toPoints =
+      (kind: MemoryPoint["kind"], span: number) => (entry: MemoryEntry) => ({
+        kind,
+        x: Math.round(entry.position.x),
+        y: Math.round(entry.position.y),
+        // Rounded so the point only changes now and then
+        strength: Math.round((1 - (now - entry.timestamp) / span) * 10) / 10,
+      });
+
+    return [
+      ...memory.lastKnownFoodPositions.map(
+        toPoints(MemoryKind.FOOD, MemoryRates.FOOD_SPAN)
+      ),
+      ...memory.lastKnownPreyPositions.map(
+        toPoints(MemoryKind.PREY, MemoryRates.PREY_SPAN)
+      ),
+      ...memory.lastKnownPredatorPositions.map(
+        toPoints(MemoryKind.DANGER, MemoryRates.DANGER_SPAN)
+      ),
+    ];
+  }
+}
+
+// Plain-data form of CreatureMemory for save games
+export interface CreatureMemorySnapshot {
+  lastKnownFoodPositions: { position: { x: number; y: number }; timestamp: number }[];
+  lastKnownPredatorPositions: { position: { x: number; y: number }; timestamp: number }[];
+  lastKnownPreyPositions: { position: { x: number; y: number }; timestamp: number }[];
+  lastUpdateTime: number;
+}
+
+// Plain-data form of a BehaviorStateMachine for save games
+export interface BehaviorStateMachineSnapshot {
+  currentState: BehaviorState;
+  stateTimer: number;
+  memory: CreatureMemorySnapshot;
+  personality: PersonalityTraits;
+  currentTarget: { x: number; y: number } | null;
+}
+
 // Simplified behavior state machine
 export class BehaviorStateMachine {
   private currentState: BehaviorState = BehaviorState.WANDERING;
@@ -208,6 +431,7 @@ export class BehaviorStateMachine {
       nearbyPrey?: number;
       isCloseToFood?: boolean;
       isCloseToPrey?: boolean;
+      isActiveTime?: boolean;
     }
   ): BehaviorState {
     // Update state timer
@@ -221,7 +445,7 @@ export class BehaviorStateMachine {
     }
 
     // Check if current state conditions are still met
-    const currentConfig = this.states.find(s => s.state === this.currentState);
+    const currentConfig = this.getCurrentConfig(context);
     if (currentConfig && this.stateTimer >= currentConfig.duration.min) {
       if (!this.shouldStayInState(currentConfig, context)) {
         // Find a better state to transition to
@@ -323,9 +547,23 @@ export class BehaviorStateMachine {
       }
     }
 
+    // Check waking hours
+    if (stateConfig.conditions.isActiveTime !== undefined) {
+      if ((context.isActiveTime ?? true) !== stateConfig.conditions.isActiveTime) {
+        return false;
+      }
+    }
+
     return true;
   }
 
+  // A state may have several configs, e.g. resting when tired and sleeping
+  // outside waking hours - use the one that currently applies
+  private getCurrentConfig(context: any): BehaviorStateConfig | undefined {
+    const configs = this.states.filter(s => s.state === this.currentState);
+    return configs.find(config => this.shouldStayInState(config, context)) || configs[0];
+  }
+
   private findBestState(context: any): BehaviorState {
     // Sort states by priority (highest first)
     const sortedStates = [...this.states].sort((a, b) => b.priority - a.priority);
@@ -342,7 +580,6 @@ export class BehaviorStateMachine {
 
   private transitionToState(newState: BehaviorState): void {
     if (newState !== this.currentState) {
-      console.log(`State transition: ${this.currentState} -> ${newState}`);
       this.currentState = newState;
       this.stateTimer = 0;
     }
@@ -363,6 +600,28 @@ export class BehaviorStateMachine {
   getTarget(): Position | null {
     return this.currentTarget;
   }
+
+  toSnapshot(): BehaviorStateMachineSnapshot {
+    return {
+      currentState: this.currentState,
+      stateTimer: this.stateTimer,
+      memory: BehaviorFactory.serializeMemory(this.memory),
+      personality: { ...this.personality },
+      currentTarget: this.currentTarget
+        ? { x: this.currentTarget.x, y: this.currentTarget.y }
+        : null,
+    };
+  }
+
+  restoreSnapshot(snapshot: BehaviorStateMachineSnapshot): void {
+    this.currentState = snapshot.currentState;
+    this.stateTimer = snapshot.stateTimer;
+    this.memory = BehaviorFactory.deserializeMemory(snapshot.memory);
+    this.personality = { ...snapshot.personality };
+    this.currentTarget = snapshot.currentTarget
+      ? new Position(snapshot.currentTarget.x, snapshot.currentTarget.y)
+      : null;
+  }
 }
 
 // Simplified behavior factory
@@ -378,6 +637,16 @@ export class BehaviorFactory {
           nearbyPredators: 1, // At least 1 predator nearby
         },
       },
+      {
+        state: BehaviorState.RESTING,
+        priority: 9, // Sleep through everything but predators and hunger
+        duration: { min: 5, max: 20 },
+        energyCost: -5, // Regain energy slowly while asleep
+        conditions: {
+          isActiveTime: false, // Outside the species' waking hours
+          hunger: { min: 0, max: 0.8 }, // Only real hunger keeps it awake
+        },
+      },
       {
         state: BehaviorState.RESTING,
         priority: 8,
@@ -432,6 +701,16 @@ export class BehaviorFactory {
           nearbyPredators: 1, // At least 1 predator nearby
         },
       },
+      {
+        state: BehaviorState.RESTING,
+        priority: 9, // Sleep through everything but predators and hunger
+        duration: { min: 5, max: 20 },
+        energyCost: -5, // Regain energy slowly while asleep
+        conditions: {
+          isActiveTime: false, // Outside the species' waking hours
+          hunger: { min: 0, max: 0.8 }, // Only real hunger keeps it awake
+        },
+      },
       {
         state: BehaviorState.RESTING,
         priority: 8,
@@ -475,12 +754,67 @@ export class BehaviorFactory {
     ];
   }
 
-  static generatePersonality(): PersonalityTraits {
+  static createDecomposerBehaviors(): BehaviorStateConfig[] {
+    return [
+      {
+        state: BehaviorState.RESTING,
+        priority: 9, // Sleep through everything but predators and hunger
+        duration: { min: 5, max: 20 },
+        energyCost: -5, // Regain energy slowly while asleep
+        conditions: {
+          isActiveTime: false, // Outside the species' waking hours
+          hunger: { min: 0, max: 0.8 }, // Only real hunger keeps it awake
+        },
+      },
+      {
+        state: BehaviorState.RESTING,
+        priority: 8,
+        duration: { min: 3, max: 10 },
+        energyCost: -10, // Regain energy
+        conditions: {
+          energy: { min: 0, max: 0.3 }, // Low energy
+        },
+      },
+      {
+        state: BehaviorState.EATING,
+        priority: 7,
+        duration: { min: 1, max: 20 }, // Decomposers feed for a long time
+        energyCost: 1,
+        conditions: {
+          hunger: { min: 0.1, max: 1.0 }, // Almost always ready to feed
+          nearbyFood: 1, // Carcass nearby
+          isCloseToFood: true, // Must be on the carcass
+        },
+      },
+      {
+        state: BehaviorState.SCAVENGING,
+        priority: 6,
+        duration: { min: 1, max: 20 },
+        energyCost: 3,
+        conditions: {
+          hunger: { min: 0.2, max: 1.0 }, // Start seeking carcasses at 20% hunger
+          nearbyFood: 1, // Carcass nearby
+          isCloseToFood: false, // Only seek when NOT on a carcass (prevents flickering)
+        },
+      },
+      {
+        state: BehaviorState.WANDERING,
+        priority: 1, // Lowest priority
+        duration: { min: 2, max: 10 },
+        energyCost: 2,
+        conditions: {
+          energy: { min: 0.2, max: 1.0 }, // Not too tired
+        },
+      },
+    ];
+  }
+
+  static generatePersonality(rng: SeededRandom): PersonalityTraits {
     return {
-      boldness: Math.random(),
-      sociability: Math.random(),
-      aggression: Math.random(),
-      energy: Math.random(),
+      boldness: rng.next(),
+      sociability: rng.next(),
+      aggression: rng.next(),
+      energy: rng.next(),
     };
   }
 
@@ -489,7 +823,49 @@ export class BehaviorFactory {
       lastKnownFoodPositions: [],
       lastKnownPredatorPositions: [],
       lastKnownPreyPositions: [],
-      lastUpdateTime: Date.now(),
+      lastUpdateTime: 0, // Seconds the creature has been remembering
+    };
+  }
+
+  static serializeMemory(memory: CreatureMemory): CreatureMemorySnapshot {
+    const serializeEntries = (
+      entries: { position: Position; timestamp: number }[]
+    ) =>
+      entries.map((entry) => ({
+        position: { x: entry.position.x, y: entry.position.y },
+        timestamp: entry.timestamp,
+      }));
+
+    return {
+      lastKnownFoodPositions: serializeEntries(memory.lastKnownFoodPositions),
+      lastKnownPredatorPositions: serializeEntries(
+        memory.lastKnownPredatorPositions
+      ),
+      lastKnownPreyPositions: serializeEntries(memory.lastKnownPreyPositions),
+      lastUpdateTime: memory.lastUpdateTime,
+    };
+  }
+
+  static deserializeMemory(snapshot: CreatureMemorySnapshot): CreatureMemory {
+    const deserializeEntries = (
+      entries: { position: { x: number; y: number }; timestamp: number }[]
+    ) =>
+      entries.map((entry) => ({
+        position: new Position(entry.position.x, entry.position.y),
+        timestamp: entry.timestamp,
+      }));
+
+    return {
+      lastKnownFoodPositions: deserializeEntries(
+        snapshot.lastKnownFoodPositions
+      ),
+      lastKnownPredatorPositions: deserializeEntries(
+        snapshot.lastKnownPredatorPositions
+      ),
+      lastKnownPreyPositions: deserializeEntries(
+        snapshot.lastKnownPreyPositions
+      ),
+      lastUpdateTime: snapshot.lastUpdateTime,
     };
   }
 }
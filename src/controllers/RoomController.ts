@@ -4,163 +4,32 @@ import {
   Plant,
   Herbivore,
   Carnivore,
+  Decomposer,
   Position,
-  EcosystemHealth,
 } from "../types/gameTypes";
+import { SeededRandom } from "../utils/SeededRandom";
+import {
+  BiomeDefinition,
+  RoomDifficulty,
+  RoomDifficultyValue,
+} from "../types/biomeTypes";
+import { BiomeRegistry } from "../biomes/BiomeRegistry";
+import { FactionModel } from "../simulation/FactionModel";
 
-// Room difficulty levels
-export const RoomDifficulty = {
-  EASY: "easy",
-  MEDIUM: "medium",
-  HARD: "hard",
-} as const;
-
-export type RoomDifficultyValue =
-  (typeof RoomDifficulty)[keyof typeof RoomDifficulty];
-
-// Room configuration interface
-export interface RoomConfig {
-  id: string;
-  name: string;
-  difficulty: RoomDifficultyValue;
-  biome: string;
-  description: string;
-  roomSize: {
-    width: number;
-    height: number;
-  };
-  creatureTypes: {
-    plants: string[];
-    herbivores: string[];
-    carnivores: string[];
-  };
-  ecosystemSettings: {
-    initialHealth: (typeof EcosystemHealth)[keyof typeof EcosystemHealth];
-    growthRate: number;
-    reproductionRate: number;
-    hostilityLevel: number; // 0-10 scale
-  };
-  factionSettings: {
-    hasFactions: boolean;
-    factionCount: number;
-    hostilityLevel: number; // 0-10 scale
-  };
-}
+// Room sizes are drawn in steps of this many pixels
+const ROOM_SIZE_STEP = 100;
 
 export class RoomController {
-  private roomConfigs: Map<string, RoomConfig> = new Map();
   private activeRooms: Map<string, Room> = new Map();
 
-  constructor() {
-    this.initializeRoomConfigs();
-  }
-
-  // Initialize room configurations for different biomes
-  private initializeRoomConfigs(): void {
-    // Forest rooms (Easy) - Starting zone - Small size
-    const forestConfig: RoomConfig = {
-      id: "forest",
-      name: "Ancient Forest",
-      difficulty: RoomDifficulty.EASY,
-      biome: "forest",
-      description:
-        "A peaceful forest with gentle creatures and a balanced ecosystem.",
-      roomSize: {
-        width: 800, // Small rooms - 1.6x grid size
-        height: 600,
-      },
-      creatureTypes: {
-        plants: ["moss", "fern", "mushroom", "flower"],
-        herbivores: ["rabbit", "deer", "mouse", "turtle"],
-        carnivores: ["rat", "wolf", "snake"],
-      },
-      ecosystemSettings: {
-        initialHealth: EcosystemHealth.GOOD,
-        growthRate: 1.0,
-        reproductionRate: 1.0,
-        hostilityLevel: 2, // Very low hostility
-      },
-      factionSettings: {
-        hasFactions: false,
-        factionCount: 0,
-        hostilityLevel: 1,
-      },
-    };
-
-    // Desert rooms (Medium) - Second zone - Medium size
-    const desertConfig: RoomConfig = {
-      id: "desert",
-      name: "Scorched Wasteland",
-      difficulty: RoomDifficulty.MEDIUM,
-      biome: "desert",
-      description:
-        "A harsh desert environment with resilient creatures and scarce resources.",
-      roomSize: {
-        width: 1200, // Medium rooms - 2.4x grid size
-        height: 800,
-      },
-      creatureTypes: {
-        plants: ["cactus", "desert_flower", "dry_grass"],
-        herbivores: ["deer", "mouse", "turtle"], // Use existing species with different speeds
-        carnivores: ["wolf", "snake", "rat"], // Use existing species with different speeds
-      },
-      ecosystemSettings: {
-        initialHealth: EcosystemHealth.FAIR,
-        growthRate: 0.7,
-        reproductionRate: 0.8,
-        hostilityLevel: 5, // Medium hostility
-      },
-      factionSettings: {
-        hasFactions: true,
-        factionCount: 2,
-        hostilityLevel: 5,
-      },
-    };
-
-    // Laboratory rooms (Hard) - Third zone - Large size
-    const laboratoryConfig: RoomConfig = {
-      id: "laboratory",
-      name: "Abandoned Laboratory",
-      difficulty: RoomDifficulty.HARD,
-      biome: "laboratory",
-      description:
-        "A dangerous lab with mutated creatures and unstable ecosystems.",
-      roomSize: {
-        width: 1600, // Large rooms - 3.2x grid size
-        height: 1200,
-      },
-      creatureTypes: {
-        plants: ["mutated_moss", "glowing_fungus", "toxic_plant"],
-        herbivores: ["mouse", "turtle"], // Fast and tough creatures
-        carnivores: ["wolf", "bear"], // Powerful pack hunters
-      },
-      ecosystemSettings: {
-        initialHealth: EcosystemHealth.CRITICAL,
-        growthRate: 1.8, // Very fast but very unstable
-        reproductionRate: 1.5,
-        hostilityLevel: 10, // Maximum hostility
-      },
-      factionSettings: {
-        hasFactions: true,
-        factionCount: 5,
-        hostilityLevel: 10,
-      },
-    };
-
-    // Store only the 3 progressive zone configurations
-    this.roomConfigs.set("forest", forestConfig);
-    this.roomConfigs.set("desert", desertConfig);
-    this.roomConfigs.set("laboratory", laboratoryConfig);
-  }
-
   // Get room configuration by biome
-  public getRoomConfig(biome: string): RoomConfig | undefined {
-    return this.roomConfigs.get(biome);
+  public getRoomConfig(biome: string): BiomeDefinition | undefined {
+    return BiomeRegistry.get(biome);
   }
 
-  // Get all room configurations
-  public getAllRoomConfigs(): RoomConfig[] {
-    return Array.from(this.roomConfigs.values());
+  // Get all room configurations, in zone order
+  public getAllRoomConfigs(): BiomeDefinition[] {
+    return BiomeRegistry.getZones();
   }
 
   // Register a room with the controller
@@ -179,13 +48,14 @@ export class RoomController {
   }
 
   // Populate a room with zone-specific creatures
-  public populateRoom(room: Room): void {
+  public populateRoom(room: Room, rng: SeededRandom): void {
     const config = this.getRoomConfig(room.biome);
     if (!config) {
       console.warn(`No configuration found for biome: ${room.biome}`);
       return;
     }
 
+    const species = BiomeRegistry.getSpeciesPools(room.biome);
     const entities: IEntity[] = [];
 
     // Helper function to get distributed position within room bounds
@@ -207,8 +77,8 @@ export class RoomController {
       let x, y;
 
       do {
-        x = room.x + padding + Math.random() * availableWidth;
-        y = room.y + padding + Math.random() * availableHeight;
+        x = room.x + padding + rng.next() * availableWidth;
+        y = room.y + padding + rng.next() * availableHeight;
         attempts++;
 
         // Check if this position is too close to existing entities
@@ -231,21 +101,20 @@ export class RoomController {
     };
 
     // Calculate total entities for proper distribution
-    const plantCount = 5 + Math.floor(Math.random() * 10);
-    const herbivoreCount = 3 + Math.floor(Math.random() * 5);
+    const plantCount = 5 + rng.int(10);
+    const herbivoreCount = 3 + rng.int(5);
     const carnivoreCount = Math.max(
       1,
       Math.floor(config.ecosystemSettings.hostilityLevel / 2)
     );
-    const totalEntities = plantCount + herbivoreCount + carnivoreCount;
+    const decomposerCount = 2 + rng.int(3);
+    const totalEntities =
+      plantCount + herbivoreCount + carnivoreCount + decomposerCount;
 
     // Add plants based on biome
     let entityIndex = 0;
     for (let i = 0; i < plantCount; i++) {
-      const plantType =
-        config.creatureTypes.plants[
-          Math.floor(Math.random() * config.creatureTypes.plants.length)
-        ];
+      const plantType = rng.pick(species.plants);
       const plant = new Plant(
         `plant_${room.id}_${i}`,
         getDistributedPosition(entityIndex, totalEntities, "plant"),
@@ -258,10 +127,7 @@ export class RoomController {
 
     // Add herbivores based on biome and difficulty
     for (let i = 0; i < herbivoreCount; i++) {
-      const herbivoreType =
-        config.creatureTypes.herbivores[
-          Math.floor(Math.random() * config.creatureTypes.herbivores.length)
-        ];
+      const herbivoreType = rng.pick(species.herbivores);
       const herbivore = new Herbivore(
         `herbivore_${room.id}_${i}`,
         getDistributedPosition(entityIndex, totalEntities, "herbivore"),
@@ -274,10 +140,7 @@ export class RoomController {
 
     // Add carnivores based on hostility level
     for (let i = 0; i < carnivoreCount; i++) {
-      const carnivoreType =
-        config.creatureTypes.carnivores[
-          Math.floor(Math.random() * config.creatureTypes.carnivores.length)
-        ];
+      const carnivoreType = rng.pick(species.carnivores);
       const carnivore = new Carnivore(
         `carnivore_${room.id}_${i}`,
         getDistributedPosition(entityIndex, totalEntities, "carnivore"),
@@ -288,6 +151,26 @@ export class RoomController {
       entityIndex++;
     }
 
+    // Add decomposers to clean up after the rest
+    for (let i = 0; i < decomposerCount; i++) {
+      const decomposerType = rng.pick(species.decomposers);
+      const decomposer = new Decomposer(
+        `decomposer_${room.id}_${i}`,
+        getDistributedPosition(entityIndex, totalEntities, "decomposer"),
+        decomposerType,
+        room.id
+      );
+      entities.push(decomposer);
+      entityIndex++;
+    }
+
+    // Creatures side with the faction whose territory they start closest to
+    entities.forEach((entity) => {
+      if (FactionModel.isMember(entity)) {
+        FactionModel.join(room, entity);
+      }
+    });
+
     room.entities = entities;
   }
 
@@ -338,33 +221,32 @@ export class RoomController {
     return config?.name || "Unknown Room";
   }
 
-  // Get room size configuration
-  public getRoomSize(biome: string): { width: number; height: number } {
-    const config = this.getRoomConfig(biome);
-    return config?.roomSize || { width: 500, height: 500 };
+  // Pick a room size within the biome's range
+  public getRoomSize(
+    biome: string,
+    rng: SeededRandom
+  ): { width: number; height: number } {
+    const { width, height } = BiomeRegistry.getOrDefault(biome).roomSize;
+    const pick = (min: number, max: number) => {
+      const steps = Math.floor((max - min) / ROOM_SIZE_STEP);
+      return min + rng.int(steps + 1) * ROOM_SIZE_STEP;
+    };
+    return {
+      width: pick(width.min, width.max),
+      height: pick(height.min, height.max),
+    };
   }
 
   // Get progressive zone order
   public getZoneOrder(): string[] {
-    return ["forest", "desert", "laboratory"];
+    return BiomeRegistry.getZones().map((zone) => zone.id);
   }
 
   // Check if a zone is unlocked based on player progress
   public isZoneUnlocked(biome: string, playerLevel: number): boolean {
-    const zoneOrder = this.getZoneOrder();
-    const zoneIndex = zoneOrder.indexOf(biome);
-
-    if (zoneIndex === -1) return false; // Unknown zone
-
-    // Forest is always unlocked
-    if (zoneIndex === 0) return true;
-
-    // Desert unlocked at level 5
-    if (zoneIndex === 1) return playerLevel >= 5;
-
-    // Laboratory unlocked at level 10
-    if (zoneIndex === 2) return playerLevel >= 10;
+    const config = this.getRoomConfig(biome);
+    if (!config) return false; // Unknown zone
 
-    return false;
+    return playerLevel >= config.unlockLevel;
   }
 }
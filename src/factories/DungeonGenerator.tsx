@@ -1,6 +1,11 @@
 import { Room, Teleporter } from "../types/gameTypes";
-import { RoomFactory } from "./RoomFactory";
 import { RoomController } from "../controllers/RoomController";
+import { SeededRandom } from "../utils/SeededRandom";
+import { SoilModel } from "../simulation/SoilModel";
+import { AtmosphereModel } from "../simulation/AtmosphereModel";
+import { WeatherSystem } from "../simulation/WeatherSystem";
+import { FactionModel } from "../simulation/FactionModel";
+import { BiomeRegistry } from "../biomes/BiomeRegistry";
 
 export interface DungeonRoom {
   id: string;
@@ -16,32 +21,21 @@ export interface DungeonRoom {
     east?: string;
     west?: string;
   };
-  roomData: any;
 }
 
 export class DungeonGenerator {
   private static readonly roomController = new RoomController();
-  // Use a consistent grid size for positioning, but rooms can have different actual sizes
-  private static readonly GRID_SIZE = 500; // Base grid size
 
-  static generateDungeon(): Room[] {
+  static generateDungeon(rng: SeededRandom): Room[] {
     const rooms: DungeonRoom[] = [];
 
-    // Create exactly 3 progressive zones in order: Forest -> Desert -> Laboratory
-    const zoneConfigs = [
-      { x: 0, y: 0, biome: "forest", template: "forest_room" },
-      { x: 1, y: 0, biome: "desert", template: "desert_room" },
-      { x: 3, y: 0, biome: "laboratory", template: "laboratory_room" }, // Skip space for larger desert room
-    ];
-
-    // Create each zone with proper positioning
+    // Create one room per zone, in the order the player unlocks them
     let currentX = 0;
-    zoneConfigs.forEach((config, index) => {
-      const room = this.createRoom(config.x, config.y, config.template);
+    BiomeRegistry.getZones().forEach((zone, index) => {
+      const room = this.createRoom(index, 0, zone.id, rng);
 
-      // Position room based on accumulated width of previous rooms
+      // Rooms sit side by side, each starting where the previous one ends
       room.x = currentX;
-      room.y = config.y * this.GRID_SIZE;
 
       rooms.push(room);
 
@@ -58,25 +52,19 @@ export class DungeonGenerator {
     });
 
     // Convert to Room objects with teleporters
-    return this.convertToRooms(rooms);
+    return this.convertToRooms(rooms, rng);
   }
 
   private static createRoom(
     x: number,
     y: number,
-    templateId: string
+    biome: string,
+    rng: SeededRandom
   ): DungeonRoom {
     const roomId = `room_${x}_${y}`;
 
-    // Extract biome from template ID (e.g., "forest_room" -> "forest")
-    const biome = templateId.replace("_room", "");
-
-    // Create room data with the specific biome
-    const roomData = RoomFactory.generateRandomRoom(0, 0, roomId);
-    roomData.biome = biome; // Override the random biome with the specific one
-
     // Get room size based on biome
-    const roomSize = this.roomController.getRoomSize(biome);
+    const roomSize = this.roomController.getRoomSize(biome, rng);
 
     // Position will be set by the calling code based on room sizes
     return {
@@ -87,7 +75,6 @@ export class DungeonGenerator {
       height: roomSize.height,
       biome: biome,
       connections: {},
-      roomData: roomData,
     };
   }
 
@@ -136,7 +123,10 @@ export class DungeonGenerator {
     }
   }
 
-  private static convertToRooms(dungeonRooms: DungeonRoom[]): Room[] {
+  private static convertToRooms(
+    dungeonRooms: DungeonRoom[],
+    rng: SeededRandom
+  ): Room[] {
     return dungeonRooms.map((dungeonRoom) => {
       const teleporters: Teleporter[] = [];
 
@@ -201,10 +191,14 @@ export class DungeonGenerator {
         biome: dungeonRoom.biome,
         entities: [], // Start with empty entities
         teleporters,
+        soil: SoilModel.create(dungeonRoom, rng),
+        atmosphere: AtmosphereModel.create(dungeonRoom.biome),
+        weather: WeatherSystem.create(),
+        factions: FactionModel.create(dungeonRoom, rng),
       };
 
       // Use RoomController to properly populate the room with distributed entities
-      this.roomController.populateRoom(room);
+      this.roomController.populateRoom(room, rng);
 
       return room;
     });
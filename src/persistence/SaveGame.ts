@@ -0,0 +1,470 @@
+import {
+  EntityType,
+  EntityTypeValue,
+  EcosystemHealthValue,
+  Position,
+  Plant,
+  Herbivore,
+  Carnivore,
+  Decomposer,
+  Player,
+  IEntity,
+  Room,
+  Teleporter,
+  SoilGrid,
+  RoomAtmosphere,
+  RoomWeather,
+  Faction,
+  GameMessage,
+} from "../types/gameTypes";
+import {
+  AdvancedCreatureAI,
+  AdvancedCreatureAIFactory,
+  CreatureAISnapshot,
+} from "../controllers/AdvancedCreatureAI";
+import {
+  EcoSimulation,
+  SimulationRestoreState,
+} from "../simulation/EcoSimulation";
+import { SimulationClockSnapshot } from "../simulation/SimulationClock";
+import { RoomAggregate } from "../simulation/RoomAggregate";
+import { SoilModel } from "../simulation/SoilModel";
+import { AtmosphereModel } from "../simulation/AtmosphereModel";
+import { WeatherSystem } from "../simulation/WeatherSystem";
+import { SeededRandom } from "../utils/SeededRandom";
+
+// Current save format version - bump when the SaveGame shape changes and
+// register a migration from the previous version
+export const SAVE_FORMAT_VERSION = 9;
+
+// Plain-data form of an entity. Fields hold every own property of the class
+// instance except position and inventory, which are stored separately.
+export interface SavedEntity {
+  type: EntityTypeValue;
+  id: string;
+  position: { x: number; y: number };
+  inventory?: SavedEntity[];
+  fields: { [key: string]: unknown };
+}
+
+// Room layout - entities are saved once in SaveGame.entities
+export interface SavedRoom {
+  id: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  biome: string;
+  teleporters: Teleporter[];
+  soil: SoilGrid;
+  atmosphere: RoomAtmosphere;
+  weather: RoomWeather;
+  factions: Faction[];
+}
+
+export interface SaveGame {
+  version: number;
+  savedAt: number; // Wall-clock timestamp, metadata only
+  seed: number;
+  rngState: number;
+  currentRoomId: string;
+  ecosystemHealth: EcosystemHealthValue;
+  spawnCounter: number;
+  player: SavedEntity;
+  rooms: SavedRoom[];
+  entities: SavedEntity[];
+  clock: SimulationClockSnapshot;
+  aiCache: { entityId: string; snapshot: CreatureAISnapshot }[];
+  messages: GameMessage[];
+  activeRoomId: string | null;
+  roomAggregates: RoomAggregate[]; // Rooms simulated statistically
+  teleporterStates: { [teleporterId: string]: boolean };
+  tick: number; // Steps taken since the run started
+}
+
+// Save game rehydrated back into class instances
+export interface LoadedGame {
+  player: Player;
+  currentRoomId: string;
+  messages: GameMessage[];
+  seed: number;
+  gameTime: number;
+  teleporterStates: { [teleporterId: string]: boolean };
+  tick: number;
+  simulation: SimulationRestoreState;
+}
+
+// Save as parsed JSON, before it is known to match the current SaveGame
+export type SaveData = Record<string, unknown>;
+
+// Upgrades a save from one version to the next. Migrations read the fields
+// they change through SavedField, so a save of the wrong shape fails to load
+// instead of loading half-migrated.
+export type SaveMigration = (save: SaveData) => SaveData;
+
+export class SaveGameSerializer {
+  // Migrations keyed by the version they upgrade from
+  private static migrations: Map<number, SaveMigration> = new Map();
+
+  // Register a migration that upgrades saves of fromVersion to fromVersion + 1
+  static registerMigration(fromVersion: number, migrate: SaveMigration): void {
+    this.migrations.set(fromVersion, migrate);
+  }
+
+  static serialize(params: {
+    player: Player;
+    simulation: EcoSimulation;
+    currentRoomId: string;
+    messages: GameMessage[];
+    teleporterStates: { [teleporterId: string]: boolean };
+    tick: number;
+  }): SaveGame {
+    const { player, simulation, currentRoomId, messages, tick } = params;
+    const rng = simulation.getRandom();
+
+    const aiCache: SaveGame["aiCache"] = [];
+    simulation.getAICache().forEach((ai, entityId) => {
+      aiCache.push({ entityId, snapshot: ai.toSnapshot() });
+    });
+
+    return {
+      version: SAVE_FORMAT_VERSION,
+      savedAt: Date.now(),
+      seed: rng.getSeed(),
+      rngState: rng.getState(),
+      currentRoomId,
+      ecosystemHealth: simulation.getEcosystemHealth(),
+      spawnCounter: simulation.getSpawnCounter(),
+      player: this.serializeEntity(player),
+      rooms: simulation.getRooms().map((room) => this.serializeRoom(room)),
+      entities: simulation
+        .getEntities()
+        .map((entity) => this.serializeEntity(entity)),
+      clock: simulation.getClock().toSnapshot(),
+      aiCache,
+      messages: messages.map((message) => ({ ...message })),
+      activeRoomId: simulation.getActiveRoomId(),
+      roomAggregates: Array.from(simulation.getAggregates().values()).map(
+        (aggregate) => ({
+          ...aggregate,
+          populations: aggregate.populations.map((population) => ({
+            ...population,
+          })),
+        })
+      ),
+      teleporterStates: { ...params.teleporterStates },
+      tick,
+    };
+  }
+
+  // Rehydrate a save (parsed JSON) into class instances, migrating if needed
+  static deserialize(raw: unknown): LoadedGame {
+    const save = this.migrate(raw);
+
+    const entities = save.entities.map((saved) =>
+      this.deserializeEntity(saved)
+    );
+    const entitiesById = new Map(entities.map((entity) => [entity.id, entity]));
+
+    const rooms: Room[] = save.rooms.map((savedRoom) => ({
+      ...savedRoom,
+      teleporters: savedRoom.teleporters.map((teleporter) => ({
+        ...teleporter,
+      })),
+      soil: SoilModel.clone(savedRoom.soil),
+      atmosphere: { ...savedRoom.atmosphere },
+      weather: { ...savedRoom.weather },
+      factions: savedRoom.factions.map((faction) =>
+        this.cloneFaction(faction)
+      ),
+      entities: entities.filter((entity) => entity.roomId === savedRoom.id),
+    }));
+
+    // Recreating AI instances draws from the RNG, so restore its saved
+    // state afterwards to continue the exact same sequence
+    const rng = new SeededRandom(save.seed);
+    const aiCache = new Map<string, AdvancedCreatureAI>();
+    save.aiCache.forEach(({ entityId, snapshot }) => {
+      aiCache.set(
+        entityId,
+        AdvancedCreatureAIFactory.fromSnapshot(snapshot, rng, (id) =>
+          entitiesById.get(id)
+        )
+      );
+    });
+    rng.setState(save.rngState);
+
+    const player = this.deserializeEntity(save.player);
+    if (!(player instanceof Player)) {
+      throw new Error("Invalid save game: player entity is not a player");
+    }
+
+    return {
+      player,
+      currentRoomId: save.currentRoomId,
+      messages: save.messages.map((message) => ({ ...message })),
+      seed: save.seed,
+      gameTime: save.clock.time,
+      teleporterStates: { ...save.teleporterStates },
+      tick: save.tick,
+      simulation: {
+        rooms,
+        entities,
+        rng,
+        clock: save.clock,
+        aiCache,
+        spawnCounter: save.spawnCounter,
+        ecosystemHealth: save.ecosystemHealth,
+        activeRoomId: save.activeRoomId,
+        aggregates: save.roomAggregates,
+      },
+    };
+  }
+
+  // Bring a save of any known version up to SAVE_FORMAT_VERSION
+  static migrate(raw: unknown): SaveGame {
+    if (!SavedField.isData(raw)) {
+      throw new Error("Invalid save game: expected an object");
+    }
+
+    let save = raw;
+    let version = save.version;
+    if (typeof version !== "number") {
+      throw new Error("Invalid save game: missing version");
+    }
+    if (version > SAVE_FORMAT_VERSION) {
+      throw new Error(
+        `Save game version ${version} is newer than supported version ${SAVE_FORMAT_VERSION}`
+      );
+    }
+
+    while (version < SAVE_FORMAT_VERSION) {
+      const migrate = this.migrations.get(version);
+      if (!migrate) {
+        throw new Error(
+          `No migration registered for save game version ${version}`
+        );
+      }
+      version++;
+      save = { ...migrate(save), version };
+    }
+
+    // Every migration up to the current version has run
+    return save as unknown as SaveGame;
+  }
+
+  // Room layout without its entities
+  static serializeRoom(room: Room): SavedRoom {
+    return {
+      id: room.id,
+      x: room.x,
+      y: room.y,
+      width: room.width,
+      height: room.height,
+      biome: room.biome,
+      teleporters: room.teleporters.map((teleporter) => ({ ...teleporter })),
+      soil: SoilModel.clone(room.soil),
+      atmosphere: { ...room.atmosphere },
+      weather: { ...room.weather },
+      factions: room.factions.map((faction) => this.cloneFaction(faction)),
+    };
+  }
+
+  static cloneFaction(faction: Faction): Faction {
+    return {
+      ...faction,
+      territory: { ...faction.territory },
+      relations: { ...faction.relations },
+    };
+  }
+
+  static serializeEntity(entity: IEntity): SavedEntity {
+    const fields: { [key: string]: unknown } = {};
+    Object.entries(entity).forEach(([key, value]) => {
+      if (key === "position" || key === "inventory" || value === undefined) {
+        return;
+      }
+      fields[key] = value;
+    });
+
+    const saved: SavedEntity = {
+      type: entity.type,
+      id: entity.id,
+      position: { x: entity.position.x, y: entity.position.y },
+      fields,
+    };
+
+    if (entity instanceof Player) {
+      saved.inventory = entity.inventory.map((item) =>
+        this.serializeEntity(item)
+      );
+    }
+
+    return saved;
+  }
+
+  static deserializeEntity(saved: SavedEntity): IEntity {
+    const position = new Position(saved.position.x, saved.position.y);
+    const species = saved.fields.species as string | undefined;
+    const roomId = (saved.fields.roomId as string | undefined) || "";
+
+    let entity: IEntity;
+    switch (saved.type) {
+      case EntityType.PLANT:
+        entity = new Plant(saved.id, position, species, roomId);
+        break;
+      case EntityType.HERBIVORE:
+        entity = new Herbivore(saved.id, position, species, roomId);
+        break;
+      case EntityType.CARNIVORE:
+        entity = new Carnivore(saved.id, position, species, roomId);
+        break;
+      case EntityType.DECOMPOSER:
+        entity = new Decomposer(saved.id, position, species, roomId);
+        break;
+      case EntityType.PLAYER:
+        entity = new Player(
+          saved.id,
+          position,
+          saved.fields.characterClass as string | undefined,
+          roomId
+        );
+        break;
+      default:
+        throw new Error(`Cannot load entity of unknown type: ${saved.type}`);
+    }
+
+    // Overwrite constructor defaults with the saved values
+    Object.assign(entity, saved.fields);
+
+    if (entity instanceof Player) {
+      entity.inventory = (saved.inventory || []).map((item) =>
+        this.deserializeEntity(item)
+      );
+    }
+
+    return entity;
+  }
+}
+
+// Reads fields of a save being migrated, throwing for a wrong shape
+class SavedField {
+  static isData(value: unknown): value is SaveData {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+  }
+
+  static list(data: SaveData, key: string): SaveData[] {
+    const value = data[key];
+    if (!Array.isArray(value) || !value.every(SavedField.isData)) {
+      throw new Error(`Invalid save game: ${key} is not a list of objects`);
+    }
+    return value;
+  }
+
+  static number(data: SaveData, key: string): number {
+    const value = data[key];
+    if (typeof value !== "number") {
+      throw new Error(`Invalid save game: ${key} is not a number`);
+    }
+    return value;
+  }
+
+  static string(data: SaveData, key: string): string {
+    const value = data[key];
+    if (typeof value !== "string") {
+      throw new Error(`Invalid save game: ${key} is not a string`);
+    }
+    return value;
+  }
+}
+
+// Version 1 saves simulated every room fully. Loading one leaves all rooms
+// concrete until the session picks the active room.
+SaveGameSerializer.registerMigration(1, (save) => ({
+  ...save,
+  activeRoomId: null,
+  roomAggregates: [],
+}));
+
+// Version 2 rooms had no soil - dead matter was never returned to it
+SaveGameSerializer.registerMigration(2, (save) => ({
+  ...save,
+  rooms: SavedField.list(save, "rooms").map((room) => ({
+    ...room,
+    nutrients: 0,
+  })),
+}));
+
+// Version 3 rooms kept returned nutrients as a single total. Spread it over
+// a fresh soil grid at the biome's baseline.
+SaveGameSerializer.registerMigration(3, (save) => ({
+  ...save,
+  rooms: SavedField.list(save, "rooms").map((saved) => {
+    const { nutrients, ...room } = saved;
+    const soil = SoilModel.create({
+      x: SavedField.number(room, "x"),
+      y: SavedField.number(room, "y"),
+      width: SavedField.number(room, "width"),
+      height: SavedField.number(room, "height"),
+      biome: SavedField.string(room, "biome"),
+    });
+    SoilModel.depositEverywhere(soil, SavedField.number(saved, "nutrients"));
+    return { ...room, soil };
+  }),
+}));
+
+// Version 4 rooms had no atmosphere - start them at the biome's baseline air
+SaveGameSerializer.registerMigration(4, (save) => ({
+  ...save,
+  rooms: SavedField.list(save, "rooms").map((room) => ({
+    ...room,
+    atmosphere: AtmosphereModel.create(SavedField.string(room, "biome")),
+  })),
+}));
+
+// Version 5 rooms had no weather - start them with clear skies
+SaveGameSerializer.registerMigration(5, (save) => ({
+  ...save,
+  rooms: SavedField.list(save, "rooms").map((room) => ({
+    ...room,
+    weather: WeatherSystem.create(),
+  })),
+}));
+
+// Version 6 rooms had no factions - their creatures stay unaffiliated
+SaveGameSerializer.registerMigration(6, (save) => ({
+  ...save,
+  rooms: SavedField.list(save, "rooms").map((room) => ({
+    ...room,
+    factions: [],
+  })),
+}));
+
+// Version 7 aggregates did not keep genomes or illnesses - their creatures
+// come back healthy with their species' defaults
+SaveGameSerializer.registerMigration(7, (save) => ({
+  ...save,
+  roomAggregates: SavedField.list(save, "roomAggregates").map((aggregate) => ({
+    ...aggregate,
+    populations: SavedField.list(aggregate, "populations").map(
+      (population) => ({
+        ...population,
+        genome: null,
+        generation: 0,
+        infections: {},
+      })
+    ),
+  })),
+}));
+
+// Version 8 saves did not keep the session - all teleporters come back
+// deactivated and the step count starts over
+SaveGameSerializer.registerMigration(8, (save) => {
+  const teleporterStates: { [teleporterId: string]: boolean } = {};
+  SavedField.list(save, "rooms").forEach((room) => {
+    SavedField.list(room, "teleporters").forEach((teleporter) => {
+      teleporterStates[SavedField.string(teleporter, "id")] = false;
+    });
+  });
+  return { ...save, teleporterStates, tick: 0 };
+});
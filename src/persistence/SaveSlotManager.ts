@@ -0,0 +1,102 @@
+import { EcosystemHealthValue } from "../types/gameTypes";
+import { SaveGame } from "./SaveGame";
+import { StorageAdapter } from "./StorageAdapter";
+
+// Built-in save slots - the autosave slot is written automatically
+export const SaveSlots = {
+  AUTOSAVE: "autosave",
+  SLOT_1: "slot_1",
+  SLOT_2: "slot_2",
+  SLOT_3: "slot_3",
+} as const;
+
+export type SaveSlotId = (typeof SaveSlots)[keyof typeof SaveSlots];
+
+export const SaveSlotNames: Record<SaveSlotId, string> = {
+  [SaveSlots.AUTOSAVE]: "Autosave",
+  [SaveSlots.SLOT_1]: "Slot 1",
+  [SaveSlots.SLOT_2]: "Slot 2",
+  [SaveSlots.SLOT_3]: "Slot 3",
+};
+
+// Summary of a slot shown in menus without loading the full save
+export interface SaveSlotMetadata {
+  slotId: SaveSlotId;
+  name: string;
+  savedAt: number;
+  characterClass: string;
+  level: number;
+  playtime: number; // Simulated seconds
+  ecosystemHealth: EcosystemHealthValue;
+}
+
+const STORAGE_PREFIX = "ecodungeon";
+const SLOT_INDEX_KEY = `${STORAGE_PREFIX}:save-index`;
+
+export class SaveSlotManager {
+  private storage: StorageAdapter;
+
+  constructor(storage: StorageAdapter) {
+    this.storage = storage;
+  }
+
+  // Metadata of every occupied slot, most recent first
+  async listSlots(): Promise<SaveSlotMetadata[]> {
+    const index = await this.readIndex();
+    return Object.values(index).sort((a, b) => b.savedAt - a.savedAt);
+  }
+
+  async getMostRecentSlot(): Promise<SaveSlotMetadata | null> {
+    const slots = await this.listSlots();
+    return slots[0] || null;
+  }
+
+  async save(slotId: SaveSlotId, save: SaveGame): Promise<SaveSlotMetadata> {
+    const metadata = SaveSlotManager.createMetadata(slotId, save);
+    await this.storage.setItem(this.getSlotKey(slotId), JSON.stringify(save));
+
+    const index = await this.readIndex();
+    index[slotId] = metadata;
+    await this.storage.setItem(SLOT_INDEX_KEY, JSON.stringify(index));
+
+    return metadata;
+  }
+
+  // Raw parsed save - pass to SaveGameSerializer.deserialize to migrate and load
+  async load(slotId: SaveSlotId): Promise<unknown | null> {
+    const json = await this.storage.getItem(this.getSlotKey(slotId));
+    return json ? JSON.parse(json) : null;
+  }
+
+  async delete(slotId: SaveSlotId): Promise<void> {
+    await this.storage.removeItem(this.getSlotKey(slotId));
+
+    const index = await this.readIndex();
+    delete index[slotId];
+    await this.storage.setItem(SLOT_INDEX_KEY, JSON.stringify(index));
+  }
+
+  static createMetadata(slotId: SaveSlotId, save: SaveGame): SaveSlotMetadata {
+    const playerFields = save.player.fields;
+    return {
+      slotId,
+      name: SaveSlotNames[slotId],
+      savedAt: save.savedAt,
+      characterClass: (playerFields.characterClass as string) || "wanderer",
+      level: (playerFields.level as number) || 1,
+      playtime: save.clock.time,
+      ecosystemHealth: save.ecosystemHealth,
+    };
+  }
+
+  private getSlotKey(slotId: SaveSlotId): string {
+    return `${STORAGE_PREFIX}:save:${slotId}`;
+  }
+
+  private async readIndex(): Promise<{
+    [slotId: string]: SaveSlotMetadata;
+  }> {
+    const json = await this.storage.getItem(SLOT_INDEX_KEY);
+    return json ? JSON.parse(json) : {};
+  }
+}
@@ -0,0 +1,31 @@
+import { StorageAdapter } from "./StorageAdapter";
+
+// Persisted player preferences
+export interface GameSettings {
+  autoSaveEnabled: boolean;
+}
+
+export const DefaultGameSettings: GameSettings = {
+  autoSaveEnabled: true,
+};
+
+const SETTINGS_KEY = "ecodungeon:settings";
+
+export class SettingsStore {
+  private storage: StorageAdapter;
+
+  constructor(storage: StorageAdapter) {
+    this.storage = storage;
+  }
+
+  async load(): Promise<GameSettings> {
+    const json = await this.storage.getItem(SETTINGS_KEY);
+    return json
+      ? { ...DefaultGameSettings, ...JSON.parse(json) }
+      : { ...DefaultGameSettings };
+  }
+
+  async save(settings: GameSettings): Promise<void> {
+    await this.storage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  }
+}
@@ -0,0 +1,79 @@
+import { Platform } from "react-native";
+import * as FileSystem from "expo-file-system";
+
+// Async key-value storage used for save slots and settings
+export interface StorageAdapter {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
+
+// Web storage backed by window.localStorage
+export class WebStorageAdapter implements StorageAdapter {
+  async getItem(key: string): Promise<string | null> {
+    return globalThis.localStorage.getItem(key);
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    globalThis.localStorage.setItem(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    globalThis.localStorage.removeItem(key);
+  }
+}
+
+// Native storage - one file per key in the app's document directory
+export class FileSystemStorageAdapter implements StorageAdapter {
+  private getFileUri(key: string): string {
+    if (!FileSystem.documentDirectory) {
+      throw new Error("Document directory is not available on this platform");
+    }
+    return `${FileSystem.documentDirectory}${encodeURIComponent(key)}.json`;
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    const uri = this.getFileUri(key);
+    const info = await FileSystem.getInfoAsync(uri);
+    if (!info.exists) return null;
+    return FileSystem.readAsStringAsync(uri);
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    await FileSystem.writeAsStringAsync(this.getFileUri(key), value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await FileSystem.deleteAsync(this.getFileUri(key), { idempotent: true });
+  }
+}
+
+// In-memory storage for Node scripts, tests and unsupported platforms
+export class MemoryStorageAdapter implements StorageAdapter {
+  private items: Map<string, string> = new Map();
+
+  async getItem(key: string): Promise<string | null> {
+    return this.items.get(key) ?? null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.items.set(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.items.delete(key);
+  }
+}
+
+// Storage Factory
+export class StorageAdapterFactory {
+  // Pick the storage backend for the current platform
+  static createForPlatform(): StorageAdapter {
+    if (Platform.OS === "web") {
+      return typeof globalThis.localStorage !== "undefined"
+        ? new WebStorageAdapter()
+        : new MemoryStorageAdapter();
+    }
+    return new FileSystemStorageAdapter();
+  }
+}
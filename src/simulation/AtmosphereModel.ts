@@ -0,0 +1,102 @@
+import { EntityTypeValue, Room, RoomAtmosphere } from "../types/gameTypes";
+import { BiomeRegistry } from "../biomes/BiomeRegistry";
+
+// Oxygen used per second by each kind of creature, in the same units as
+// Plant.oxygenProduction
+const OxygenConsumption: Partial<Record<EntityTypeValue, number>> = {
+  herbivore: 1,
+  carnivore: 1.5,
+  decomposer: 0.5,
+};
+
+// Per-second rates of the atmosphere model. Production and consumption are
+// spread over the room's floor area, so big rooms change more slowly.
+export const AtmosphereRates = {
+  FLOOR_CELL_AREA: 100 * 100, // Floor area one unit of exchange fills
+  EXCHANGE: 0.03, // Oxygen level per unit of net production per floor cell
+  VENTILATION: 0.02, // Fraction of the difference to baseline restored
+  SCRUBBING: 0.02, // Contamination removed per unit of production per cell
+  CONTAMINATION_RETURN: 0.002, // Fraction of the contamination leak restored
+  LOW_OXYGEN: 0.4, // Breathable oxygen below which creatures suffer
+  MIN_SPEED_FACTOR: 0.3, // Speed of creatures in air without oxygen
+  PLAYER_ENERGY_DRAIN: 5, // Player energy lost at zero breathable oxygen
+} as const;
+
+export class AtmosphereModel {
+  static create(biome: string): RoomAtmosphere {
+    return { ...AtmosphereModel.getBaseline(biome) };
+  }
+
+  // Resting air of the biome
+  static getBaseline(biome: string): RoomAtmosphere {
+    return BiomeRegistry.getOrDefault(biome).atmosphere;
+  }
+
+  // Oxygen a creature can actually use
+  static getBreathable(atmosphere: RoomAtmosphere): number {
+    return atmosphere.oxygen * (1 - atmosphere.contamination);
+  }
+
+  static getConsumption(type: EntityTypeValue): number {
+    return OxygenConsumption[type] ?? 0;
+  }
+
+  // How short of breathable oxygen the air is, from 0 (fine) to 1 (none)
+  static getSuffocation(atmosphere: RoomAtmosphere): number {
+    const breathable = AtmosphereModel.getBreathable(atmosphere);
+    return Math.max(0, 1 - breathable / AtmosphereRates.LOW_OXYGEN);
+  }
+
+  // Speed multiplier for creatures breathing this air
+  static getSpeedFactor(atmosphere: RoomAtmosphere): number {
+    return (
+      1 -
+      AtmosphereModel.getSuffocation(atmosphere) *
+        (1 - AtmosphereRates.MIN_SPEED_FACTOR)
+    );
+  }
+
+  // Exchange gases for deltaTime. production and consumption are the summed
+  // oxygen output of the room's plants and use of its creatures.
+  static advance(
+    room: Room,
+    production: number,
+    consumption: number,
+    deltaTime: number
+  ): void {
+    const baseline = AtmosphereModel.getBaseline(room.biome);
+    const atmosphere = room.atmosphere;
+    const floorCells = Math.max(
+      1,
+      (room.width * room.height) / AtmosphereRates.FLOOR_CELL_AREA
+    );
+
+    const oxygenChange =
+      ((production - consumption) * AtmosphereRates.EXCHANGE) / floorCells +
+      (baseline.oxygen - atmosphere.oxygen) * AtmosphereRates.VENTILATION;
+    atmosphere.oxygen = AtmosphereModel.clamp(
+      atmosphere.oxygen + oxygenChange * deltaTime
+    );
+
+    // Plants filter contaminants while the leak slowly refills them
+    const contaminationChange =
+      (-production * AtmosphereRates.SCRUBBING) / floorCells +
+      (baseline.contamination - atmosphere.contamination) *
+        AtmosphereRates.CONTAMINATION_RETURN;
+    atmosphere.contamination = AtmosphereModel.clamp(
+      atmosphere.contamination + contaminationChange * deltaTime
+    );
+  }
+
+  // Add contaminants to the air, e.g. from a chemical leak. Negative
+  // amounts clean it.
+  static contaminate(atmosphere: RoomAtmosphere, amount: number): void {
+    atmosphere.contamination = AtmosphereModel.clamp(
+      atmosphere.contamination + amount
+    );
+  }
+
+  private static clamp(level: number): number {
+    return Math.max(0, Math.min(1, level));
+  }
+}
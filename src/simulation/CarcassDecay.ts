@@ -0,0 +1,67 @@
+import { EntityState, IEntity } from "../types/gameTypes";
+
+// Timings of the carcass life cycle. A carcass stays fresh for scavengers
+// for a while, then decays for a time that grows with its weight.
+export const CarcassDecayRates = {
+  FRESH_DURATION: 10, // Seconds a carcass stays DEAD before decaying
+  BASE_DECAY_TIME: 20, // Seconds to rot away, plus DECAY_TIME_PER_KG
+  DECAY_TIME_PER_KG: 2,
+  MAX_DECAY_TIME: 180,
+  NATURAL_NUTRIENT_RETURN: 0.3, // Fraction of rotted weight reaching the soil
+  DECOMPOSER_NUTRIENT_RETURN: 0.9, // Fraction returned by decomposers
+} as const;
+
+export class CarcassDecay {
+  // Dead, either fresh or already decaying
+  static isCarcass(entity: IEntity): boolean {
+    return (
+      entity.state === EntityState.DEAD || entity.state === EntityState.DECAYING
+    );
+  }
+
+  // Eaten to nothing or rotted away - ready to be removed
+  static isGone(entity: IEntity): boolean {
+    if (!CarcassDecay.isCarcass(entity)) return false;
+    return (
+      entity.weight <= 0 ||
+      (entity.state === EntityState.DECAYING && entity.decayTimer <= 0)
+    );
+  }
+
+  // Start the decaying phase, e.g. when a decomposer reaches a fresh carcass
+  static beginDecay(entity: IEntity): void {
+    if (entity.state !== EntityState.DEAD) return;
+
+    entity.state = EntityState.DECAYING;
+    entity.decayDuration = Math.min(
+      CarcassDecayRates.MAX_DECAY_TIME,
+      CarcassDecayRates.BASE_DECAY_TIME +
+        entity.weight * CarcassDecayRates.DECAY_TIME_PER_KG
+    );
+    entity.decayTimer = entity.decayDuration;
+  }
+
+  // Age a carcass by deltaTime. Decaying carcasses lose weight evenly over
+  // their remaining decay time. Returns the kg of nutrients released.
+  static advance(entity: IEntity, deltaTime: number): number {
+    if (!CarcassDecay.isCarcass(entity)) return 0;
+
+    entity.timeSinceDeath += deltaTime;
+    if (
+      entity.state === EntityState.DEAD &&
+      entity.timeSinceDeath >= CarcassDecayRates.FRESH_DURATION
+    ) {
+      CarcassDecay.beginDecay(entity);
+    }
+    if (entity.state !== EntityState.DECAYING) return 0;
+
+    const rotted =
+      entity.decayTimer > deltaTime
+        ? entity.weight * (deltaTime / entity.decayTimer)
+        : entity.weight;
+    entity.weight = Math.max(0, entity.weight - rotted);
+    entity.decayTimer = Math.max(0, entity.decayTimer - deltaTime);
+
+    return rotted * CarcassDecayRates.NATURAL_NUTRIENT_RETURN;
+  }
+}
@@ -0,0 +1,113 @@
+import {
+  ActivityPattern,
+  ActivityPatternValue,
+  TimeOfDay,
+  TimeOfDayValue,
+} from "../types/gameTypes";
+import { DayCycleConfig } from "../types/biomeTypes";
+import { BiomeRegistry } from "../biomes/BiomeRegistry";
+
+// Where each part of the day ends, as a fraction of the day from dawn
+const PhaseEnds: { timeOfDay: TimeOfDayValue; end: number }[] = [
+  { timeOfDay: TimeOfDay.DAWN, end: 0.1 },
+  { timeOfDay: TimeOfDay.DAY, end: 0.5 },
+  { timeOfDay: TimeOfDay.DUSK, end: 0.6 },
+  { timeOfDay: TimeOfDay.NIGHT, end: 1 },
+];
+
+const ActiveTimes: Record<ActivityPatternValue, TimeOfDayValue[]> = {
+  [ActivityPattern.DIURNAL]: [TimeOfDay.DAWN, TimeOfDay.DAY],
+  [ActivityPattern.NOCTURNAL]: [TimeOfDay.DUSK, TimeOfDay.NIGHT],
+  [ActivityPattern.CREPUSCULAR]: [TimeOfDay.DAWN, TimeOfDay.DUSK],
+  [ActivityPattern.CATHEMERAL]: [
+    TimeOfDay.DAWN,
+    TimeOfDay.DAY,
+    TimeOfDay.DUSK,
+    TimeOfDay.NIGHT,
+  ],
+};
+
+export const DayNightSettings = {
+  START_PHASE: 0.1, // Games start in the morning, just after dawn
+  DAWN_HOUR: 6, // Clock hour at which the day starts
+  MAX_TINT_OPACITY: 0.6, // Tint over a room in complete darkness
+  NIGHT_TINT: "#0b1026",
+  TWILIGHT_TINT: "#7c2d12",
+} as const;
+
+// Day/night cycle driven by the simulation clock. Stateless - everything is
+// derived from gameTime, so saves and replays need nothing extra.
+export class DayNightCycle {
+  static getConfig(biome: string): DayCycleConfig {
+    return BiomeRegistry.getOrDefault(biome).dayCycle;
+  }
+
+  // Fraction of the day since dawn (0-1)
+  static getPhase(biome: string, gameTime: number): number {
+    const { dayLength } = DayNightCycle.getConfig(biome);
+    const phase = gameTime / dayLength + DayNightSettings.START_PHASE;
+    return phase - Math.floor(phase);
+  }
+
+  static getTimeOfDay(biome: string, gameTime: number): TimeOfDayValue {
+    const phase = DayNightCycle.getPhase(biome, gameTime);
+    const current = PhaseEnds.find(({ end }) => phase < end);
+    return current ? current.timeOfDay : TimeOfDay.NIGHT;
+  }
+
+  // Light level (0-1). Full during the day, the biome's night light at
+  // night, fading in between at dawn and dusk.
+  static getLightLevel(biome: string, gameTime: number): number {
+    const { nightLight } = DayNightCycle.getConfig(biome);
+    const phase = DayNightCycle.getPhase(biome, gameTime);
+    const [dawn, day, dusk] = PhaseEnds;
+    if (!dawn || !day || !dusk) return 1;
+
+    if (phase < dawn.end) {
+      return nightLight + (1 - nightLight) * (phase / dawn.end);
+    }
+    if (phase < day.end) return 1;
+    if (phase < dusk.end) {
+      const progress = (phase - day.end) / (dusk.end - day.end);
+      return 1 - (1 - nightLight) * progress;
+    }
+    return nightLight;
+  }
+
+  static isActive(
+    activity: ActivityPatternValue,
+    timeOfDay: TimeOfDayValue
+  ): boolean {
+    return ActiveTimes[activity].includes(timeOfDay);
+  }
+
+  // Colour laid over a room - reddish at dawn and dusk, dark blue at night
+  static getTint(
+    biome: string,
+    gameTime: number
+  ): { color: string; opacity: number } {
+    const timeOfDay = DayNightCycle.getTimeOfDay(biome, gameTime);
+    const light = DayNightCycle.getLightLevel(biome, gameTime);
+    const twilight =
+      timeOfDay === TimeOfDay.DAWN || timeOfDay === TimeOfDay.DUSK;
+
+    return {
+      color: twilight
+        ? DayNightSettings.TWILIGHT_TINT
+        : DayNightSettings.NIGHT_TINT,
+      opacity: (1 - light) * DayNightSettings.MAX_TINT_OPACITY,
+    };
+  }
+
+  // 24-hour clock time for the HUD, e.g. "18:30"
+  static formatClock(biome: string, gameTime: number): string {
+    const phase = DayNightCycle.getPhase(biome, gameTime);
+    const minutes = Math.floor(
+      (DayNightSettings.DAWN_HOUR * 60 + phase * 24 * 60) % (24 * 60)
+    );
+    const hours = Math.floor(minutes / 60);
+    return `${hours.toString().padStart(2, "0")}:${(minutes % 60)
+      .toString()
+      .padStart(2, "0")}`;
+  }
+}
@@ -0,0 +1,205 @@
+import {
+  Carnivore,
+  Decomposer,
+  EntityState,
+  EntityType,
+  EntityTypeValue,
+  Herbivore,
+  IEntity,
+  Pathogen,
+  PathogenValue,
+  RoomAtmosphere,
+} from "../types/gameTypes";
+import { SeededRandom } from "../utils/SeededRandom";
+
+// Creatures that can carry a pathogen
+export type HostCreature = Herbivore | Carnivore | Decomposer;
+
+export interface PathogenConfig {
+  name: string;
+  icon: string;
+  hosts: EntityTypeValue[]; // Kinds of creature the pathogen can infect
+  contagion: number; // Chance per second of passing to a creature in contact
+  carcassContagion: number; // Chance per bite of an infected carcass
+  duration: number; // Seconds until the host recovers
+  healthDrain: number; // Health lost per second
+  speedFactor: number; // Speed multiplier while infected
+  reproductionFactor: number; // Reproduction multiplier while infected
+}
+
+const Pathogens: Record<PathogenValue, PathogenConfig> = {
+  // Spreads quickly through herds and can kill weak animals outright
+  [Pathogen.FEVER]: {
+    name: "Fever",
+    icon: "🤒",
+    hosts: [EntityType.HERBIVORE, EntityType.CARNIVORE],
+    contagion: 0.2,
+    carcassContagion: 0.05,
+    duration: 60,
+    healthDrain: 0.5,
+    speedFactor: 0.7,
+    reproductionFactor: 0.3,
+  },
+  // Slow parasites, passed on mostly by eating infected carrion
+  [Pathogen.WORMS]: {
+    name: "Worms",
+    icon: "🪱",
+    hosts: [
+      EntityType.HERBIVORE,
+      EntityType.CARNIVORE,
+      EntityType.DECOMPOSER,
+    ],
+    contagion: 0.02,
+    carcassContagion: 0.25,
+    duration: 180,
+    healthDrain: 0.15,
+    speedFactor: 0.9,
+    reproductionFactor: 0.5,
+  },
+};
+
+export const DiseaseRates = {
+  CONTACT_RANGE: 40, // Pixels within which creatures pass pathogens on
+  OUTBREAK: 0.0005, // Chance per second and crowding neighbor of falling ill
+  CONTAMINATION_OUTBREAK: 2, // Extra outbreak factor in fully contaminated air
+  IMMUNITY: 120, // Seconds a recovered or cured creature stays immune
+} as const;
+
+// Epidemiology of the creatures in the active room. Crowded creatures fall
+// ill on their own now and then, pass pathogens to neighbors they touch and
+// catch them from infected carcasses they eat. Carcasses keep the infection
+// their host died with.
+export class DiseaseModel {
+  static getPathogen(pathogen: PathogenValue): PathogenConfig {
+    return Pathogens[pathogen];
+  }
+
+  static isHost(entity: IEntity): entity is HostCreature {
+    return (
+      entity.type === EntityType.HERBIVORE ||
+      entity.type === EntityType.CARNIVORE ||
+      entity.type === EntityType.DECOMPOSER
+    );
+  }
+
+  static isInfected(entity: IEntity): boolean {
+    return DiseaseModel.isHost(entity) && !!entity.infection;
+  }
+
+  // Run the course of a living host's infection and immunity for deltaTime
+  static advance(host: HostCreature, deltaTime: number): void {
+    if (
+      host.state !== EntityState.ALIVE &&
+      host.state !== EntityState.FLEEING
+    ) {
+      return;
+    }
+
+    host.immunity = Math.max(0, host.immunity - deltaTime);
+    if (!host.infection) return;
+
+    const pathogen = Pathogens[host.infection.pathogen];
+    host.health = Math.max(0, host.health - pathogen.healthDrain * deltaTime);
+    host.infection.remaining -= deltaTime;
+    if (host.infection.remaining <= 0) {
+      DiseaseModel.cure(host);
+    }
+  }
+
+  // Expose a living host to the creatures around it. neighbors are the
+  // living entities its AI already looked up this step.
+  static expose(
+    host: HostCreature,
+    neighbors: IEntity[],
+    atmosphere: RoomAtmosphere | undefined,
+    rng: SeededRandom,
+    deltaTime: number
+  ): void {
+    if (host.infection || host.immunity > 0) return;
+
+    const contacts = neighbors.filter(
+      (neighbor) =>
+        neighbor.state === EntityState.ALIVE &&
+        DiseaseModel.isHost(neighbor) &&
+        host.position.distanceTo(neighbor.position) <=
+          DiseaseRates.CONTACT_RANGE
+    ) as HostCreature[];
+    if (contacts.length === 0) return;
+
+    for (const contact of contacts) {
+      if (!contact.infection) continue;
+      const pathogen = Pathogens[contact.infection.pathogen];
+      if (
+        pathogen.hosts.includes(host.type) &&
+        rng.next() < pathogen.contagion * deltaTime
+      ) {
+        DiseaseModel.infect(host, contact.infection.pathogen);
+        return;
+      }
+    }
+
+    // Crowding, and contaminated air, breed disease
+    const contamination = atmosphere?.contamination ?? 0;
+    const outbreakChance =
+      DiseaseRates.OUTBREAK *
+      contacts.length *
+      (1 + contamination * DiseaseRates.CONTAMINATION_OUTBREAK) *
+      deltaTime;
+    if (rng.next() < outbreakChance) {
+      const candidates = (Object.keys(Pathogens) as PathogenValue[]).filter(
+        (pathogen) => Pathogens[pathogen].hosts.includes(host.type)
+      );
+      if (candidates.length > 0) {
+        DiseaseModel.infect(host, rng.pick(candidates));
+      }
+    }
+  }
+
+  // A bite of a carcass may pass on the infection its host died with
+  static exposeToCarcass(
+    eater: HostCreature,
+    carcass: IEntity,
+    rng: SeededRandom
+  ): void {
+    if (!DiseaseModel.isHost(carcass) || !carcass.infection) return;
+    if (eater.infection || eater.immunity > 0) return;
+
+    const pathogen = Pathogens[carcass.infection.pathogen];
+    if (
+      pathogen.hosts.includes(eater.type) &&
+      rng.next() < pathogen.carcassContagion
+    ) {
+      DiseaseModel.infect(eater, carcass.infection.pathogen);
+    }
+  }
+
+  static infect(host: HostCreature, pathogen: PathogenValue): void {
+    host.infection = { pathogen, remaining: Pathogens[pathogen].duration };
+  }
+
+  // Clear a host's infection and make it immune for a while
+  static cure(host: HostCreature): void {
+    host.infection = null;
+    host.immunity = DiseaseRates.IMMUNITY;
+  }
+
+  static getSpeedFactor(entity: IEntity): number {
+    return DiseaseModel.isHost(entity) && entity.infection
+      ? Pathogens[entity.infection.pathogen].speedFactor
+      : 1;
+  }
+
+  static getReproductionFactor(entity: IEntity): number {
+    return DiseaseModel.isHost(entity) && entity.infection
+      ? Pathogens[entity.infection.pathogen].reproductionFactor
+      : 1;
+  }
+
+  // Living creatures carrying a pathogen
+  static countInfected(entities: IEntity[]): number {
+    return entities.filter(
+      (entity) =>
+        entity.state === EntityState.ALIVE && DiseaseModel.isInfected(entity)
+    ).length;
+  }
+}
@@ -0,0 +1,1421 @@
+import {
+  EntityType,
+  EcosystemHealth,
+  EcosystemHealthValue,
+  EntityState,
+  Position,
+  Plant,
+  Herbivore,
+  Carnivore,
+  Decomposer,
+  IEntity,
+  Room,
+  Teleporter,
+  EntityTypeValue,
+  FactionRelation,
+  BASE_LIGHT_LEVEL,
+} from "../types/gameTypes";
+import {
+  AdvancedCreatureAIFactory,
+  AdvancedCreatureAI,
+  PackOrders,
+} from "../controllers/AdvancedCreatureAI";
+import { SeededRandom } from "../utils/SeededRandom";
+import {
+  SimulationClock,
+  SimulationClockSnapshot,
+  Cooldown,
+} from "./SimulationClock";
+import { SpatialIndex } from "./SpatialIndex";
+import {
+  AggregateRoomModel,
+  PopulationCounts,
+  RoomAggregate,
+} from "./RoomAggregate";
+import { CarcassDecay, CarcassDecayRates } from "./CarcassDecay";
+import { SoilModel, SoilRates } from "./SoilModel";
+import { AtmosphereModel, AtmosphereRates } from "./AtmosphereModel";
+import { DayNightCycle } from "./DayNightCycle";
+import { EnvironmentModifiers, WeatherSystem } from "./WeatherSystem";
+import { Genetics } from "./Genetics";
+import { DiseaseModel } from "./DiseaseModel";
+import {
+  MigratingCreature,
+  MigrationModel,
+  MigrationRates,
+} from "./MigrationModel";
+import { InvasionModel, InvasionRates, InvasionSurvey } from "./InvasionModel";
+import { FactionModel } from "./FactionModel";
+import { PackModel, PackRates } from "./PackModel";
+import { SpeciesRegistry } from "../species/SpeciesRegistry";
+import { BiomeRegistry } from "../biomes/BiomeRegistry";
+
+// Spots a plant's seeds try before taking root in the most fertile one
+const SEED_CANDIDATES = 3;
+
+// Weather change in a room, for the game log
+export interface WeatherReport {
+  roomId: string;
+  message: string;
+}
+
+// Creature arriving in or leaving a room, for the game log
+export interface MigrationReport {
+  roomId: string;
+  message: string;
+}
+
+// Foreign species taking hold in a room, for the game log
+export interface InvasionReport {
+  roomId: string;
+  message: string;
+}
+
+// Result of a single simulation step
+export interface SimulationStepResult {
+  entities: IEntity[];
+  ecosystemHealth: EcosystemHealthValue;
+  gameTime: number;
+  weatherReports: WeatherReport[];
+  migrationReports: MigrationReport[];
+  invasionReports: InvasionReport[];
+}
+
+// Everything needed to resume a simulation from a save game
+export interface SimulationRestoreState {
+  rooms: Room[];
+  entities: IEntity[];
+  rng: SeededRandom;
+  clock: SimulationClockSnapshot;
+  aiCache: Map<string, AdvancedCreatureAI>;
+  spawnCounter: number;
+  ecosystemHealth: EcosystemHealthValue;
+  activeRoomId: string | null;
+  aggregates: RoomAggregate[];
+}
+
+// Headless ecosystem simulation - owns entities, rooms and the AI cache.
+// Contains no React code so it can run in Node scripts and tests as well as
+// behind the GameContext.
+export class EcoSimulation {
+  private entities: IEntity[] = [];
+  private rooms: Room[] = [];
+  // Cache AI instances per entity to prevent recreation every step
+  private aiCache: Map<string, AdvancedCreatureAI> = new Map();
+  // Simulated time and per-entity cooldowns - advances only when stepping
+  private clock: SimulationClock = new SimulationClock();
+  private ecosystemHealth: EcosystemHealthValue = EcosystemHealth.GOOD;
+  // Single RNG stream for every random decision made during stepping
+  private rng: SeededRandom;
+  // Counter for deterministic offspring ids
+  private spawnCounter: number = 0;
+  // Per-room spatial hash for neighbor queries, kept in sync with positions
+  private spatialIndex: SpatialIndex = new SpatialIndex();
+  // Room simulated entity by entity - null simulates every room fully
+  private activeRoomId: string | null = null;
+  // Cheap statistical model for rooms other than the active one
+  private aggregates: Map<string, RoomAggregate> = new Map();
+  // Season and weather factors of each room for the current step
+  private environment: Map<string, EnvironmentModifiers> = new Map();
+  // Native and foreign life of each room for the current step
+  private invasions: Map<string, InvasionSurvey> = new Map();
+  // Foreign species already reported as established, per room
+  private knownInvaders: Map<string, Set<string>> = new Map();
+  // Members of each hunting pack by leader ID for the current step
+  private packs: Map<string, Carnivore[]> = new Map();
+  // Creatures that reached a teleporter this step
+  private departures: { creature: MigratingCreature; exit: Teleporter }[] =
+    [];
+
+  constructor(rooms: Room[] = [], rng: SeededRandom = new SeededRandom()) {
+    this.rng = rng;
+    if (rooms.length > 0) {
+      this.initialize(rooms, rng);
+    }
+  }
+
+  // Load a freshly generated world, collecting entities from every room.
+  // The rng should be the same instance that generated the rooms so the
+  // whole run follows one seeded sequence.
+  initialize(rooms: Room[], rng: SeededRandom): void {
+    this.rooms = rooms;
+    this.entities = rooms.flatMap((room) => room.entities);
+    this.aiCache.clear();
+    this.clock.reset();
+    this.ecosystemHealth = EcosystemHealth.GOOD;
+    this.rng = rng;
+    this.spawnCounter = 0;
+    this.activeRoomId = null;
+    this.aggregates.clear();
+    this.invasions.clear();
+    this.knownInvaders.clear();
+    this.packs.clear();
+    this.spatialIndex.rebuild(this.entities);
+  }
+
+  // Resume from previously saved state
+  restore(state: SimulationRestoreState): void {
+    this.rooms = state.rooms;
+    this.entities = state.entities;
+    this.rng = state.rng;
+    this.clock.restoreSnapshot(state.clock);
+    this.aiCache = state.aiCache;
+    this.spawnCounter = state.spawnCounter;
+    this.ecosystemHealth = state.ecosystemHealth;
+    this.activeRoomId = state.activeRoomId;
+    this.aggregates = new Map(
+      state.aggregates.map((aggregate) => [aggregate.roomId, aggregate])
+    );
+    this.spatialIndex.rebuild(this.entities);
+    // Invasions under way when the game was saved are not news
+    this.knownInvaders.clear();
+    this.surveyInvasions();
+  }
+
+  // Drop all simulation state
+  reset(): void {
+    this.entities = [];
+    this.rooms = [];
+    this.aiCache.clear();
+    this.clock.reset();
+    this.ecosystemHealth = EcosystemHealth.GOOD;
+    this.spawnCounter = 0;
+    this.activeRoomId = null;
+    this.aggregates.clear();
+    this.invasions.clear();
+    this.knownInvaders.clear();
+    this.packs.clear();
+    this.spatialIndex.clear();
+  }
+
+  getRandom(): SeededRandom {
+    return this.rng;
+  }
+
+  getSeed(): number {
+    return this.rng.getSeed();
+  }
+
+  getEntities(): IEntity[] {
+    return this.entities;
+  }
+
+  getRooms(): Room[] {
+    return this.rooms;
+  }
+
+  getRoom(roomId: string): Room | undefined {
+    return this.rooms.find((room) => room.id === roomId);
+  }
+
+  getGameTime(): number {
+    return this.clock.now();
+  }
+
+  getClock(): SimulationClock {
+    return this.clock;
+  }
+
+  getAICache(): ReadonlyMap<string, AdvancedCreatureAI> {
+    return this.aiCache;
+  }
+
+  getSpawnCounter(): number {
+    return this.spawnCounter;
+  }
+
+  getEcosystemHealth(): EcosystemHealthValue {
+    return this.ecosystemHealth;
+  }
+
+  getActiveRoomId(): string | null {
+    return this.activeRoomId;
+  }
+
+  getAggregates(): ReadonlyMap<string, RoomAggregate> {
+    return this.aggregates;
+  }
+
+  // Living population across concrete entities and aggregated rooms
+  getPopulation(): PopulationCounts {
+    const population = EcoSimulation.countPopulation(this.entities);
+    this.aggregates.forEach((aggregate) => {
+      const counts = AggregateRoomModel.getPopulation(aggregate);
+      population.plants += counts.plants;
+      population.herbivores += counts.herbivores;
+      population.carnivores += counts.carnivores;
+      population.decomposers += counts.decomposers;
+    });
+    return population;
+  }
+
+  // Fully simulate only the given room. Every other room is collapsed into
+  // an aggregate and re-expanded into entities when it becomes active.
+  setActiveRoom(roomId: string): void {
+    this.activeRoomId = roomId;
+    this.rooms.forEach((room) => {
+      if (room.id === roomId) {
+        this.expandRoom(room);
+      } else {
+        this.collapseRoom(room.id);
+      }
+    });
+  }
+
+  addEntity(entity: IEntity): void {
+    this.entities = [...this.entities, entity];
+    this.spatialIndex.insert(entity);
+  }
+
+  removeEntity(entityId: string): void {
+    this.entities = this.entities.filter((e) => e.id !== entityId);
+    this.aiCache.delete(entityId);
+    this.clock.clearEntity(entityId);
+    this.spatialIndex.remove(entityId);
+  }
+
+  // Let a creature remember where it was attacked
+  reportAttack(entity: IEntity): void {
+    this.aiCache.get(entity.id)?.rememberAttack(entity.position);
+  }
+
+  // Entities in a room within radius of a position
+  queryNearby(roomId: string, position: Position, radius: number): IEntity[] {
+    return this.spatialIndex.queryRadius(roomId, position, radius);
+  }
+
+  // Advance the ecosystem by deltaTime seconds
+  step(deltaTime: number): SimulationStepResult {
+    this.clock.advance(deltaTime);
+
+    // Weathering and groundwater restore the soil of every room, and seeds
+    // in it keep concrete rooms from being grazed bare for good
+    this.rooms.forEach((room) => {
+      SoilModel.advance(room, deltaTime);
+      if (!this.aggregates.has(room.id)) {
+        this.sproutPlant(room, deltaTime);
+      }
+    });
+
+    const weatherReports = this.advanceWeather(deltaTime);
+    const invasionReports = this.surveyInvasions();
+    // Social hunters band together before they set off
+    this.packs = PackModel.organize(this.entities);
+
+    // Update all entities using AI system
+    const updatedEntities = this.entities.map((entity) => {
+      // Living plants draw from the soil they stand on and take in the
+      // light of their room's time of day
+      if (entity instanceof Plant && entity.state === EntityState.ALIVE) {
+        const room = this.getRoom(entity.roomId);
+        if (room) {
+          entity.fertility = SoilModel.feedPlant(
+            room,
+            entity.position,
+            deltaTime
+          );
+          entity.lightLevel = DayNightCycle.getLightLevel(
+            room.biome,
+            this.clock.now()
+          );
+        }
+      }
+
+      // Infections drain their hosts until they recover
+      if (DiseaseModel.isHost(entity)) {
+        DiseaseModel.advance(entity, deltaTime);
+      }
+
+      // Update basic entity properties (health, energy, age, hunger)
+      entity.reproductionModifier =
+        this.getEnvironment(entity.roomId).reproductionRate *
+        DiseaseModel.getReproductionFactor(entity) *
+        this.getInvasionReproductionFactor(entity);
+      entity.update(deltaTime, this.rng);
+
+      // Carcasses rot and return part of their weight to the soil
+      this.returnToSoil(
+        entity.roomId,
+        entity.position,
+        CarcassDecay.advance(entity, deltaTime)
+      );
+
+      // Use AI for movement and behavior
+      if (
+        entity.state === EntityState.ALIVE &&
+        entity.type !== EntityType.PLAYER
+      ) {
+        this.updateEntityAI(entity, deltaTime);
+        this.spatialIndex.update(entity);
+      }
+
+      return entity;
+    });
+
+    // Handle entity interactions
+    const finalEntities = this.handleEntityInteractions(updatedEntities);
+
+    // Clean up AI cache and cooldowns for dead entities
+    finalEntities.forEach((entity) => {
+      if (CarcassDecay.isCarcass(entity)) {
+        this.aiCache.delete(entity.id);
+        this.clock.clearEntity(entity.id);
+      }
+    });
+
+    // Keep carcasses until they are eaten or have rotted away
+    this.entities = finalEntities.filter((e) => !CarcassDecay.isGone(e));
+    finalEntities.forEach((entity) => {
+      if (CarcassDecay.isGone(entity)) {
+        this.spatialIndex.remove(entity.id);
+      }
+    });
+
+    // Advance aggregated rooms statistically
+    this.aggregates.forEach((aggregate) => {
+      const nutrients = AggregateRoomModel.advance(aggregate, deltaTime);
+      const room = this.getRoom(aggregate.roomId);
+      if (room) {
+        SoilModel.depositEverywhere(room.soil, nutrients);
+      }
+    });
+
+    const migrationReports = [
+      ...this.completeMigrations(),
+      ...this.advanceAggregateMigration(deltaTime),
+    ];
+
+    this.advanceAtmospheres(deltaTime);
+
+    this.ecosystemHealth = EcoSimulation.adjustHealthForAtmosphere(
+      EcoSimulation.adjustHealthForInvasion(
+        EcoSimulation.calculateHealthFromPopulation(this.getPopulation()),
+        this.getInvasiveShare()
+      ),
+      this.getAverageBreathable()
+    );
+
+    return {
+      entities: this.entities,
+      ecosystemHealth: this.ecosystemHealth,
+      gameTime: this.clock.now(),
+      weatherReports,
+      migrationReports,
+      invasionReports,
+    };
+  }
+
+  // Calculate ecosystem health based on entity balance and, given the
+  // rooms the entities live in, on how much of it is foreign
+  static calculateEcosystemHealth(
+    entities: IEntity[],
+    rooms: Room[] = []
+  ): EcosystemHealthValue {
+    const biomes = new Map(rooms.map((room) => [room.id, room.biome]));
+    return EcoSimulation.adjustHealthForInvasion(
+      EcoSimulation.calculateHealthFromPopulation(
+        EcoSimulation.countPopulation(entities)
+      ),
+      InvasionModel.getInvasiveShare(entities, (roomId) => biomes.get(roomId))
+    );
+  }
+
+  static calculateHealthFromPopulation(
+    population: PopulationCounts
+  ): EcosystemHealthValue {
+    const { plants, herbivores, carnivores, decomposers } = population;
+
+    // Simple balance calculation
+    const totalEntities = plants + herbivores + carnivores + decomposers;
+    if (totalEntities === 0) return EcosystemHealth.CRITICAL;
+
+    const plantRatio = plants / totalEntities;
+    const herbivoreRatio = herbivores / totalEntities;
+    const carnivoreRatio = carnivores / totalEntities;
+    const decomposerRatio = decomposers / totalEntities;
+
+    // Ideal ratios: 55% plants, 27% herbivores, 9% carnivores and 9%
+    // decomposers to return the dead to the soil
+    const plantBalance = Math.abs(plantRatio - 0.55);
+    const herbivoreBalance = Math.abs(herbivoreRatio - 0.27);
+    const carnivoreBalance = Math.abs(carnivoreRatio - 0.09);
+    const decomposerBalance = Math.abs(decomposerRatio - 0.09);
+
+    const totalImbalance =
+      plantBalance + herbivoreBalance + carnivoreBalance + decomposerBalance;
+
+    if (totalImbalance < 0.1) return EcosystemHealth.EXCELLENT;
+    if (totalImbalance < 0.2) return EcosystemHealth.GOOD;
+    if (totalImbalance < 0.3) return EcosystemHealth.FAIR;
+    if (totalImbalance < 0.4) return EcosystemHealth.POOR;
+    return EcosystemHealth.CRITICAL;
+  }
+
+  // Stale air lowers health by one level, suffocating air by two
+  static adjustHealthForAtmosphere(
+    health: EcosystemHealthValue,
+    breathable: number
+  ): EcosystemHealthValue {
+    let penalty = 0;
+    if (breathable < AtmosphereRates.LOW_OXYGEN) penalty++;
+    if (breathable < AtmosphereRates.LOW_OXYGEN / 2) penalty++;
+
+    return EcoSimulation.lowerHealth(health, penalty);
+  }
+
+  // Invasive species making up a quarter of the life lower health by one
+  // level, half of it by two
+  static adjustHealthForInvasion(
+    health: EcosystemHealthValue,
+    invasiveShare: number
+  ): EcosystemHealthValue {
+    let penalty = 0;
+    if (invasiveShare >= InvasionRates.DOMINANCE) penalty++;
+    if (invasiveShare >= InvasionRates.DOMINANCE * 2) penalty++;
+
+    return EcoSimulation.lowerHealth(health, penalty);
+  }
+
+  private static lowerHealth(
+    health: EcosystemHealthValue,
+    levelsDown: number
+  ): EcosystemHealthValue {
+    const levels: EcosystemHealthValue[] = [
+      EcosystemHealth.EXCELLENT,
+      EcosystemHealth.GOOD,
+      EcosystemHealth.FAIR,
+      EcosystemHealth.POOR,
+      EcosystemHealth.CRITICAL,
+    ];
+    const index = Math.min(
+      levels.length - 1,
+      levels.indexOf(health) + levelsDown
+    );
+    return levels[index] ?? health;
+  }
+
+  // Health of a single room from its population and air
+  getRoomHealth(roomId: string): EcosystemHealthValue {
+    const room = this.getRoom(roomId);
+    const aggregate = this.aggregates.get(roomId);
+    const population = aggregate
+      ? AggregateRoomModel.getPopulation(aggregate)
+      : EcoSimulation.countPopulation(
+          this.entities.filter((e) => e.roomId === roomId)
+        );
+    const health = EcoSimulation.adjustHealthForInvasion(
+      EcoSimulation.calculateHealthFromPopulation(population),
+      this.getInvasiveShare(roomId)
+    );
+
+    return room
+      ? EcoSimulation.adjustHealthForAtmosphere(
+          health,
+          AtmosphereModel.getBreathable(room.atmosphere)
+        )
+      : health;
+  }
+
+  // Count living entities by type
+  private static countPopulation(entities: IEntity[]): PopulationCounts {
+    return {
+      plants: entities.filter(
+        (e) => e.type === EntityType.PLANT && e.state === EntityState.ALIVE
+      ).length,
+      herbivores: entities.filter(
+        (e) => e.type === EntityType.HERBIVORE && e.state === EntityState.ALIVE
+      ).length,
+      carnivores: entities.filter(
+        (e) => e.type === EntityType.CARNIVORE && e.state === EntityState.ALIVE
+      ).length,
+      decomposers: entities.filter(
+        (e) =>
+          e.type === EntityType.DECOMPOSER && e.state === EntityState.ALIVE
+      ).length,
+    };
+  }
+
+  // Plants refresh the air of every room while creatures use it up
+  private advanceAtmospheres(deltaTime: number): void {
+    const exchange = new Map<
+      string,
+      { production: number; consumption: number }
+    >();
+    const exchangeFor = (roomId: string) => {
+      let roomExchange = exchange.get(roomId);
+      if (!roomExchange) {
+        roomExchange = { production: 0, consumption: 0 };
+        exchange.set(roomId, roomExchange);
+      }
+      return roomExchange;
+    };
+
+    this.entities.forEach((entity) => {
+      if (entity.state !== EntityState.ALIVE) return;
+
+      const roomExchange = exchangeFor(entity.roomId);
+      if (entity instanceof Plant) {
+        // Photosynthesis follows the light
+        roomExchange.production +=
+          (entity.oxygenProduction * entity.lightLevel) / BASE_LIGHT_LEVEL;
+      } else {
+        roomExchange.consumption += AtmosphereModel.getConsumption(
+          entity.type
+        );
+      }
+    });
+
+    // Aggregates do not keep plant species apart - assume the default output
+    this.aggregates.forEach((aggregate) => {
+      const room = this.getRoom(aggregate.roomId);
+      const lightFactor = room
+        ? DayNightCycle.getLightLevel(room.biome, this.clock.now()) /
+          BASE_LIGHT_LEVEL
+        : 1;
+      const roomExchange = exchangeFor(aggregate.roomId);
+      aggregate.populations.forEach((population) => {
+        if (population.type === EntityType.PLANT) {
+          roomExchange.production += population.count * lightFactor;
+        } else {
+          roomExchange.consumption +=
+            population.count * AtmosphereModel.getConsumption(population.type);
+        }
+      });
+    });
+
+    this.rooms.forEach((room) => {
+      const roomExchange = exchange.get(room.id);
+      AtmosphereModel.advance(
+        room,
+        roomExchange?.production ?? 0,
+        roomExchange?.consumption ?? 0,
+        deltaTime
+      );
+    });
+  }
+
+  // Mean breathable oxygen across all rooms
+  private getAverageBreathable(): number {
+    if (this.rooms.length === 0) return 1;
+
+    const total = this.rooms.reduce(
+      (sum, room) => sum + AtmosphereModel.getBreathable(room.atmosphere),
+      0
+    );
+    return total / this.rooms.length;
+  }
+
+  // Replace a room's entities with an aggregate
+  private collapseRoom(roomId: string): void {
+    if (this.aggregates.has(roomId)) return;
+
+    const roomEntities = this.entities.filter((e) => e.roomId === roomId);
+    this.aggregates.set(
+      roomId,
+      AggregateRoomModel.collapse(roomId, roomEntities)
+    );
+
+    roomEntities.forEach((entity) => {
+      this.aiCache.delete(entity.id);
+      this.clock.clearEntity(entity.id);
+      this.spatialIndex.remove(entity.id);
+    });
+    this.entities = this.entities.filter((e) => e.roomId !== roomId);
+  }
+
+  // Turn a room's aggregate back into concrete entities
+  private expandRoom(room: Room): void {
+    const aggregate = this.aggregates.get(room.id);
+    if (!aggregate) return;
+
+    const expanded = AggregateRoomModel.expand(
+      aggregate,
+      room,
+      this.rng,
+      (prefix) => this.nextEntityId(prefix)
+    );
+    this.aggregates.delete(room.id);
+    // Aggregates do not keep factions - creatures join the closest again
+    expanded.forEach((entity) => {
+      if (FactionModel.isMember(entity)) {
+        FactionModel.join(room, entity);
+      }
+    });
+    this.entities = [...this.entities, ...expanded];
+    expanded.forEach((entity) => this.spatialIndex.insert(entity));
+  }
+
+  // Run the cached AI for a single entity and apply its result
+  private updateEntityAI(entity: IEntity, deltaTime: number): void {
+    // Get or create AI instance from cache to prevent recreation every step
+    let ai = this.aiCache.get(entity.id);
+    if (!ai) {
+      const genome = Genetics.isHeritable(entity) ? entity.genome : undefined;
+      ai = AdvancedCreatureAIFactory.createAI(
+        entity.type,
+        InvasionModel.getSpecies(entity) ?? "",
+        this.rng,
+        genome?.personality ?? null
+      );
+      // Founders keep the personality their AI was born with
+      if (genome && !genome.personality) {
+        genome.personality = ai.getPersonality();
+      }
+      this.aiCache.set(entity.id, ai);
+    }
+
+    // Get nearby entities for AI decision making (within reasonable range)
+    const nearbyEntities = this.spatialIndex
+      .queryRadius(entity.roomId, entity.position, 400)
+      .filter(
+        (e) =>
+          e.id !== entity.id &&
+          (e.state === EntityState.ALIVE ||
+            (CarcassDecay.isCarcass(e) && e.weight > 0)) // Include carcasses for carnivores and decomposers to eat
+      );
+
+    // Walls of the entity's room. The AI keeps creatures 50px inside them,
+    // as clampToRoom does, so they can reach plants anywhere in the room.
+    const entityRoom = this.getRoom(entity.roomId);
+    const roomBounds = entityRoom
+      ? {
+          minX: entityRoom.x,
+          maxX: entityRoom.x + entityRoom.width,
+          minY: entityRoom.y,
+          maxY: entityRoom.y + entityRoom.height,
+        }
+      : undefined;
+
+    const isCreature =
+      entity.type === EntityType.HERBIVORE ||
+      entity.type === EntityType.CARNIVORE ||
+      entity.type === EntityType.DECOMPOSER;
+    const creature = entity as Herbivore | Carnivore | Decomposer;
+    // Creatures in contact pass pathogens on to each other
+    if (isCreature) {
+      DiseaseModel.expose(
+        creature,
+        nearbyEntities,
+        entityRoom?.atmosphere,
+        this.rng,
+        deltaTime
+      );
+    }
+    // Thin or contaminated air, bad weather and illness slow creatures down,
+    // as does a foreign biome
+    const airFactor = entityRoom
+      ? AtmosphereModel.getSpeedFactor(entityRoom.atmosphere)
+      : 1;
+    const speedFactor =
+      airFactor *
+      this.getEnvironment(entity.roomId).speedMultiplier *
+      DiseaseModel.getSpeedFactor(entity) *
+      (entityRoom ? InvasionModel.getSpeedFactor(entity, entityRoom.biome) : 1);
+    // Creatures sleep outside their species' waking hours
+    const isActiveTime =
+      isCreature && entityRoom
+        ? DayNightCycle.isActive(
+            creature.activity,
+            DayNightCycle.getTimeOfDay(entityRoom.biome, this.clock.now())
+          )
+        : true;
+
+    // Update position using simplified AI
+    const aiResult = ai.update(
+      deltaTime,
+      entity.position,
+      nearbyEntities,
+      roomBounds,
+      entityRoom?.biome,
+      isCreature ? creature.hunger : undefined,
+      isCreature ? creature.maxHunger : undefined,
+      isCreature ? creature.speed * speedFactor : undefined,
+      isCreature ? creature.health : undefined,
+      isCreature ? creature.maxHealth : undefined,
+      isCreature ? 100 : undefined, // Default energy
+      isCreature ? 100 : undefined, // Default maxEnergy
+      isActiveTime,
+      // Pack mates are allies, with or without a faction
+      (other) =>
+        PackModel.isPackMate(entity, other)
+          ? FactionRelation.ALLIED
+          : FactionModel.getRelation(entityRoom, entity, other),
+      entity instanceof Carnivore
+        ? this.getPackOrders(entity, nearbyEntities, entityRoom)
+        : undefined,
+      entity instanceof Carnivore && entityRoom
+        ? EcoSimulation.getAmbushSpots(entityRoom)
+        : undefined
+    );
+
+    entity.behaviorState = aiResult.state; // Set behavior state, not life state
+    if (isCreature) {
+      creature.memories = ai.getMemoryPoints();
+    }
+    const previousPosition = { x: entity.position.x, y: entity.position.y };
+
+    // Creatures short of food, hunted or crowded leave through a teleporter.
+    // On their way out they walk to it instead of where their AI steers.
+    const isMigrating =
+      isCreature && entityRoom
+        ? this.updateMigration(
+            creature,
+            entityRoom,
+            nearbyEntities,
+            creature.speed * speedFactor * deltaTime
+          )
+        : false;
+
+    // Faction members that wandered off their territory walk back instead
+    const faction = isCreature
+      ? FactionModel.getFaction(entityRoom, creature.faction)
+      : undefined;
+    const isReturning =
+      !isMigrating &&
+      faction !== undefined &&
+      aiResult.state === "wandering" &&
+      FactionModel.returnToTerritory(
+        creature,
+        faction,
+        creature.speed * speedFactor * deltaTime
+      );
+
+    // Update entity position from AI result
+    if (!isMigrating && !isReturning) {
+      entity.position.x = aiResult.position.x;
+      entity.position.y = aiResult.position.y;
+    }
+
+    // Herbivores keep how they moved for their herd mates to fall in line
+    if (entity instanceof Herbivore && deltaTime > 0) {
+      entity.velocity = {
+        x: (entity.position.x - previousPosition.x) / deltaTime,
+        y: (entity.position.y - previousPosition.y) / deltaTime,
+      };
+    }
+
+    // Keep entity within its own room bounds
+    if (entityRoom) {
+      this.clampToRoom(entity.position, entityRoom);
+    }
+  }
+
+  // What the leader of a carnivore's pack asks of it, given the entities the
+  // carnivore can see
+  private getPackOrders(
+    carnivore: Carnivore,
+    nearby: IEntity[],
+    room: Room | undefined
+  ): PackOrders | undefined {
+    const members = carnivore.pack ? this.packs.get(carnivore.pack) : undefined;
+    if (!members) return undefined;
+
+    const preyInSight = nearby.filter(
+      (e) =>
+        e.type === EntityType.HERBIVORE &&
+        e.state === EntityState.ALIVE &&
+        FactionModel.getRelation(room, carnivore, e) !== FactionRelation.ALLIED
+    );
+    return PackModel.getOrders(carnivore, members, preyInSight) ?? undefined;
+  }
+
+  // Places in a room prey passes by, for ambushers to lie in wait at
+  private static getAmbushSpots(room: Room): Position[] {
+    return room.teleporters.map(
+      (teleporter) =>
+        new Position(
+          teleporter.x + teleporter.width / 2,
+          teleporter.y + teleporter.height / 2
+        )
+    );
+  }
+
+  // Decide whether a creature leaves its room, and walk it to the exit.
+  // Returns true if the creature is on its way out.
+  private updateMigration(
+    creature: MigratingCreature,
+    room: Room,
+    nearby: IEntity[],
+    distance: number
+  ): boolean {
+    if (!creature.migratingTo) {
+      this.clock.tryTrigger(creature.id, Cooldown.MIGRATE, () => {
+        if (
+          MigrationModel.getReason(creature, nearby) &&
+          this.rng.next() < MigrationRates.DECISION_CHANCE
+        ) {
+          creature.migratingTo =
+            MigrationModel.findExit(room, creature.position)?.id ?? null;
+        }
+      });
+      if (!creature.migratingTo) return false;
+    }
+
+    const exit = room.teleporters.find(
+      (teleporter) => teleporter.id === creature.migratingTo
+    );
+    if (!exit) {
+      creature.migratingTo = null;
+      return false;
+    }
+
+    creature.behaviorState = "migrating";
+    if (MigrationModel.moveTowards(creature.position, exit, distance)) {
+      this.departures.push({ creature, exit });
+    }
+    return true;
+  }
+
+  // Move creatures that reached a teleporter this step into the linked room
+  private completeMigrations(): MigrationReport[] {
+    const reports: MigrationReport[] = [];
+    this.departures.forEach(({ creature, exit }) => {
+      creature.migratingTo = null;
+      // Killed or eaten on the doorstep
+      if (creature.state !== EntityState.ALIVE) return;
+
+      const origin = this.getRoom(creature.roomId);
+      const destination = this.getRoom(exit.connectedRoomId);
+      if (!origin || !destination) return;
+      const entrance = MigrationModel.findEntrance(destination, origin.id);
+      if (!entrance) return;
+
+      const aggregate = this.aggregates.get(destination.id);
+      if (aggregate) {
+        AggregateRoomModel.addMigrants(
+          aggregate,
+          AggregateRoomModel.toPopulation(creature)
+        );
+        this.removeEntity(creature.id);
+      } else {
+        creature.roomId = destination.id;
+        creature.position = MigrationModel.getArrivalPosition(entrance);
+        // Factions and packs belong to the room left behind
+        creature.faction = null;
+        if (creature instanceof Carnivore) {
+          creature.pack = null;
+          creature.packRole = null;
+        }
+        // The old AI only knew the room it left
+        this.aiCache.delete(creature.id);
+        this.spatialIndex.update(creature);
+      }
+
+      reports.push(
+        ...EcoSimulation.reportMigration(
+          creature.type,
+          creature.species,
+          origin,
+          destination
+        )
+      );
+    });
+    this.departures = [];
+    return reports;
+  }
+
+  // Starving animals of aggregated rooms move on to a neighboring room
+  private advanceAggregateMigration(deltaTime: number): MigrationReport[] {
+    const reports: MigrationReport[] = [];
+    this.aggregates.forEach((aggregate) => {
+      const origin = this.getRoom(aggregate.roomId);
+      if (!origin) return;
+      const exits = origin.teleporters.filter((teleporter) => {
+        const destination = this.getRoom(teleporter.connectedRoomId);
+        return (
+          destination && MigrationModel.findEntrance(destination, origin.id)
+        );
+      });
+      if (exits.length === 0) return;
+
+      AggregateRoomModel.takeEmigrants(aggregate, this.rng, deltaTime).forEach(
+        (emigrant) => {
+          const exit = this.rng.pick(exits);
+          const destination = this.getRoom(exit.connectedRoomId)!;
+          const entrance = MigrationModel.findEntrance(destination, origin.id)!;
+
+          const destinationAggregate = this.aggregates.get(destination.id);
+          if (destinationAggregate) {
+            AggregateRoomModel.addMigrants(destinationAggregate, emigrant);
+          } else {
+            const entity = AggregateRoomModel.createEntity(
+              emigrant,
+              MigrationModel.getArrivalPosition(entrance),
+              destination.id,
+              this.rng,
+              (prefix) => this.nextEntityId(prefix)
+            );
+            if (entity) {
+              this.addEntity(entity);
+            }
+          }
+
+          reports.push(
+            ...EcoSimulation.reportMigration(
+              emigrant.type,
+              emigrant.species,
+              origin,
+              destination
+            )
+          );
+        }
+      );
+    });
+    return reports;
+  }
+
+  // Game log lines for a creature moving between two rooms
+  private static reportMigration(
+    type: EntityTypeValue,
+    species: string,
+    origin: Room,
+    destination: Room
+  ): MigrationReport[] {
+    const { icon } = SpeciesRegistry.getSprite(type, species);
+    return [
+      {
+        roomId: origin.id,
+        message: `${icon} A ${species} leaves for the ${
+          BiomeRegistry.getOrDefault(destination.biome).name
+        }`,
+      },
+      {
+        roomId: destination.id,
+        message: `${icon} A ${species} arrives from the ${
+          BiomeRegistry.getOrDefault(origin.biome).name
+        }`,
+      },
+    ];
+  }
+
+  // Handle entity interactions (predation, reproduction, etc.)
+  private handleEntityInteractions(entities: IEntity[]): IEntity[] {
+    const newEntities = [...entities];
+
+    // Handle carnivore hunting and eating
+    entities.forEach((carnivoreEntity) => {
+      if (
+        carnivoreEntity.type === EntityType.CARNIVORE &&
+        carnivoreEntity.state === EntityState.ALIVE
+      ) {
+        const carnivore = carnivoreEntity as Carnivore;
+        // Attack and eating range
+        const nearbyHerbivores = this.spatialIndex
+          .queryRadius(carnivore.roomId, carnivore.position, 30)
+          .filter((e) => e.type === EntityType.HERBIVORE) as Herbivore[];
+
+        // Allied prey is left alone
+        const room = this.getRoom(carnivore.roomId);
+        const nearbyLiveHerbivores = nearbyHerbivores.filter(
+          (e) =>
+            (e.state === EntityState.ALIVE ||
+              e.state === EntityState.FLEEING) &&
+            FactionModel.getRelation(room, carnivore, e) !==
+              FactionRelation.ALLIED
+        );
+
+        const nearbyDeadHerbivores = nearbyHerbivores.filter(
+          (e) => e.state === EntityState.DEAD && e.weight > 0
+        );
+
+        const isHunting = carnivore.behaviorState === "hunting";
+        const isEating = carnivore.behaviorState === "eating";
+        const isFull = carnivore.hunger <= 0;
+
+        // Handle eating dead prey (higher priority)
+        if (isEating && nearbyDeadHerbivores.length > 0 && !isFull) {
+          const closestDeadPrey = this.findClosest(
+            carnivore.position,
+            nearbyDeadHerbivores
+          );
+
+          // Eating cooldown in simulated time
+          this.clock.tryTrigger(carnivore.id, Cooldown.EAT, () => {
+            const weightBefore = closestDeadPrey.weight;
+            const hungerBefore = carnivore.hunger;
+            carnivore.hunt(closestDeadPrey); // Use hunt method to eat dead prey
+            DiseaseModel.exposeToCarcass(carnivore, closestDeadPrey, this.rng);
+            this.applyFoodEfficiency(carnivore, hungerBefore, closestDeadPrey);
+            // Pack mates close by get their share of the kill
+            PackModel.shareMeal(
+              carnivore,
+              hungerBefore,
+              this.spatialIndex.queryRadius(
+                carnivore.roomId,
+                carnivore.position,
+                PackRates.SHARE_RANGE
+              )
+            );
+            this.leaveDroppings(
+              carnivore,
+              weightBefore - closestDeadPrey.weight
+            );
+          });
+        }
+        // Handle hunting live prey
+        else if (isHunting && nearbyLiveHerbivores.length > 0 && !isFull) {
+          const closestLivePrey = this.findClosest(
+            carnivore.position,
+            nearbyLiveHerbivores
+          );
+
+          // Hunting cooldown in simulated time. Large prey often gets away
+          // from a lone hunter.
+          this.clock.tryTrigger(carnivore.id, Cooldown.HUNT, () => {
+            const chance = PackModel.getAttackChance(
+              carnivore,
+              closestLivePrey
+            );
+            if (chance >= 1 || this.rng.next() < chance) {
+              carnivore.hunt(closestLivePrey);
+              this.reportAttack(closestLivePrey);
+            }
+          });
+        }
+      }
+    });
+
+    // Handle herbivore eating
+    entities.forEach((herbivoreEntity) => {
+      if (
+        herbivoreEntity.type === EntityType.HERBIVORE &&
+        herbivoreEntity.state === EntityState.ALIVE
+      ) {
+        const herbivore = herbivoreEntity as Herbivore;
+        const nearbyPlants = this.spatialIndex
+          .queryRadius(herbivore.roomId, herbivore.position, 25) // Eating range
+          .filter(
+            (e) =>
+              e.type === EntityType.PLANT &&
+              (e.state === EntityState.ALIVE ||
+                (e.state === EntityState.DEAD && e.weight > 0))
+          ) as Plant[];
+
+        // Only eat when in EATING state and close to food
+        const isEating = herbivore.behaviorState === "eating";
+        const isFull = herbivore.hunger <= 0;
+
+        if (isEating && nearbyPlants.length > 0 && !isFull) {
+          const closestPlant = this.findClosest(
+            herbivore.position,
+            nearbyPlants
+          );
+
+          // Eating cooldown in simulated time
+          this.clock.tryTrigger(herbivore.id, Cooldown.EAT, () => {
+            const weightBefore = closestPlant.weight;
+            const hungerBefore = herbivore.hunger;
+            herbivore.eat(closestPlant);
+            this.applyFoodEfficiency(herbivore, hungerBefore, closestPlant);
+            this.leaveDroppings(herbivore, weightBefore - closestPlant.weight);
+          });
+        }
+      }
+    });
+
+    // Handle decomposers breaking down carcasses of any kind
+    entities.forEach((decomposerEntity) => {
+      if (
+        decomposerEntity.type === EntityType.DECOMPOSER &&
+        decomposerEntity.state === EntityState.ALIVE
+      ) {
+        const decomposer = decomposerEntity as Decomposer;
+        const nearbyCarcasses = this.spatialIndex
+          .queryRadius(decomposer.roomId, decomposer.position, 25) // Feeding range
+          .filter((e) => CarcassDecay.isCarcass(e) && e.weight > 0);
+
+        const isEating = decomposer.behaviorState === "eating";
+        const isFull = decomposer.hunger <= 0;
+
+        if (isEating && nearbyCarcasses.length > 0 && !isFull) {
+          const closestCarcass = this.findClosest(
+            decomposer.position,
+            nearbyCarcasses
+          );
+
+          this.clock.tryTrigger(decomposer.id, Cooldown.EAT, () => {
+            // A fresh carcass starts to rot once decomposers move in
+            CarcassDecay.beginDecay(closestCarcass);
+            const hungerBefore = decomposer.hunger;
+            const consumed = decomposer.decompose(closestCarcass);
+            DiseaseModel.exposeToCarcass(decomposer, closestCarcass, this.rng);
+            this.applyFoodEfficiency(decomposer, hungerBefore);
+            this.returnToSoil(
+              decomposer.roomId,
+              closestCarcass.position,
+              consumed * CarcassDecayRates.DECOMPOSER_NUTRIENT_RETURN
+            );
+          });
+        }
+      }
+    });
+
+    // Handle reproduction
+    entities.forEach((reproducingEntity) => {
+      if (reproducingEntity.state === EntityState.REPRODUCING) {
+        const parentRoom = this.getRoom(reproducingEntity.roomId);
+        const newPosition =
+          reproducingEntity.type === EntityType.PLANT && parentRoom
+            ? this.findFertileSpot(reproducingEntity.position, parentRoom)
+            : this.randomOffspringPosition(reproducingEntity.position);
+
+        // Ensure offspring stays within the parent's room bounds
+        if (parentRoom) {
+          this.clampToRoom(newPosition, parentRoom);
+        }
+
+        let newEntity: IEntity;
+        if (reproducingEntity.type === EntityType.PLANT) {
+          const plant = reproducingEntity as Plant;
+          newEntity = new Plant(
+            this.nextEntityId("plant"),
+            newPosition,
+            plant.species,
+            reproducingEntity.roomId
+          );
+        } else if (reproducingEntity.type === EntityType.HERBIVORE) {
+          const herbivore = reproducingEntity as Herbivore;
+          const offspring = new Herbivore(
+            this.nextEntityId("herbivore"),
+            newPosition,
+            herbivore.species,
+            reproducingEntity.roomId
+          );
+          Genetics.inherit(herbivore, offspring, this.rng);
+          offspring.faction = herbivore.faction;
+          newEntity = offspring;
+        } else if (reproducingEntity.type === EntityType.CARNIVORE) {
+          const carnivore = reproducingEntity as Carnivore;
+          const offspring = new Carnivore(
+            this.nextEntityId("carnivore"),
+            newPosition,
+            carnivore.species,
+            reproducingEntity.roomId
+          );
+          Genetics.inherit(carnivore, offspring, this.rng);
+          offspring.faction = carnivore.faction;
+          newEntity = offspring;
+        } else if (reproducingEntity.type === EntityType.DECOMPOSER) {
+          const decomposer = reproducingEntity as Decomposer;
+          const offspring = new Decomposer(
+            this.nextEntityId("decomposer"),
+            newPosition,
+            decomposer.species,
+            reproducingEntity.roomId
+          );
+          Genetics.inherit(decomposer, offspring, this.rng);
+          offspring.faction = decomposer.faction;
+          newEntity = offspring;
+        } else {
+          return;
+        }
+
+        newEntities.push(newEntity);
+        this.spatialIndex.insert(newEntity);
+        reproducingEntity.state = EntityState.ALIVE;
+      }
+    });
+
+    return newEntities;
+  }
+
+  // Deterministic id for entities spawned or placed during the run
+  nextEntityId(prefix: string): string {
+    this.spawnCounter++;
+    return `${prefix}_spawn_${this.spawnCounter}`;
+  }
+
+  // Return kg of dead matter to the soil at a position
+  private returnToSoil(roomId: string, position: Position, kg: number): void {
+    if (kg <= 0) return;
+
+    const room = this.getRoom(roomId);
+    if (room) {
+      SoilModel.deposit(room, position, kg);
+    }
+  }
+
+  // Run the weather of every room and note the season and weather factors
+  // for this step. Returns the weather changes.
+  private advanceWeather(deltaTime: number): WeatherReport[] {
+    const reports: WeatherReport[] = [];
+    this.rooms.forEach((room) => {
+      const message = WeatherSystem.advance(
+        room,
+        this.clock.now(),
+        this.rng,
+        deltaTime
+      );
+      if (message) {
+        reports.push({ roomId: room.id, message });
+      }
+      this.environment.set(
+        room.id,
+        WeatherSystem.getModifiers(room, this.clock.now())
+      );
+    });
+    return reports;
+  }
+
+  // Count the native and foreign life of every room. Returns a report for
+  // each foreign species that has just become established in a room.
+  private surveyInvasions(): InvasionReport[] {
+    const reports: InvasionReport[] = [];
+    this.rooms.forEach((room) => {
+      const aggregate = this.aggregates.get(room.id);
+      const members = aggregate
+        ? aggregate.populations
+        : InvasionModel.countEntities(
+            this.entities.filter((e) => e.roomId === room.id)
+          );
+      const survey = InvasionModel.survey(members, room.biome);
+      this.invasions.set(room.id, survey);
+
+      const known = this.knownInvaders.get(room.id) || new Set<string>();
+      this.knownInvaders.set(room.id, known);
+      // Forget invaders that died out so a return is reported again
+      known.forEach((species) => {
+        if ((survey.invaders[species] ?? 0) < 1) known.delete(species);
+      });
+      Object.entries(survey.invaders).forEach(([species, count]) => {
+        if (count < InvasionRates.ESTABLISHED || known.has(species)) return;
+        known.add(species);
+        const member = members.find((m) => m.species === species);
+        const icon = member
+          ? SpeciesRegistry.getSprite(member.type, species).icon
+          : "";
+        reports.push({
+          roomId: room.id,
+          message: `⚠️ ${icon} Invasive ${species} established in the ${
+            BiomeRegistry.getOrDefault(room.biome).name
+          }`,
+        });
+      });
+    });
+    return reports;
+  }
+
+  // Foreign share of the life of all rooms, or of one room
+  private getInvasiveShare(roomId?: string): number {
+    let total = 0;
+    let invasive = 0;
+    this.invasions.forEach((survey, id) => {
+      if (roomId !== undefined && id !== roomId) return;
+      total += survey.total;
+      invasive += survey.invasive;
+    });
+    return total > 0 ? invasive / total : 0;
+  }
+
+  private getInvasionReproductionFactor(entity: IEntity): number {
+    const room = this.getRoom(entity.roomId);
+    return room
+      ? InvasionModel.getReproductionFactor(
+          entity,
+          room.biome,
+          this.invasions.get(room.id)
+        )
+      : 1;
+  }
+
+  private getEnvironment(roomId: string): EnvironmentModifiers {
+    return (
+      this.environment.get(roomId) || {
+        speedMultiplier: 1,
+        foodEfficiency: 1,
+        reproductionRate: 1,
+      }
+    );
+  }
+
+  // Scale the hunger an animal just relieved by its room's food efficiency
+  // and, for food of a known species, by how familiar the food is to it
+  private applyFoodEfficiency(
+    animal: Herbivore | Carnivore | Decomposer,
+    hungerBefore: number,
+    food?: IEntity
+  ): void {
+    const relief = hungerBefore - animal.hunger;
+    const foodEfficiency =
+      this.getEnvironment(animal.roomId).foodEfficiency *
+      (food ? InvasionModel.getFoodEfficiency(animal, food) : 1);
+    animal.hunger = Math.max(0, hungerBefore - relief * foodEfficiency);
+  }
+
+  // Part of what an animal eats ends up in the soil where it stands
+  private leaveDroppings(animal: IEntity, eatenKg: number): void {
+    this.returnToSoil(
+      animal.roomId,
+      animal.position,
+      eatenKg * SoilRates.DROPPINGS_RETURN
+    );
+  }
+
+  private randomOffspringPosition(parent: Position): Position {
+    return new Position(
+      parent.x + (this.rng.next() - 0.5) * 200,
+      parent.y + (this.rng.next() - 0.5) * 200
+    );
+  }
+
+  // A seed from the soil takes root where plants are not crowded already
+  private sproutPlant(room: Room, deltaTime: number): void {
+    const position = SoilModel.findSprout(room, this.rng, deltaTime);
+    if (!position) return;
+    this.clampToRoom(position, room);
+
+    const crowd = this.spatialIndex
+      .queryRadius(room.id, position, SoilRates.CELL_SIZE)
+      .filter(
+        (e) => e.type === EntityType.PLANT && e.state === EntityState.ALIVE
+      ).length;
+    const { plants } = SpeciesRegistry.getBiomeSpecies(room.biome);
+    if (crowd >= SoilRates.SPROUT_CROWDING || plants.length === 0) return;
+
+    this.addEntity(
+      new Plant(
+        this.nextEntityId("plant"),
+        position,
+        this.rng.pick(plants),
+        room.id
+      )
+    );
+  }
+
+  // Seeds land around the parent and take root in the most fertile spot
+  private findFertileSpot(parent: Position, room: Room): Position {
+    let best = this.randomOffspringPosition(parent);
+    let bestFertility = SoilModel.getFertility(room, best);
+
+    for (let i = 1; i < SEED_CANDIDATES; i++) {
+      const candidate = this.randomOffspringPosition(parent);
+      const fertility = SoilModel.getFertility(room, candidate);
+      if (fertility > bestFertility) {
+        best = candidate;
+        bestFertility = fertility;
+      }
+    }
+
+    return best;
+  }
+
+  private findClosest<T extends IEntity>(origin: Position, candidates: T[]): T {
+    return candidates.reduce((closest, candidate) => {
+      const distance = origin.distanceTo(candidate.position);
+      const closestDistance = origin.distanceTo(closest.position);
+      return distance < closestDistance ? candidate : closest;
+    });
+  }
+
+  // Clamp a position to a room's walkable area
+  private clampToRoom(position: Position, room: Room): void {
+    position.x = Math.max(
+      room.x + 50,
+      Math.min(room.x + room.width - 50, position.x)
+    );
+    position.y = Math.max(
+      room.y + 50,
+      Math.min(room.y + room.height - 50, position.y)
+    );
+  }
+}
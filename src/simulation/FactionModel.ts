@@ -0,0 +1,224 @@
+import {
+  Carnivore,
+  Decomposer,
+  EntityType,
+  Faction,
+  FactionRelation,
+  FactionRelationValue,
+  Herbivore,
+  IEntity,
+  Position,
+  Room,
+} from "../types/gameTypes";
+import { SeededRandom } from "../utils/SeededRandom";
+import { BiomeRegistry } from "../biomes/BiomeRegistry";
+
+// Creatures that can belong to a faction
+export type FactionMember = Herbivore | Carnivore | Decomposer;
+
+// Part of a room needed to lay out its factions
+export type FactionBounds = Pick<
+  Room,
+  "id" | "x" | "y" | "width" | "height" | "biome"
+>;
+
+// Names and colors handed out to the factions of a room in order
+const Banners: { name: string; color: string }[] = [
+  { name: "Red Claw", color: "#ef4444" },
+  { name: "Blue Fang", color: "#3b82f6" },
+  { name: "Gold Mane", color: "#eab308" },
+  { name: "Green Tail", color: "#22c55e" },
+  { name: "Violet Eye", color: "#a855f7" },
+  { name: "Ash Hide", color: "#94a3b8" },
+];
+
+export const FactionRates = {
+  TERRITORY: 0.25, // Territory radius as a share of the room's shorter side
+  SPREAD: 0.3, // Distance of territories from the room center, likewise
+  ALLIED_STANDING: 50, // Player standing at which a faction trusts the player
+  HOSTILE_STANDING: -50, // Player standing at which a faction hates the player
+  ATTACK: -20, // Standing change for attacking a member
+  GATHER: -30, // Standing change for carrying a member off
+  RESTORE: 5, // Standing change for healing members
+  RIVAL_SHARE: 0.5, // Share of a change hostile factions feel the other way
+} as const;
+
+// Rival groups of creatures within a room. Each faction holds a territory
+// its members return to, gets along with the other factions of the room
+// as rolled from the biome's hostility and keeps track of how the player
+// has treated its members.
+export class FactionModel {
+  // Factions of a new room, as its biome's settings ask for
+  static create(room: FactionBounds, rng: SeededRandom): Faction[] {
+    const { hasFactions, factionCount, hostilityLevel } =
+      BiomeRegistry.getOrDefault(room.biome).factionSettings;
+    if (!hasFactions || factionCount < 1) return [];
+
+    const side = Math.min(room.width, room.height);
+    const centerX = room.x + room.width / 2;
+    const centerY = room.y + room.height / 2;
+    const spread = factionCount > 1 ? side * FactionRates.SPREAD : 0;
+    const startAngle = rng.next() * Math.PI * 2;
+
+    const factions: Faction[] = [];
+    for (let i = 0; i < factionCount; i++) {
+      const banner = Banners[i % Banners.length]!;
+      const round = Math.floor(i / Banners.length);
+      const angle = startAngle + (i / factionCount) * Math.PI * 2;
+      factions.push({
+        id: `faction_${room.id}_${i}`,
+        name: round > 0 ? `${banner.name} ${round + 1}` : banner.name,
+        color: banner.color,
+        territory: {
+          x: centerX + Math.cos(angle) * spread,
+          y: centerY + Math.sin(angle) * spread,
+          radius: side * FactionRates.TERRITORY,
+        },
+        relations: {},
+        standing: 0,
+      });
+    }
+
+    // The more hostile the biome, the more factions are at war. The rest
+    // are split between alliances and uneasy truces.
+    const hostileChance = hostilityLevel / 10;
+    factions.forEach((faction, i) => {
+      factions.slice(i + 1).forEach((other) => {
+        const roll = rng.next();
+        const relation =
+          roll < hostileChance
+            ? FactionRelation.HOSTILE
+            : roll < hostileChance + (1 - hostileChance) / 2
+            ? FactionRelation.ALLIED
+            : FactionRelation.NEUTRAL;
+        faction.relations[other.id] = relation;
+        other.relations[faction.id] = relation;
+      });
+    });
+
+    return factions;
+  }
+
+  static isMember(entity: IEntity): entity is FactionMember {
+    return (
+      entity.type === EntityType.HERBIVORE ||
+      entity.type === EntityType.CARNIVORE ||
+      entity.type === EntityType.DECOMPOSER
+    );
+  }
+
+  // Enlist a creature in the faction whose territory is closest to it
+  static join(room: Room, creature: FactionMember): void {
+    let closest: Faction | null = null;
+    let closestDistance = Infinity;
+    for (const faction of room.factions) {
+      const distance = creature.position.distanceTo(
+        FactionModel.getCenter(faction)
+      );
+      if (distance < closestDistance) {
+        closest = faction;
+        closestDistance = distance;
+      }
+    }
+    creature.faction = closest ? closest.id : null;
+  }
+
+  static getFaction(
+    room: Room | undefined,
+    factionId: string | null
+  ): Faction | undefined {
+    if (!room || !factionId) return undefined;
+    return room.factions.find((faction) => faction.id === factionId);
+  }
+
+  // How one entity's faction sees another's. Members of the same faction are
+  // allies; anything without a faction is neutral.
+  static getRelation(
+    room: Room | undefined,
+    entity: IEntity,
+    other: IEntity
+  ): FactionRelationValue {
+    if (!FactionModel.isMember(entity) || !FactionModel.isMember(other)) {
+      return FactionRelation.NEUTRAL;
+    }
+    if (!entity.faction || !other.faction) return FactionRelation.NEUTRAL;
+    if (entity.faction === other.faction) return FactionRelation.ALLIED;
+
+    return (
+      FactionModel.getFaction(room, entity.faction)?.relations[
+        other.faction
+      ] ?? FactionRelation.NEUTRAL
+    );
+  }
+
+  static getPlayerRelation(faction: Faction): FactionRelationValue {
+    if (faction.standing >= FactionRates.ALLIED_STANDING) {
+      return FactionRelation.ALLIED;
+    }
+    if (faction.standing <= FactionRates.HOSTILE_STANDING) {
+      return FactionRelation.HOSTILE;
+    }
+    return FactionRelation.NEUTRAL;
+  }
+
+  // Change how a faction sees the player. Its enemies see the player the
+  // other way by a share of the change. Returns news of every faction whose
+  // relation with the player changed.
+  static changeStanding(
+    room: Room,
+    factionId: string,
+    amount: number
+  ): string[] {
+    const messages: string[] = [];
+    room.factions.forEach((faction) => {
+      const change =
+        faction.id === factionId
+          ? amount
+          : faction.relations[factionId] === FactionRelation.HOSTILE
+          ? -amount * FactionRates.RIVAL_SHARE
+          : 0;
+      if (change === 0) return;
+
+      const before = FactionModel.getPlayerRelation(faction);
+      faction.standing = Math.max(
+        -100,
+        Math.min(100, faction.standing + change)
+      );
+      const after = FactionModel.getPlayerRelation(faction);
+      if (after !== before) {
+        messages.push(
+          `🏳️ The ${faction.name} now see you as ${
+            after === FactionRelation.ALLIED
+              ? "an ally"
+              : after === FactionRelation.HOSTILE
+              ? "an enemy"
+              : "neither friend nor foe"
+          }`
+        );
+      }
+    });
+    return messages;
+  }
+
+  // Walk a member that strayed from its territory back towards it. Returns
+  // true if the creature was moved.
+  static returnToTerritory(
+    creature: FactionMember,
+    faction: Faction,
+    distance: number
+  ): boolean {
+    const center = FactionModel.getCenter(faction);
+    const remaining = creature.position.distanceTo(center);
+    if (remaining <= faction.territory.radius) return false;
+
+    const scale =
+      Math.min(distance, remaining - faction.territory.radius) / remaining;
+    creature.position.x += (center.x - creature.position.x) * scale;
+    creature.position.y += (center.y - creature.position.y) * scale;
+    return true;
+  }
+
+  private static getCenter(faction: Faction): Position {
+    return new Position(faction.territory.x, faction.territory.y);
+  }
+}
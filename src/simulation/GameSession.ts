@@ -0,0 +1,447 @@
+import {
+  EntityState,
+  EntityType,
+  IEntity,
+  PlayerAction,
+  PlayerActionValue,
+  Position,
+  Player,
+  Room,
+} from "../types/gameTypes";
+import { DungeonGenerator } from "../factories/DungeonGenerator";
+import { LoadedGame } from "../persistence/SaveGame";
+import { SeededRandom } from "../utils/SeededRandom";
+import { EcoSimulation, SimulationStepResult } from "./EcoSimulation";
+import { AtmosphereModel, AtmosphereRates } from "./AtmosphereModel";
+import { DiseaseModel } from "./DiseaseModel";
+import { FactionModel, FactionRates } from "./FactionModel";
+import { PlayerInput, PlayerInputType, SkillType } from "./PlayerInput";
+
+// Fixed simulation step used by the game loop and replays (30 FPS)
+export const SIMULATION_STEP = 1 / 30;
+
+// Player movement speed in pixels per simulated second
+const PLAYER_MOVEMENT_SPEED = 900;
+
+// Keep the player this far inside the room walls
+const ROOM_PADDING = 50;
+
+// Headless game session - the simulation plus the player and everything the
+// player can change. All player inputs go through applyInput so a recorded
+// run replays identically.
+export class GameSession {
+  private simulation: EcoSimulation;
+  private player: Player | null = null;
+  private currentRoomId: string = "";
+  // Current joystick vector, applied on every step
+  private moveDirection: { x: number; y: number } = { x: 0, y: 0 };
+  private teleporterStates: { [teleporterId: string]: boolean } = {};
+  // Number of steps taken since the session started
+  private tick: number = 0;
+
+  constructor(simulation: EcoSimulation = new EcoSimulation()) {
+    this.simulation = simulation;
+  }
+
+  // Generate a new world. Passing the same seed reproduces the same world.
+  start(characterClass: string = "wanderer", seed?: number): void {
+    const rng = new SeededRandom(seed);
+
+    // Generate multiple rooms using DungeonGenerator
+    const rooms = DungeonGenerator.generateDungeon(rng);
+    const startingRoom = rooms[0]; // Start in the first room
+
+    if (!startingRoom) {
+      throw new Error("Failed to generate starting room");
+    }
+
+    const roomCenterX = startingRoom.x + startingRoom.width / 2;
+    const roomCenterY = startingRoom.y + startingRoom.height / 2;
+
+    this.player = new Player(
+      "player_1",
+      new Position(roomCenterX, roomCenterY),
+      characterClass,
+      startingRoom.id
+    );
+    this.currentRoomId = startingRoom.id;
+
+    // Hand the world to the simulation, which combines all room entities,
+    // then fully simulate only the room the player is in
+    this.simulation.initialize(rooms, rng);
+    this.simulation.setActiveRoom(startingRoom.id);
+    this.resetPlayerState(rooms);
+  }
+
+  // Resume from a loaded save game
+  restore(loaded: LoadedGame): void {
+    this.simulation.restore(loaded.simulation);
+    this.player = loaded.player;
+    this.currentRoomId = loaded.currentRoomId;
+    this.simulation.setActiveRoom(loaded.currentRoomId);
+    this.moveDirection = { x: 0, y: 0 };
+    this.teleporterStates = { ...loaded.teleporterStates };
+    this.tick = loaded.tick;
+  }
+
+  reset(): void {
+    this.simulation.reset();
+    this.player = null;
+    this.currentRoomId = "";
+    this.resetPlayerState([]);
+  }
+
+  getSimulation(): EcoSimulation {
+    return this.simulation;
+  }
+
+  getPlayer(): Player | null {
+    return this.player;
+  }
+
+  getCurrentRoomId(): string {
+    return this.currentRoomId;
+  }
+
+  getMoveDirection(): { x: number; y: number } {
+    return this.moveDirection;
+  }
+
+  getTeleporterStates(): { [teleporterId: string]: boolean } {
+    return this.teleporterStates;
+  }
+
+  getTick(): number {
+    return this.tick;
+  }
+
+  // Move the player, then advance the ecosystem by deltaTime seconds
+  step(deltaTime: number): SimulationStepResult {
+    this.updatePlayerMovement(deltaTime);
+    this.updatePlayerBreathing(deltaTime);
+    this.tick++;
+    return this.simulation.step(deltaTime);
+  }
+
+  // Apply a player input. Returns the messages it produced.
+  applyInput(input: PlayerInput): string[] {
+    if (!this.player) return [];
+
+    switch (input.type) {
+      case PlayerInputType.MOVE:
+        this.moveDirection = { x: input.direction.x, y: input.direction.y };
+        return [];
+      case PlayerInputType.MOVE_TO:
+        this.player.move(
+          this.clampToCurrentRoom(
+            new Position(input.position.x, input.position.y)
+          )
+        );
+        return [];
+      case PlayerInputType.ACTION:
+        return this.performAction(input.action, input.targetEntityId);
+      case PlayerInputType.ACTIVATE_TELEPORTER:
+        this.setTeleporterActivated(input.teleporterId, input.activated);
+        return [];
+      case PlayerInputType.TELEPORT:
+        this.teleport(input.teleporterId);
+        return [];
+      case PlayerInputType.ALLOCATE_SKILL:
+        return this.allocateSkillPoint(input.skill);
+      case PlayerInputType.HEAL:
+        this.player.heal();
+        return [];
+    }
+  }
+
+  private resetPlayerState(rooms: Room[]): void {
+    this.moveDirection = { x: 0, y: 0 };
+    this.tick = 0;
+
+    // All teleporters start deactivated
+    this.teleporterStates = {};
+    rooms.forEach((room) => {
+      room.teleporters.forEach((teleporter) => {
+        this.teleporterStates[teleporter.id] = false;
+      });
+    });
+  }
+
+  private updatePlayerMovement(deltaTime: number): void {
+    if (!this.player) return;
+    if (this.moveDirection.x === 0 && this.moveDirection.y === 0) return;
+
+    const distance = PLAYER_MOVEMENT_SPEED * deltaTime;
+    this.player.position = this.clampToCurrentRoom(
+      new Position(
+        this.player.position.x + this.moveDirection.x * distance,
+        this.player.position.y + this.moveDirection.y * distance
+      )
+    );
+  }
+
+  // Constrain a player position to the current room
+  private clampToCurrentRoom(position: Position): Position {
+    const currentRoom = this.simulation.getRoom(this.currentRoomId);
+    if (currentRoom) {
+      position.x = Math.max(
+        currentRoom.x + ROOM_PADDING,
+        Math.min(currentRoom.x + currentRoom.width - ROOM_PADDING, position.x)
+      );
+      position.y = Math.max(
+        currentRoom.y + ROOM_PADDING,
+        Math.min(currentRoom.y + currentRoom.height - ROOM_PADDING, position.y)
+      );
+    }
+    return position;
+  }
+
+  // Thin or contaminated air tires the player out
+  private updatePlayerBreathing(deltaTime: number): void {
+    if (!this.player) return;
+
+    const currentRoom = this.simulation.getRoom(this.currentRoomId);
+    if (!currentRoom) return;
+
+    const suffocation = AtmosphereModel.getSuffocation(currentRoom.atmosphere);
+    if (suffocation <= 0) return;
+
+    this.player.energy = Math.max(
+      0,
+      this.player.energy -
+        AtmosphereRates.PLAYER_ENERGY_DRAIN * suffocation * deltaTime
+    );
+  }
+
+  private performAction(
+    action: PlayerActionValue,
+    targetEntityId?: string
+  ): string[] {
+    const player = this.player;
+    if (!player) return [];
+
+    const targetEntity = targetEntityId
+      ? this.simulation.getEntities().find((e) => e.id === targetEntityId)
+      : undefined;
+    // Check if player leveled up during this action
+    const previousLevel = player.level;
+    let message = "";
+    // Factions that changed their view of the player
+    const factionNews: string[] = [];
+
+    switch (action) {
+      case PlayerAction.GATHER:
+        if (
+          targetEntity &&
+          targetEntity.position.distanceTo(player.position) <= 50
+        ) {
+          player.gather(targetEntity);
+          this.simulation.removeEntity(targetEntity.id);
+          message = `Gathered ${targetEntity.type}`;
+          factionNews.push(
+            ...this.changeStanding(targetEntity, FactionRates.GATHER)
+          );
+        } else {
+          message = "No target to gather nearby";
+        }
+        break;
+
+      case PlayerAction.ATTACK:
+        if (
+          targetEntity &&
+          targetEntity.position.distanceTo(player.position) <= 50
+        ) {
+          player.attack(targetEntity);
+          this.simulation.reportAttack(targetEntity);
+          message = `Attacked ${targetEntity.type}`;
+          factionNews.push(
+            ...this.changeStanding(targetEntity, FactionRates.ATTACK)
+          );
+        } else {
+          message = "No target to attack nearby";
+        }
+        break;
+
+      case PlayerAction.PLANT:
+        const newPlant = player.plant(
+          "moss",
+          new Position(player.position.x, player.position.y)
+        );
+        newPlant.id = this.simulation.nextEntityId("plant");
+        newPlant.roomId = this.currentRoomId;
+        this.simulation.addEntity(newPlant);
+        message = "Planted new moss";
+        break;
+
+      case PlayerAction.OBSERVE:
+        player.observe();
+        // Find nearby entities for observation
+        const nearbyEntities = this.simulation.queryNearby(
+          this.currentRoomId,
+          player.position,
+          100
+        );
+        const plantCount = nearbyEntities.filter(
+          (e) => e.type === EntityType.PLANT
+        ).length;
+        const herbivoreCount = nearbyEntities.filter(
+          (e) => e.type === EntityType.HERBIVORE
+        ).length;
+        const carnivoreCount = nearbyEntities.filter(
+          (e) => e.type === EntityType.CARNIVORE
+        ).length;
+        const decomposerCount = nearbyEntities.filter(
+          (e) => e.type === EntityType.DECOMPOSER
+        ).length;
+        message = `Observed: ${plantCount} plants, ${herbivoreCount} herbivores, ${carnivoreCount} carnivores, ${decomposerCount} decomposers`;
+        break;
+
+      case PlayerAction.RESTORE:
+        player.restore(player.position);
+        // Heal nearby entities
+        const entitiesToHeal = this.simulation.queryNearby(
+          this.currentRoomId,
+          player.position,
+          80
+        );
+        // Restoring also cures the sick and protects them for a while
+        let cured = 0;
+        const helped = new Map<string, IEntity>(); // One member per faction
+        entitiesToHeal.forEach((healingEntity) => {
+          if (
+            FactionModel.isMember(healingEntity) &&
+            healingEntity.faction &&
+            healingEntity.state === EntityState.ALIVE
+          ) {
+            helped.set(healingEntity.faction, healingEntity);
+          }
+          healingEntity.health = Math.min(
+            healingEntity.maxHealth,
+            healingEntity.health + 10
+          );
+          if (
+            DiseaseModel.isHost(healingEntity) &&
+            healingEntity.infection &&
+            healingEntity.state === EntityState.ALIVE
+          ) {
+            DiseaseModel.cure(healingEntity);
+            cured++;
+          }
+        });
+        message = `Restored area, healed ${entitiesToHeal.length} entities`;
+        if (cured > 0) {
+          message += `, cured ${cured}`;
+        }
+        helped.forEach((member) => {
+          factionNews.push(
+            ...this.changeStanding(member, FactionRates.RESTORE)
+          );
+        });
+        break;
+    }
+
+    if (player.level > previousLevel) {
+      return [
+        message,
+        ...factionNews,
+        `🎉 LEVEL UP! You are now level ${player.level}! You gained 2 skill points!`,
+      ];
+    }
+    return [message, ...factionNews];
+  }
+
+  // Let the faction of a creature the player acted on remember it
+  private changeStanding(entity: IEntity, amount: number): string[] {
+    const room = this.simulation.getRoom(entity.roomId);
+    if (!room || !FactionModel.isMember(entity) || !entity.faction) return [];
+    return FactionModel.changeStanding(room, entity.faction, amount);
+  }
+
+  // Activate or deactivate a teleporter together with its linked teleporter
+  private setTeleporterActivated(
+    teleporterId: string,
+    activated: boolean
+  ): void {
+    this.teleporterStates = {
+      ...this.teleporterStates,
+      [teleporterId]: activated,
+    };
+
+    const currentRoom = this.simulation.getRoom(this.currentRoomId);
+    const teleporter = currentRoom?.teleporters.find(
+      (t) => t.id === teleporterId
+    );
+    if (!currentRoom || !teleporter) return;
+
+    const connectedRoom = this.simulation.getRoom(teleporter.connectedRoomId);
+    const linkedTeleporter = connectedRoom?.teleporters.find(
+      (t) => t.connectedRoomId === currentRoom.id
+    );
+    if (linkedTeleporter) {
+      this.teleporterStates[linkedTeleporter.id] = activated;
+    }
+  }
+
+  // Move the player through a teleporter in the current room
+  private teleport(teleporterId: string): boolean {
+    if (!this.player) return false;
+
+    const currentRoom = this.simulation.getRoom(this.currentRoomId);
+    const teleporter = currentRoom?.teleporters.find(
+      (t) => t.id === teleporterId
+    );
+    if (!teleporter) return false;
+
+    const targetRoom = this.simulation.getRoom(teleporter.connectedRoomId);
+    const targetTeleporter = targetRoom?.teleporters.find(
+      (t) => t.connectedRoomId === this.currentRoomId
+    );
+    if (!targetRoom || !targetTeleporter) return false;
+
+    // Position player near the target teleporter but not exactly on it
+    // to avoid immediate re-teleportation
+    let offsetX = 0;
+    let offsetY = 0;
+
+    switch (targetTeleporter.direction) {
+      case "north":
+        offsetY = 200; // Move player 200px south of the teleporter
+        break;
+      case "south":
+        offsetY = -200; // Move player 200px north of the teleporter
+        break;
+      case "east":
+        offsetX = -200; // Move player 200px west of the teleporter
+        break;
+      case "west":
+        offsetX = 200; // Move player 200px east of the teleporter
+        break;
+    }
+
+    // Teleporter coordinates are already in world coordinates
+    this.player.position = new Position(
+      targetTeleporter.x + targetTeleporter.width / 2 + offsetX,
+      targetTeleporter.y + targetTeleporter.height / 2 + offsetY
+    );
+    this.player.roomId = targetRoom.id;
+    this.currentRoomId = targetRoom.id;
+
+    // Expand the room being entered and collapse the one being left
+    this.simulation.setActiveRoom(targetRoom.id);
+    return true;
+  }
+
+  private allocateSkillPoint(skill: SkillType): string[] {
+    if (!this.player || !this.player.allocateSkillPoint(skill)) return [];
+
+    const skillLevel =
+      skill === "observation"
+        ? this.player.observationSkill
+        : this.player.restorationSkill;
+    return [
+      `🎯 ${
+        skill.charAt(0).toUpperCase() + skill.slice(1)
+      } skill increased to ${skillLevel}!`,
+    ];
+  }
+}
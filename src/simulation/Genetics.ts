@@ -0,0 +1,160 @@
+import {
+  Carnivore,
+  Decomposer,
+  Genome,
+  EntityType,
+  Herbivore,
+  IEntity,
+  PersonalityTraits,
+} from "../types/gameTypes";
+import { SeededRandom } from "../utils/SeededRandom";
+
+// Creatures that carry a genome
+export type HeritableCreature = Herbivore | Carnivore | Decomposer;
+
+// Range each trait is kept within, however far it drifts
+const TraitLimits: Record<string, { min: number; max: number }> = {
+  speed: { min: 5, max: 250 },
+  weight: { min: 0.02, max: 500 },
+  grazingHungerThreshold: { min: 0.2, max: 0.95 },
+  eatingHungerThreshold: { min: 0.1, max: 0.9 },
+  stealthLevel: { min: 0, max: 1 },
+  detectionRange: { min: 5, max: 200 },
+  decompositionRate: { min: 0.005, max: 0.1 },
+};
+
+export const GeneticsRates = {
+  MUTATION: 0.08, // Largest relative change of a trait per generation
+  PERSONALITY_DRIFT: 0.1, // Largest change of a personality trait
+} as const;
+
+// Inheritance of traits from parent to offspring. Offspring start as copies
+// of the parent's genome with small random mutations; creatures that live
+// longer pass theirs on more often, so the population drifts over time.
+export class Genetics {
+  static isHeritable(entity: IEntity): entity is HeritableCreature {
+    return (
+      entity.type === EntityType.HERBIVORE ||
+      entity.type === EntityType.CARNIVORE ||
+      entity.type === EntityType.DECOMPOSER
+    );
+  }
+
+  // Give a newborn its parent's genome, mutated, and apply it
+  static inherit(
+    parent: HeritableCreature,
+    child: HeritableCreature,
+    rng: SeededRandom
+  ): void {
+    child.genome = Genetics.mutate(parent.genome, rng);
+    child.generation = parent.generation + 1;
+    Genetics.express(child);
+  }
+
+  static mutate(genome: Genome, rng: SeededRandom): Genome {
+    const spread = GeneticsRates.MUTATION;
+    const traits: Genome["traits"] = {};
+    Object.entries(genome.traits).forEach(([trait, value]) => {
+      const change = rng.range(-spread, spread);
+      traits[trait] = Genetics.limit(trait, value * (1 + change));
+    });
+
+    return {
+      traits,
+      personality: genome.personality
+        ? Genetics.mutatePersonality(genome.personality, rng)
+        : null,
+    };
+  }
+
+  // Mean of several genomes, each counted count times. Personality is
+  // averaged over the genomes that have one.
+  static average(members: { genome: Genome; count: number }[]): Genome | null {
+    const traitTotals: Genome["traits"] = {};
+    const personalityTotals: PersonalityTraits = {
+      boldness: 0,
+      sociability: 0,
+      aggression: 0,
+      energy: 0,
+    };
+    let total = 0;
+    let personalityTotal = 0;
+
+    members.forEach(({ genome, count }) => {
+      if (count <= 0) return;
+      total += count;
+      Object.entries(genome.traits).forEach(([trait, value]) => {
+        traitTotals[trait] = (traitTotals[trait] ?? 0) + value * count;
+      });
+      const { personality } = genome;
+      if (personality) {
+        personalityTotal += count;
+        personalityTotals.boldness += personality.boldness * count;
+        personalityTotals.sociability += personality.sociability * count;
+        personalityTotals.aggression += personality.aggression * count;
+        personalityTotals.energy += personality.energy * count;
+      }
+    });
+    if (total === 0) return null;
+
+    const traits: Genome["traits"] = {};
+    Object.entries(traitTotals).forEach(([trait, value]) => {
+      traits[trait] = value / total;
+    });
+    return {
+      traits,
+      personality:
+        personalityTotal > 0
+          ? {
+              boldness: personalityTotals.boldness / personalityTotal,
+              sociability: personalityTotals.sociability / personalityTotal,
+              aggression: personalityTotals.aggression / personalityTotal,
+              energy: personalityTotals.energy / personalityTotal,
+            }
+          : null,
+    };
+  }
+
+  // Write the genome's traits onto the creature's own fields
+  static express(creature: HeritableCreature): void {
+    const fields = creature as unknown as Record<string, unknown>;
+    const previousWeight = creature.weight;
+
+    Object.entries(creature.genome.traits).forEach(([trait, value]) => {
+      if (typeof fields[trait] === "number") {
+        fields[trait] = value;
+      }
+    });
+
+    // Bigger bodies hold more food
+    if (previousWeight > 0) {
+      creature.maxHunger *= creature.weight / previousWeight;
+    }
+  }
+
+  private static mutatePersonality(
+    personality: PersonalityTraits,
+    rng: SeededRandom
+  ): PersonalityTraits {
+    const spread = GeneticsRates.PERSONALITY_DRIFT;
+    const drift = (value: number) =>
+      Genetics.clamp(value + rng.range(-spread, spread));
+
+    return {
+      boldness: drift(personality.boldness),
+      sociability: drift(personality.sociability),
+      aggression: drift(personality.aggression),
+      energy: drift(personality.energy),
+    };
+  }
+
+  private static limit(trait: string, value: number): number {
+    const limits = TraitLimits[trait];
+    if (!limits) return value;
+    return Math.max(limits.min, Math.min(limits.max, value));
+  }
+
+  private static clamp(value: number): number {
+    return Math.max(0, Math.min(1, value));
+  }
+}
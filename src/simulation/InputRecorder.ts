@@ -0,0 +1,65 @@
+import { PlayerInput, PlayerInputType } from "./PlayerInput";
+
+// Current recording format version
+export const INPUT_RECORDING_VERSION = 1;
+
+// An input together with the step it was applied before
+export interface RecordedInput {
+  tick: number;
+  input: PlayerInput;
+}
+
+// A session recorded as its seed plus timestamped inputs
+export interface InputRecording {
+  version: number;
+  recordedAt: number; // Wall-clock timestamp, metadata only
+  seed: number;
+  characterClass: string;
+  stepDelta: number; // Simulated seconds per step
+  totalTicks: number;
+  inputs: RecordedInput[];
+}
+
+// Collects the inputs of a session started from a seed
+export class InputRecorder {
+  private seed: number;
+  private characterClass: string;
+  private stepDelta: number;
+  private inputs: RecordedInput[] = [];
+  private lastDirection: { x: number; y: number } = { x: 0, y: 0 };
+
+  constructor(seed: number, characterClass: string, stepDelta: number) {
+    this.seed = seed;
+    this.characterClass = characterClass;
+    this.stepDelta = stepDelta;
+  }
+
+  // Record an input applied after `tick` steps
+  record(tick: number, input: PlayerInput): void {
+    // The joystick reports continuously - skip moves that change nothing
+    if (input.type === PlayerInputType.MOVE) {
+      if (
+        this.lastDirection.x === input.direction.x &&
+        this.lastDirection.y === input.direction.y
+      ) {
+        return;
+      }
+      this.lastDirection = { ...input.direction };
+    }
+
+    this.inputs.push({ tick, input });
+  }
+
+  // Snapshot of the recording so far
+  getRecording(totalTicks: number): InputRecording {
+    return {
+      version: INPUT_RECORDING_VERSION,
+      recordedAt: Date.now(),
+      seed: this.seed,
+      characterClass: this.characterClass,
+      stepDelta: this.stepDelta,
+      totalTicks,
+      inputs: this.inputs.map((recorded) => ({ ...recorded })),
+    };
+  }
+}
@@ -0,0 +1,159 @@
+import {
+  EntityState,
+  EntityType,
+  EntityTypeValue,
+  IEntity,
+} from "../types/gameTypes";
+import { SpeciesRegistry } from "../species/SpeciesRegistry";
+
+// Some number of one species living in a room - a single entity or an
+// aggregated population
+export interface SpeciesCount {
+  type: EntityTypeValue;
+  species: string;
+  count: number;
+}
+
+// Native and foreign life of one room
+export interface InvasionSurvey {
+  total: number; // Living plants and animals
+  invasive: number; // Those outside their home biomes
+  invaders: { [species: string]: number }; // Count of each foreign species
+  // Reproduction factor of natives of each kind, held back by invaders
+  nativeReproduction: Partial<Record<EntityTypeValue, number>>;
+}
+
+export const InvasionRates = {
+  ESTABLISHED: 3, // Individuals of a foreign species that make an invasion
+  DOMINANCE: 0.25, // Foreign share of a room's life that costs a health level
+  MIN_NATIVE_REPRODUCTION: 0.2, // However crowded out natives are
+} as const;
+
+// Species living outside their home biomes, whether they migrated or the
+// player brought them. Invaders get their species' invasive profile and
+// compete with natives of their kind, which then breed less.
+export class InvasionModel {
+  static isInvasive(entity: IEntity, biome: string): boolean {
+    const species = InvasionModel.getSpecies(entity);
+    return species !== null && !SpeciesRegistry.isNative(species, biome);
+  }
+
+  static survey(members: SpeciesCount[], biome: string): InvasionSurvey {
+    const survey: InvasionSurvey = {
+      total: 0,
+      invasive: 0,
+      invaders: {},
+      nativeReproduction: {},
+    };
+    const kindTotals: Partial<Record<EntityTypeValue, number>> = {};
+    const pressure: Partial<Record<EntityTypeValue, number>> = {};
+
+    members.forEach(({ type, species, count }) => {
+      survey.total += count;
+      kindTotals[type] = (kindTotals[type] ?? 0) + count;
+      if (SpeciesRegistry.isNative(species, biome)) return;
+
+      survey.invasive += count;
+      survey.invaders[species] = (survey.invaders[species] ?? 0) + count;
+      pressure[type] =
+        (pressure[type] ?? 0) +
+        count * SpeciesRegistry.getInvasiveProfile(species).competition;
+    });
+
+    (Object.keys(pressure) as EntityTypeValue[]).forEach((type) => {
+      const share = (pressure[type] ?? 0) / (kindTotals[type] ?? 1);
+      survey.nativeReproduction[type] = Math.max(
+        InvasionRates.MIN_NATIVE_REPRODUCTION,
+        1 - share
+      );
+    });
+
+    return survey;
+  }
+
+  // Living plants and animals of a list of entities, one count each
+  static countEntities(entities: IEntity[]): SpeciesCount[] {
+    const counts: SpeciesCount[] = [];
+    entities.forEach((entity) => {
+      const species = InvasionModel.getSpecies(entity);
+      if (species !== null && entity.state === EntityState.ALIVE) {
+        counts.push({ type: entity.type, species, count: 1 });
+      }
+    });
+    return counts;
+  }
+
+  // Share of foreign life across a set of entities from any rooms
+  static getInvasiveShare(
+    entities: IEntity[],
+    biomeOf: (roomId: string) => string | undefined
+  ): number {
+    let total = 0;
+    let invasive = 0;
+    entities.forEach((entity) => {
+      const biome = biomeOf(entity.roomId);
+      if (
+        !biome ||
+        entity.state !== EntityState.ALIVE ||
+        InvasionModel.getSpecies(entity) === null
+      ) {
+        return;
+      }
+      total++;
+      if (InvasionModel.isInvasive(entity, biome)) invasive++;
+    });
+    return total > 0 ? invasive / total : 0;
+  }
+
+  static getSpeedFactor(entity: IEntity, biome: string): number {
+    return InvasionModel.isInvasive(entity, biome)
+      ? SpeciesRegistry.getInvasiveProfile(InvasionModel.getSpecies(entity)!)
+          .speedMultiplier
+      : 1;
+  }
+
+  // Invaders breed at their profile's rate, natives as fast as the invaders
+  // of their kind let them
+  static getReproductionFactor(
+    entity: IEntity,
+    biome: string,
+    survey: InvasionSurvey | undefined
+  ): number {
+    if (InvasionModel.isInvasive(entity, biome)) {
+      return SpeciesRegistry.getInvasiveProfile(
+        InvasionModel.getSpecies(entity)!
+      ).reproductionRate;
+    }
+    return survey?.nativeReproduction[entity.type] ?? 1;
+  }
+
+  // Food from outside the eater's home biomes is worth less to it
+  static getFoodEfficiency(eater: IEntity, food: IEntity): number {
+    const eaterSpecies = InvasionModel.getSpecies(eater);
+    const foodSpecies = InvasionModel.getSpecies(food);
+    if (eaterSpecies === null || foodSpecies === null) return 1;
+
+    const definition = SpeciesRegistry.get(eaterSpecies);
+    if (!definition) return 1;
+
+    const familiar = definition.biomes.some((biome) =>
+      SpeciesRegistry.isNative(foodSpecies, biome)
+    );
+    return familiar
+      ? 1
+      : SpeciesRegistry.getInvasiveProfile(eaterSpecies).foodEfficiency;
+  }
+
+  // Species of a plant or animal, null for anything else
+  static getSpecies(entity: IEntity): string | null {
+    switch (entity.type) {
+      case EntityType.PLANT:
+      case EntityType.HERBIVORE:
+      case EntityType.CARNIVORE:
+      case EntityType.DECOMPOSER:
+        return (entity as IEntity & { species: string }).species;
+      default:
+        return null;
+    }
+  }
+}
@@ -0,0 +1,160 @@
+import {
+  Carnivore,
+  Decomposer,
+  EntityState,
+  EntityType,
+  Herbivore,
+  IEntity,
+  Position,
+  Room,
+  Teleporter,
+} from "../types/gameTypes";
+import { CarcassDecay } from "./CarcassDecay";
+
+// Creatures that can leave their room
+export type MigratingCreature = Herbivore | Carnivore | Decomposer;
+
+// Why a creature sets off for another room
+export const MigrationReason = {
+  HUNGRY: "hungry",
+  HUNTED: "hunted",
+  CROWDED: "crowded",
+} as const;
+
+export type MigrationReasonValue =
+  (typeof MigrationReason)[keyof typeof MigrationReason];
+
+export const MigrationRates = {
+  DECISION_CHANCE: 0.3, // Chance a creature with a reason sets off per check
+  HUNGER: 0.8, // Hunger fraction at which a creature without food leaves
+  CROWD_RANGE: 150, // Pixels within which same-species neighbors crowd
+  CROWD_LIMIT: 6, // Same-species neighbors that make a crowd
+  ARRIVAL_OFFSET: 150, // Pixels from the destination teleporter
+  EMIGRATION: 0.002, // Chance per second per starving aggregated animal
+} as const;
+
+// Movement of creatures between rooms. A creature that is starving with no
+// food in sight, fleeing a predator or crowded by its own kind walks to the
+// nearest teleporter and comes out of the linked one in the next room.
+export class MigrationModel {
+  static isMigrant(entity: IEntity): entity is MigratingCreature {
+    return (
+      entity.type === EntityType.HERBIVORE ||
+      entity.type === EntityType.CARNIVORE ||
+      entity.type === EntityType.DECOMPOSER
+    );
+  }
+
+  // Reason for a creature to leave, given the entities its AI can see
+  static getReason(
+    creature: MigratingCreature,
+    nearby: IEntity[]
+  ): MigrationReasonValue | null {
+    if (creature.behaviorState === "fleeing") return MigrationReason.HUNTED;
+
+    if (
+      creature.hunger >= creature.maxHunger * MigrationRates.HUNGER &&
+      !nearby.some((entity) => MigrationModel.isFood(creature, entity))
+    ) {
+      return MigrationReason.HUNGRY;
+    }
+
+    const crowd = nearby.filter(
+      (entity) =>
+        entity.type === creature.type &&
+        entity.state === EntityState.ALIVE &&
+        (entity as MigratingCreature).species === creature.species &&
+        creature.position.distanceTo(entity.position) <=
+          MigrationRates.CROWD_RANGE
+    ).length;
+    if (crowd >= MigrationRates.CROWD_LIMIT) return MigrationReason.CROWDED;
+
+    return null;
+  }
+
+  // Teleporter of a room closest to a position
+  static findExit(room: Room, position: Position): Teleporter | null {
+    let closest: Teleporter | null = null;
+    let closestDistance = Infinity;
+    for (const teleporter of room.teleporters) {
+      const distance = position.distanceTo(
+        MigrationModel.getCenter(teleporter)
+      );
+      if (distance < closestDistance) {
+        closest = teleporter;
+        closestDistance = distance;
+      }
+    }
+    return closest;
+  }
+
+  // Walk up to distance towards a teleporter. Returns true on arrival.
+  static moveTowards(
+    position: Position,
+    teleporter: Teleporter,
+    distance: number
+  ): boolean {
+    const center = MigrationModel.getCenter(teleporter);
+    const remaining = position.distanceTo(center);
+    if (remaining <= Math.max(distance, teleporter.width / 2)) {
+      position.x = center.x;
+      position.y = center.y;
+      return true;
+    }
+
+    position.x += ((center.x - position.x) / remaining) * distance;
+    position.y += ((center.y - position.y) / remaining) * distance;
+    return false;
+  }
+
+  // The teleporter of the destination room leading back to the origin
+  static findEntrance(destination: Room, originId: string): Teleporter | null {
+    return (
+      destination.teleporters.find(
+        (teleporter) => teleporter.connectedRoomId === originId
+      ) || null
+    );
+  }
+
+  // Where a migrant appears - just inside the room from the teleporter
+  static getArrivalPosition(teleporter: Teleporter): Position {
+    const position = MigrationModel.getCenter(teleporter);
+    switch (teleporter.direction) {
+      case "north":
+        position.y += MigrationRates.ARRIVAL_OFFSET;
+        break;
+      case "south":
+        position.y -= MigrationRates.ARRIVAL_OFFSET;
+        break;
+      case "east":
+        position.x -= MigrationRates.ARRIVAL_OFFSET;
+        break;
+      case "west":
+        position.x += MigrationRates.ARRIVAL_OFFSET;
+        break;
+    }
+    return position;
+  }
+
+  private static getCenter(teleporter: Teleporter): Position {
+    return new Position(
+      teleporter.x + teleporter.width / 2,
+      teleporter.y + teleporter.height / 2
+    );
+  }
+
+  private static isFood(creature: MigratingCreature, entity: IEntity): boolean {
+    switch (creature.type) {
+      case EntityType.HERBIVORE:
+        return (
+          entity.type === EntityType.PLANT && entity.state === EntityState.ALIVE
+        );
+      case EntityType.CARNIVORE:
+        return entity.type === EntityType.HERBIVORE && entity.weight > 0;
+      case EntityType.DECOMPOSER:
+        return CarcassDecay.isCarcass(entity) && entity.weight > 0;
+      default:
+        return false;
+    }
+  }
+}
@@ -0,0 +1,216 @@
+import {
+  Carnivore,
+  EntityState,
+  EntityType,
+  IEntity,
+  PackRole,
+} from "../types/gameTypes";
+import { SpeciesRegistry } from "../species/SpeciesRegistry";
+import { PackOrders } from "../controllers/AdvancedCreatureAI";
+
+export const PackRates = {
+  FORM_RANGE: 250, // Pixels within which social hunters band together
+  LEAVE_RANGE: 600, // Members further than this from their leader drop out
+  MAX_SIZE: 5, // Leader included
+  FLANK_OFFSET: 70, // Pixels to the side of the prey flankers close in from
+  LARGE_PREY: 20, // Prey weight in kg that is too much for one hunter
+  LONE_SUCCESS: 0.35, // Chance a lone hunter's attack on large prey lands
+  SHARE_RANGE: 150, // Pixels within which pack mates share a meal
+} as const;
+
+// Hunting packs of social carnivores. Nearby hunters of a social species
+// band together behind the oldest of them; the leader picks the prey and the
+// others close in on it from both sides. Whatever a member eats is shared
+// with hungry pack mates close by. Hunters without a pack have a hard time
+// bringing down large prey.
+export class PackModel {
+  static isSocial(carnivore: Carnivore): boolean {
+    return !!SpeciesRegistry.getCarnivore(carnivore.species).hunting.social;
+  }
+
+  static isPackMate(entity: IEntity, other: IEntity): boolean {
+    if (
+      entity.type !== EntityType.CARNIVORE ||
+      other.type !== EntityType.CARNIVORE
+    ) {
+      return false;
+    }
+    const pack = (entity as Carnivore).pack;
+    return pack !== null && pack === (other as Carnivore).pack;
+  }
+
+  // Form, join and break up the packs of the given carnivores. Returns the
+  // members of each pack by leader ID, the leader first.
+  static organize(entities: IEntity[]): Map<string, Carnivore[]> {
+    const hunters = entities.filter(
+      (entity) =>
+        entity.type === EntityType.CARNIVORE &&
+        entity.state === EntityState.ALIVE
+    ) as Carnivore[];
+    const byId = new Map(hunters.map((hunter) => [hunter.id, hunter]));
+
+    // Drop out of packs whose leader is gone or far away
+    hunters.forEach((hunter) => {
+      if (!hunter.pack) return;
+      const leader = byId.get(hunter.pack);
+      if (
+        !leader ||
+        hunter.migratingTo ||
+        leader.migratingTo ||
+        leader.roomId !== hunter.roomId ||
+        hunter.position.distanceTo(leader.position) > PackRates.LEAVE_RANGE
+      ) {
+        PackModel.leave(hunter);
+      }
+    });
+
+    // A leader left on its own is no longer a pack
+    const sizes = PackModel.countMembers(hunters);
+    hunters.forEach((hunter) => {
+      if (hunter.pack && (sizes.get(hunter.pack) ?? 0) < 2) {
+        PackModel.leave(hunter);
+      }
+    });
+
+    // Loners join the closest pack of their kind with room, or team up with
+    // another loner
+    hunters.forEach((hunter) => {
+      if (hunter.pack || hunter.migratingTo || !PackModel.isSocial(hunter)) {
+        return;
+      }
+
+      let closest: Carnivore | null = null;
+      let closestDistance = Infinity;
+      for (const other of hunters) {
+        if (
+          other === hunter ||
+          other.migratingTo ||
+          other.species !== hunter.species ||
+          other.faction !== hunter.faction ||
+          other.roomId !== hunter.roomId ||
+          (other.pack &&
+            (sizes.get(other.pack) ?? 0) >= PackRates.MAX_SIZE)
+        ) {
+          continue;
+        }
+        const distance = hunter.position.distanceTo(other.position);
+        if (distance <= PackRates.FORM_RANGE && distance < closestDistance) {
+          closest = other;
+          closestDistance = distance;
+        }
+      }
+      if (!closest) return;
+
+      if (closest.pack) {
+        hunter.pack = closest.pack;
+        hunter.packRole = PackRole.FLANKER;
+      } else {
+        // The older of the two leads
+        const leader = closest.age > hunter.age ? closest : hunter;
+        const follower = leader === hunter ? closest : hunter;
+        leader.pack = leader.id;
+        leader.packRole = PackRole.LEADER;
+        follower.pack = leader.id;
+        follower.packRole = PackRole.FLANKER;
+        sizes.set(leader.id, 1);
+      }
+      sizes.set(hunter.pack!, (sizes.get(hunter.pack!) ?? 0) + 1);
+    });
+
+    const packs = new Map<string, Carnivore[]>();
+    hunters.forEach((hunter) => {
+      if (!hunter.pack) return;
+      const members = packs.get(hunter.pack) ?? [];
+      if (hunter.packRole === PackRole.LEADER) {
+        members.unshift(hunter);
+      } else {
+        members.push(hunter);
+      }
+      packs.set(hunter.pack, members);
+    });
+    return packs;
+  }
+
+  // Orders for a pack member. The leader keeps its prey while it is in sight
+  // and otherwise picks the closest of preyInSight; flankers take turns
+  // coming in from the prey's left and right.
+  static getOrders(
+    hunter: Carnivore,
+    members: Carnivore[],
+    preyInSight: IEntity[]
+  ): PackOrders | null {
+    const leader = members[0];
+    if (!leader) return null;
+
+    if (hunter === leader) {
+      const keep = preyInSight.some((prey) => prey.id === hunter.currentTarget);
+      if (!keep) {
+        let closest: IEntity | null = null;
+        let closestDistance = Infinity;
+        for (const prey of preyInSight) {
+          const distance = hunter.position.distanceTo(prey.position);
+          if (distance < closestDistance) {
+            closest = prey;
+            closestDistance = distance;
+          }
+        }
+        hunter.currentTarget = closest ? closest.id : undefined;
+      }
+      return { targetId: hunter.currentTarget ?? null, flankOffset: 0 };
+    }
+
+    const side = members.indexOf(hunter) % 2 === 1 ? 1 : -1;
+    return {
+      targetId: leader.currentTarget ?? null,
+      flankOffset: side * PackRates.FLANK_OFFSET,
+    };
+  }
+
+  // Chance an attack lands. Large prey shrugs off most lone hunters.
+  static getAttackChance(hunter: Carnivore, prey: IEntity): number {
+    return !hunter.pack && prey.weight >= PackRates.LARGE_PREY
+      ? PackRates.LONE_SUCCESS
+      : 1;
+  }
+
+  // Split the hunger a pack hunter just relieved with hungry pack mates
+  // close by
+  static shareMeal(
+    eater: Carnivore,
+    hungerBefore: number,
+    nearby: IEntity[]
+  ): void {
+    if (!eater.pack) return;
+
+    const mates = nearby.filter(
+      (entity) =>
+        entity !== eater &&
+        entity.type === EntityType.CARNIVORE &&
+        entity.state === EntityState.ALIVE &&
+        (entity as Carnivore).pack === eater.pack &&
+        (entity as Carnivore).hunger > 0
+    ) as Carnivore[];
+    if (mates.length === 0) return;
+
+    const share = (hungerBefore - eater.hunger) / (mates.length + 1);
+    eater.hunger = hungerBefore - share;
+    mates.forEach((mate) => {
+      mate.hunger = Math.max(0, mate.hunger - share);
+    });
+  }
+
+  private static leave(hunter: Carnivore): void {
+    hunter.pack = null;
+    hunter.packRole = null;
+  }
+
+  private static countMembers(hunters: Carnivore[]): Map<string, number> {
+    const sizes = new Map<string, number>();
+    hunters.forEach((hunter) => {
+      if (hunter.pack) {
+        sizes.set(hunter.pack, (sizes.get(hunter.pack) ?? 0) + 1);
+      }
+    });
+    return sizes;
+  }
+}
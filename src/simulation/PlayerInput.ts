@@ -0,0 +1,65 @@
+import { PlayerActionValue } from "../types/gameTypes";
+
+// Player inputs that can change the game state. Live play and replays both
+// apply them through GameSession.applyInput so a recording reproduces a run.
+export const PlayerInputType = {
+  MOVE: "move",
+  MOVE_TO: "move_to",
+  ACTION: "action",
+  ACTIVATE_TELEPORTER: "activate_teleporter",
+  TELEPORT: "teleport",
+  ALLOCATE_SKILL: "allocate_skill",
+  HEAL: "heal",
+} as const;
+
+export type PlayerInputTypeValue =
+  (typeof PlayerInputType)[keyof typeof PlayerInputType];
+
+export type SkillType = "observation" | "restoration";
+
+// Joystick vector - applied on every step until the next move input
+export interface MoveInput {
+  type: typeof PlayerInputType.MOVE;
+  direction: { x: number; y: number };
+}
+
+// Jump to a point the player picked, e.g. by tapping a cell
+export interface MoveToInput {
+  type: typeof PlayerInputType.MOVE_TO;
+  position: { x: number; y: number };
+}
+
+export interface ActionInput {
+  type: typeof PlayerInputType.ACTION;
+  action: PlayerActionValue;
+  targetEntityId?: string;
+}
+
+export interface ActivateTeleporterInput {
+  type: typeof PlayerInputType.ACTIVATE_TELEPORTER;
+  teleporterId: string;
+  activated: boolean;
+}
+
+export interface TeleportInput {
+  type: typeof PlayerInputType.TELEPORT;
+  teleporterId: string;
+}
+
+export interface AllocateSkillInput {
+  type: typeof PlayerInputType.ALLOCATE_SKILL;
+  skill: SkillType;
+}
+
+export interface HealInput {
+  type: typeof PlayerInputType.HEAL;
+}
+
+export type PlayerInput =
+  | MoveInput
+  | MoveToInput
+  | ActionInput
+  | ActivateTeleporterInput
+  | TeleportInput
+  | AllocateSkillInput
+  | HealInput;
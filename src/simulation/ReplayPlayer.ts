@@ -0,0 +1,134 @@
+import { EcosystemHealthValue } from "../types/gameTypes";
+import { GameSession } from "./GameSession";
+import { InputRecording, INPUT_RECORDING_VERSION } from "./InputRecorder";
+
+// Final ecosystem state of a replayed run
+export interface ReplaySummary {
+  seed: number;
+  ticks: number;
+  gameTime: number;
+  ecosystemHealth: EcosystemHealthValue;
+  population: {
+    plants: number;
+    herbivores: number;
+    carnivores: number;
+    decomposers: number;
+  };
+  player: {
+    level: number;
+    experience: number;
+    ecoImpact: number;
+    roomId: string;
+  } | null;
+}
+
+// Re-runs a recording from its seed. Replays are deterministic, so seeking
+// backwards restarts from the seed and fast-forwards to the target tick.
+export class ReplayPlayer {
+  private recording: InputRecording;
+  private session: GameSession;
+  // Index of the next recorded input to apply
+  private nextInputIndex: number = 0;
+
+  constructor(recording: InputRecording) {
+    if (recording.version !== INPUT_RECORDING_VERSION) {
+      throw new Error(
+        `Unsupported input recording version ${recording.version}`
+      );
+    }
+
+    this.recording = recording;
+    this.session = new GameSession();
+    this.restart();
+  }
+
+  getSession(): GameSession {
+    return this.session;
+  }
+
+  getTick(): number {
+    return this.session.getTick();
+  }
+
+  getTotalTicks(): number {
+    return this.recording.totalTicks;
+  }
+
+  isFinished(): boolean {
+    return this.session.getTick() >= this.recording.totalTicks;
+  }
+
+  restart(): void {
+    this.session.reset();
+    this.session.start(this.recording.characterClass, this.recording.seed);
+    this.nextInputIndex = 0;
+    this.applyPendingInputs();
+  }
+
+  // Advance one step, returning false once the recording has ended
+  advance(): boolean {
+    if (this.isFinished()) return false;
+
+    this.session.step(this.recording.stepDelta);
+    this.applyPendingInputs();
+    return true;
+  }
+
+  seek(tick: number): void {
+    const targetTick = Math.max(0, Math.min(tick, this.recording.totalTicks));
+    if (targetTick < this.session.getTick()) {
+      this.restart();
+    }
+
+    while (this.session.getTick() < targetTick) {
+      this.advance();
+    }
+  }
+
+  getSummary(): ReplaySummary {
+    const simulation = this.session.getSimulation();
+    // Aggregated rooms hold fractional counts
+    const population = simulation.getPopulation();
+    const player = this.session.getPlayer();
+
+    return {
+      seed: this.recording.seed,
+      ticks: this.session.getTick(),
+      gameTime: simulation.getGameTime(),
+      ecosystemHealth: simulation.getEcosystemHealth(),
+      population: {
+        plants: Math.round(population.plants),
+        herbivores: Math.round(population.herbivores),
+        carnivores: Math.round(population.carnivores),
+        decomposers: Math.round(population.decomposers),
+      },
+      player: player
+        ? {
+            level: player.level,
+            experience: player.experience,
+            ecoImpact: player.ecoImpact,
+            roomId: this.session.getCurrentRoomId(),
+          }
+        : null,
+    };
+  }
+
+  // Replay a whole recording without rendering and report the final state
+  static runHeadless(recording: InputRecording): ReplaySummary {
+    const replay = new ReplayPlayer(recording);
+    replay.seek(recording.totalTicks);
+    return replay.getSummary();
+  }
+
+  // Inputs recorded at the current tick were applied before the next step
+  private applyPendingInputs(): void {
+    const tick = this.session.getTick();
+    let recorded = this.recording.inputs[this.nextInputIndex];
+
+    while (recorded && recorded.tick <= tick) {
+      this.session.applyInput(recorded.input);
+      this.nextInputIndex++;
+      recorded = this.recording.inputs[this.nextInputIndex];
+    }
+  }
+}
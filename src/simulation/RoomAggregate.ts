@@ -0,0 +1,516 @@
+import {
+  EntityType,
+  EntityTypeValue,
+  EntityState,
+  Position,
+  Plant,
+  Herbivore,
+  Carnivore,
+  Decomposer,
+  Genome,
+  IEntity,
+  PathogenValue,
+  Room,
+} from "../types/gameTypes";
+import { SeededRandom } from "../utils/SeededRandom";
+import { DiseaseModel } from "./DiseaseModel";
+import { Genetics, HeritableCreature } from "./Genetics";
+import { MigrationRates } from "./MigrationModel";
+
+// One species in an aggregated room
+export interface AggregatePopulation {
+  type: EntityTypeValue;
+  species: string;
+  count: number; // Fractional - rounded when the room is expanded
+  hunger: number; // Average hunger as a fraction of maxHunger (0-1)
+  reproductionRate: number; // Per second, copied from the collapsed entities
+  genome: Genome | null; // Mean genome of the members - null for plants
+  generation: number; // Highest generation among the members
+  // Share of the members carrying each pathogen
+  infections: Partial<Record<PathogenValue, number>>;
+}
+
+// Statistical stand-in for the entities of a room the player is not in
+export interface RoomAggregate {
+  roomId: string;
+  plantCapacity: number;
+  populations: AggregatePopulation[];
+}
+
+export interface PopulationCounts {
+  plants: number;
+  herbivores: number;
+  carnivores: number;
+  decomposers: number;
+}
+
+// Per-second rates of the aggregate model. Rough approximations of what the
+// full simulation produces - continuity matters more than precision here.
+const AggregateRates = {
+  GRAZING: 0.02, // Plants eaten per herbivore
+  HUNTING: 0.005, // Prey killed per carnivore
+  SCAVENGING: 0.01, // Carcasses broken down per decomposer
+  CARCASS_NUTRIENTS: 0.5, // Nutrients returned per animal carcass
+  HUNGER_GAIN: 0.02, // Hunger fraction gained without food
+  HUNGER_RELIEF: 0.05, // Hunger fraction removed when fully fed
+  NATURAL_DEATH: 0.001, // Deaths per individual
+  STARVATION_DEATH: 0.01, // Extra deaths per starving individual
+  STARVING_HUNGER: 0.9, // Hunger fraction considered starving
+  PLANT_CAPACITY_FACTOR: 2, // Plant capacity relative to plants at collapse
+  MIN_PLANT_CAPACITY: 10,
+} as const;
+
+// Keep expanded entities this far inside the room walls
+const ROOM_PADDING = 50;
+
+export class AggregateRoomModel {
+  // Summarize a room's living entities into per-species populations
+  static collapse(roomId: string, entities: IEntity[]): RoomAggregate {
+    const populations = new Map<
+      string,
+      AggregatePopulation & {
+        hungerTotal: number;
+        genomes: Genome[];
+        infected: Partial<Record<PathogenValue, number>>;
+      }
+    >();
+
+    entities.forEach((entity) => {
+      if (
+        entity.state === EntityState.DEAD ||
+        entity.state === EntityState.DECAYING
+      ) {
+        return;
+      }
+      if (
+        !(entity instanceof Plant) &&
+        !(entity instanceof Herbivore) &&
+        !(entity instanceof Carnivore) &&
+        !(entity instanceof Decomposer)
+      ) {
+        return;
+      }
+
+      const key = `${entity.type}:${entity.species}`;
+      let population = populations.get(key);
+      if (!population) {
+        population = {
+          type: entity.type,
+          species: entity.species,
+          count: 0,
+          hunger: 0,
+          hungerTotal: 0,
+          reproductionRate: entity.reproductionRate,
+          genome: null,
+          genomes: [],
+          generation: 0,
+          infections: {},
+          infected: {},
+        };
+        populations.set(key, population);
+      }
+
+      population.count++;
+      if (!(entity instanceof Plant)) {
+        population.hungerTotal += entity.hunger / entity.maxHunger;
+        population.genomes.push(entity.genome);
+        population.generation = Math.max(
+          population.generation,
+          entity.generation
+        );
+        if (entity.infection) {
+          const { pathogen } = entity.infection;
+          population.infected[pathogen] =
+            (population.infected[pathogen] ?? 0) + 1;
+        }
+      }
+    });
+
+    const result = Array.from(populations.values()).map(
+      ({ hungerTotal, genomes, infected, ...population }) => ({
+        ...population,
+        hunger: population.count > 0 ? hungerTotal / population.count : 0,
+        genome: Genetics.average(
+          genomes.map((genome) => ({ genome, count: 1 }))
+        ),
+        infections: AggregateRoomModel.scaleShares(
+          infected,
+          population.count > 0 ? 1 / population.count : 0
+        ),
+      })
+    );
+    const plants = AggregateRoomModel.countType(result, EntityType.PLANT);
+
+    return {
+      roomId,
+      plantCapacity: Math.max(
+        AggregateRates.MIN_PLANT_CAPACITY,
+        plants * AggregateRates.PLANT_CAPACITY_FACTOR
+      ),
+      populations: result,
+    };
+  }
+
+  // Advance births, deaths, grazing, predation, decomposition and hunger by
+  // deltaTime. Returns the nutrients returned to the room's soil.
+  static advance(aggregate: RoomAggregate, deltaTime: number): number {
+    const { populations } = aggregate;
+    const plants = AggregateRoomModel.countType(populations, EntityType.PLANT);
+    const herbivores = AggregateRoomModel.countType(
+      populations,
+      EntityType.HERBIVORE
+    );
+    const carnivores = AggregateRoomModel.countType(
+      populations,
+      EntityType.CARNIVORE
+    );
+    const decomposers = AggregateRoomModel.countType(
+      populations,
+      EntityType.DECOMPOSER
+    );
+
+    // Food eaten this step, limited by what is available
+    const plantDemand = herbivores * AggregateRates.GRAZING * deltaTime;
+    const plantsEaten = Math.min(plantDemand, plants);
+    const preyDemand = carnivores * AggregateRates.HUNTING * deltaTime;
+    const preyKilled = Math.min(preyDemand, herbivores);
+
+    // Animals that die from other causes feed the decomposers
+    const carcasses =
+      AggregateRoomModel.countDeaths(populations, deltaTime) + preyKilled;
+    const carcassDemand = decomposers * AggregateRates.SCAVENGING * deltaTime;
+    const carcassesEaten = Math.min(carcassDemand, carcasses);
+
+    const fedFraction: Record<string, number> = {
+      [EntityType.HERBIVORE]: plantDemand > 0 ? plantsEaten / plantDemand : 1,
+      [EntityType.CARNIVORE]: preyDemand > 0 ? preyKilled / preyDemand : 1,
+      [EntityType.DECOMPOSER]:
+        carcassDemand > 0 ? carcassesEaten / carcassDemand : 1,
+    };
+    const eatenFraction: Record<string, number> = {
+      [EntityType.PLANT]: plants > 0 ? plantsEaten / plants : 0,
+      [EntityType.HERBIVORE]: herbivores > 0 ? preyKilled / herbivores : 0,
+      [EntityType.CARNIVORE]: 0,
+      [EntityType.DECOMPOSER]: 0,
+    };
+
+    populations.forEach((population) => {
+      let births: number;
+      let deaths = population.count * (eatenFraction[population.type] || 0);
+
+      if (population.type === EntityType.PLANT) {
+        // Logistic growth towards the room's plant capacity
+        const headroom = Math.max(0, 1 - plants / aggregate.plantCapacity);
+        births =
+          population.count *
+          population.reproductionRate *
+          headroom *
+          deltaTime;
+      } else {
+        const fed = fedFraction[population.type] ?? 1;
+        const hungerChange =
+          (AggregateRates.HUNGER_GAIN - fed * AggregateRates.HUNGER_RELIEF) *
+          deltaTime;
+        population.hunger = Math.max(
+          0,
+          Math.min(1, population.hunger + hungerChange)
+        );
+
+        // Well-fed populations breed, starving ones die off
+        births =
+          population.count *
+          population.reproductionRate *
+          (1 - population.hunger) *
+          deltaTime;
+        if (population.hunger >= AggregateRates.STARVING_HUNGER) {
+          deaths +=
+            population.count * AggregateRates.STARVATION_DEATH * deltaTime;
+        }
+      }
+
+      deaths += population.count * AggregateRates.NATURAL_DEATH * deltaTime;
+      population.count = Math.max(0, population.count + births - deaths);
+
+      // Members get over their illness as they would in the full simulation
+      const infections: AggregatePopulation["infections"] = {};
+      (Object.keys(population.infections) as PathogenValue[]).forEach(
+        (pathogen) => {
+          const recovered =
+            deltaTime / DiseaseModel.getPathogen(pathogen).duration;
+          const share =
+            (population.infections[pathogen] ?? 0) * Math.max(0, 1 - recovered);
+          if (share > 0) {
+            infections[pathogen] = share;
+          }
+        }
+      );
+      population.infections = infections;
+    });
+
+    return carcassesEaten * AggregateRates.CARCASS_NUTRIENTS;
+  }
+
+  // Recreate concrete entities at random positions inside the room
+  static expand(
+    aggregate: RoomAggregate,
+    room: Room,
+    rng: SeededRandom,
+    nextEntityId: (prefix: string) => string
+  ): IEntity[] {
+    const entities: IEntity[] = [];
+
+    aggregate.populations.forEach((population) => {
+      // Stochastic rounding keeps the expected population unchanged
+      const whole = Math.floor(population.count);
+      const count = whole + (rng.next() < population.count - whole ? 1 : 0);
+
+      for (let i = 0; i < count; i++) {
+        const position = new Position(
+          room.x + ROOM_PADDING + rng.next() * (room.width - ROOM_PADDING * 2),
+          room.y + ROOM_PADDING + rng.next() * (room.height - ROOM_PADDING * 2)
+        );
+        const entity = AggregateRoomModel.createEntity(
+          population,
+          position,
+          room.id,
+          rng,
+          nextEntityId
+        );
+        if (entity) {
+          entities.push(entity);
+        }
+      }
+    });
+
+    return entities;
+  }
+
+  // Population entry for a single creature, as counted by collapse
+  static toPopulation(
+    creature: Herbivore | Carnivore | Decomposer
+  ): AggregatePopulation {
+    return {
+      type: creature.type,
+      species: creature.species,
+      count: 1,
+      hunger: creature.hunger / creature.maxHunger,
+      reproductionRate: creature.reproductionRate,
+      genome: creature.genome,
+      generation: creature.generation,
+      infections: creature.infection
+        ? { [creature.infection.pathogen]: 1 }
+        : {},
+    };
+  }
+
+  // Count animals that migrated into the room
+  static addMigrants(
+    aggregate: RoomAggregate,
+    migrants: AggregatePopulation
+  ): void {
+    const population = aggregate.populations.find(
+      (candidate) =>
+        candidate.type === migrants.type &&
+        candidate.species === migrants.species
+    );
+    if (!population) {
+      aggregate.populations.push({ ...migrants });
+      return;
+    }
+
+    const count = population.count + migrants.count;
+    population.hunger =
+      (population.hunger * population.count +
+        migrants.hunger * migrants.count) /
+      count;
+    population.genome = Genetics.average(
+      [population, migrants].flatMap(({ genome, count }) =>
+        genome ? [{ genome, count }] : []
+      )
+    );
+    population.generation = Math.max(
+      population.generation,
+      migrants.generation
+    );
+    // Migrants bring their illnesses along
+    const infections = AggregateRoomModel.scaleShares(
+      population.infections,
+      population.count / count
+    );
+    (Object.keys(migrants.infections) as PathogenValue[]).forEach(
+      (pathogen) => {
+        infections[pathogen] =
+          (infections[pathogen] ?? 0) +
+          ((migrants.infections[pathogen] ?? 0) * migrants.count) / count;
+      }
+    );
+    population.infections = infections;
+    population.count = count;
+  }
+
+  // Starving animals leave the room now and then. Returns one population
+  // entry with a count of 1 for each animal that left.
+  static takeEmigrants(
+    aggregate: RoomAggregate,
+    rng: SeededRandom,
+    deltaTime: number
+  ): AggregatePopulation[] {
+    const emigrants: AggregatePopulation[] = [];
+    aggregate.populations.forEach((population) => {
+      if (
+        population.type === EntityType.PLANT ||
+        population.count < 1 ||
+        population.hunger < AggregateRates.STARVING_HUNGER
+      ) {
+        return;
+      }
+
+      const chance = population.count * MigrationRates.EMIGRATION * deltaTime;
+      if (rng.next() < chance) {
+        population.count--;
+        emigrants.push({ ...population, count: 1 });
+      }
+    });
+    return emigrants;
+  }
+
+  static getPopulation(aggregate: RoomAggregate): PopulationCounts {
+    return {
+      plants: AggregateRoomModel.countType(
+        aggregate.populations,
+        EntityType.PLANT
+      ),
+      herbivores: AggregateRoomModel.countType(
+        aggregate.populations,
+        EntityType.HERBIVORE
+      ),
+      carnivores: AggregateRoomModel.countType(
+        aggregate.populations,
+        EntityType.CARNIVORE
+      ),
+      decomposers: AggregateRoomModel.countType(
+        aggregate.populations,
+        EntityType.DECOMPOSER
+      ),
+    };
+  }
+
+  // Expected natural and starvation deaths of animals over deltaTime
+  private static countDeaths(
+    populations: AggregatePopulation[],
+    deltaTime: number
+  ): number {
+    return populations
+      .filter(
+        (population) =>
+          population.type === EntityType.HERBIVORE ||
+          population.type === EntityType.CARNIVORE
+      )
+      .reduce((total, population) => {
+        let rate = AggregateRates.NATURAL_DEATH;
+        if (population.hunger >= AggregateRates.STARVING_HUNGER) {
+          rate += AggregateRates.STARVATION_DEATH;
+        }
+        return total + population.count * rate * deltaTime;
+      }, 0);
+  }
+
+  private static countType(
+    populations: AggregatePopulation[],
+    type: EntityTypeValue
+  ): number {
+    return populations
+      .filter((population) => population.type === type)
+      .reduce((total, population) => total + population.count, 0);
+  }
+
+  // Concrete entity for one member of a population
+  static createEntity(
+    population: AggregatePopulation,
+    position: Position,
+    roomId: string,
+    rng: SeededRandom,
+    nextEntityId: (prefix: string) => string
+  ): IEntity | null {
+    switch (population.type) {
+      case EntityType.PLANT:
+        return new Plant(
+          nextEntityId("plant"),
+          position,
+          population.species,
+          roomId
+        );
+      case EntityType.HERBIVORE: {
+        const herbivore = new Herbivore(
+          nextEntityId("herbivore"),
+          position,
+          population.species,
+          roomId
+        );
+        AggregateRoomModel.inherit(herbivore, population, rng);
+        herbivore.hunger = population.hunger * herbivore.maxHunger;
+        return herbivore;
+      }
+      case EntityType.CARNIVORE: {
+        const carnivore = new Carnivore(
+          nextEntityId("carnivore"),
+          position,
+          population.species,
+          roomId
+        );
+        AggregateRoomModel.inherit(carnivore, population, rng);
+        carnivore.hunger = population.hunger * carnivore.maxHunger;
+        return carnivore;
+      }
+      case EntityType.DECOMPOSER: {
+        const decomposer = new Decomposer(
+          nextEntityId("decomposer"),
+          position,
+          population.species,
+          roomId
+        );
+        AggregateRoomModel.inherit(decomposer, population, rng);
+        decomposer.hunger = population.hunger * decomposer.maxHunger;
+        return decomposer;
+      }
+      default:
+        return null;
+    }
+  }
+
+  // Members of a population descend from its mean genome, mutated so they
+  // differ from each other again, and carry its illnesses at its rates
+  private static inherit(
+    creature: HeritableCreature,
+    population: AggregatePopulation,
+    rng: SeededRandom
+  ): void {
+    if (population.genome) {
+      creature.genome = Genetics.mutate(population.genome, rng);
+      creature.generation = population.generation;
+      Genetics.express(creature);
+    }
+
+    const roll = rng.next();
+    let share = 0;
+    const pathogens = Object.keys(population.infections) as PathogenValue[];
+    for (const pathogen of pathogens) {
+      share += population.infections[pathogen] ?? 0;
+      if (roll < share) {
+        DiseaseModel.infect(creature, pathogen);
+        return;
+      }
+    }
+  }
+
+  private static scaleShares(
+    shares: Partial<Record<PathogenValue, number>>,
+    factor: number
+  ): Partial<Record<PathogenValue, number>> {
+    const scaled: Partial<Record<PathogenValue, number>> = {};
+    (Object.keys(shares) as PathogenValue[]).forEach((pathogen) => {
+      scaled[pathogen] = (shares[pathogen] ?? 0) * factor;
+    });
+    return scaled;
+  }
+}
@@ -0,0 +1,160 @@
+import { GameMessage } from "../types/gameTypes";
+import { SaveGame, SaveGameSerializer } from "../persistence/SaveGame";
+import { InputRecording } from "./InputRecorder";
+import { PlayerInput } from "./PlayerInput";
+import {
+  SimulationCommand,
+  SimulationCommandType,
+  SimulationEvent,
+  SimulationEventType,
+  StartCommand,
+} from "./SimulationProtocol";
+import { SimulationWorker } from "./SimulationWorker";
+
+// Carries commands to the simulation worker and events back
+export interface SimulationTransport {
+  send(command: SimulationCommand): void;
+  setListener(listener: (event: SimulationEvent) => void): void;
+  terminate(): void;
+}
+
+// Runs the simulation worker on the JS thread, alongside rendering and input.
+// It is not off-thread: React Native has no worker threads without a native
+// module, so native builds keep stepping the simulation on the main JS thread.
+// Messages are still copied and delivered asynchronously, so the client code
+// is the same as with a real worker.
+export class InProcessTransport implements SimulationTransport {
+  private worker: SimulationWorker;
+  private listener: ((event: SimulationEvent) => void) | null = null;
+
+  constructor() {
+    this.worker = new SimulationWorker((event) => {
+      const copy = InProcessTransport.copy(event);
+      setTimeout(() => this.listener?.(copy), 0);
+    });
+  }
+
+  send(command: SimulationCommand): void {
+    const copy = InProcessTransport.copy(command);
+    setTimeout(() => this.worker.handleCommand(copy), 0);
+  }
+
+  setListener(listener: (event: SimulationEvent) => void): void {
+    this.listener = listener;
+  }
+
+  terminate(): void {
+    this.worker.terminate();
+    this.listener = null;
+  }
+
+  // Messages must not share objects with the sender, as with postMessage
+  private static copy<T>(message: T): T {
+    return JSON.parse(JSON.stringify(message));
+  }
+}
+
+// UI-side handle to the simulation. Requests that expect an answer return
+// promises resolved when the matching event comes back.
+export class SimulationClient {
+  private transport: SimulationTransport;
+  private listener: ((event: SimulationEvent) => void) | null = null;
+  private nextRequestId: number = 1;
+  private pendingSaves: Map<number, (save: SaveGame | null) => void> =
+    new Map();
+  private pendingRecordings: Map<
+    number,
+    (recording: InputRecording | null) => void
+  > = new Map();
+
+  constructor(transport: SimulationTransport) {
+    this.transport = transport;
+    this.transport.setListener((event) => this.handleEvent(event));
+  }
+
+  // Receives world, diff, message and error events
+  setListener(listener: ((event: SimulationEvent) => void) | null): void {
+    this.listener = listener;
+  }
+
+  start(characterClass: string, seed?: number): void {
+    const command: StartCommand = {
+      type: SimulationCommandType.START,
+      characterClass,
+    };
+    if (seed !== undefined) {
+      command.seed = seed;
+    }
+    this.transport.send(command);
+  }
+
+  // Load a save (parsed JSON of any supported version). Throws right away
+  // for saves that cannot be migrated.
+  load(save: unknown): void {
+    this.transport.send({
+      type: SimulationCommandType.LOAD,
+      save: SaveGameSerializer.migrate(save),
+    });
+  }
+
+  sendInput(input: PlayerInput): void {
+    this.transport.send({ type: SimulationCommandType.INPUT, input });
+  }
+
+  setPaused(paused: boolean): void {
+    this.transport.send({ type: SimulationCommandType.SET_PAUSED, paused });
+  }
+
+  setInspecting(inspecting: boolean): void {
+    this.transport.send({
+      type: SimulationCommandType.SET_INSPECTING,
+      inspecting,
+    });
+  }
+
+  requestSave(messages: GameMessage[]): Promise<SaveGame | null> {
+    const requestId = this.nextRequestId++;
+    return new Promise((resolve) => {
+      this.pendingSaves.set(requestId, resolve);
+      this.transport.send({
+        type: SimulationCommandType.REQUEST_SAVE,
+        requestId,
+        messages,
+      });
+    });
+  }
+
+  requestRecording(): Promise<InputRecording | null> {
+    const requestId = this.nextRequestId++;
+    return new Promise((resolve) => {
+      this.pendingRecordings.set(requestId, resolve);
+      this.transport.send({
+        type: SimulationCommandType.REQUEST_RECORDING,
+        requestId,
+      });
+    });
+  }
+
+  terminate(): void {
+    this.transport.terminate();
+    this.pendingSaves.forEach((resolve) => resolve(null));
+    this.pendingSaves.clear();
+    this.pendingRecordings.forEach((resolve) => resolve(null));
+    this.pendingRecordings.clear();
+  }
+
+  private handleEvent(event: SimulationEvent): void {
+    switch (event.type) {
+      case SimulationEventType.SAVE:
+        this.pendingSaves.get(event.requestId)?.(event.save);
+        this.pendingSaves.delete(event.requestId);
+        break;
+      case SimulationEventType.RECORDING:
+        this.pendingRecordings.get(event.requestId)?.(event.recording);
+        this.pendingRecordings.delete(event.requestId);
+        break;
+      default:
+        this.listener?.(event);
+    }
+  }
+}
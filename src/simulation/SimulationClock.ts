@@ -0,0 +1,98 @@
+// Cooldowns tracked per entity
+export const Cooldown = {
+  EAT: "eat",
+  HUNT: "hunt",
+  MIGRATE: "migrate",
+} as const;
+
+export type CooldownValue = (typeof Cooldown)[keyof typeof Cooldown];
+
+// Cooldown durations in simulated seconds
+export const CooldownDurations: Record<CooldownValue, number> = {
+  [Cooldown.EAT]: 0.2,
+  [Cooldown.HUNT]: 0.2,
+  [Cooldown.MIGRATE]: 5, // Between a creature's decisions to leave its room
+};
+
+// Last trigger time (simulated seconds) for each cooldown of one entity
+export type EntityCooldowns = Partial<Record<CooldownValue, number>>;
+
+// Plain-data form of the clock for save games
+export interface SimulationClockSnapshot {
+  time: number;
+  cooldowns: { [entityId: string]: EntityCooldowns };
+}
+
+// Simulation-time clock. Time only advances when the simulation steps, so
+// pausing, slow frames and fast-forwarding do not change interaction timing.
+export class SimulationClock {
+  private time: number = 0;
+  private cooldowns: Map<string, EntityCooldowns> = new Map();
+
+  // Current simulated time in seconds
+  now(): number {
+    return this.time;
+  }
+
+  advance(deltaTime: number): void {
+    this.time += deltaTime;
+  }
+
+  reset(time: number = 0): void {
+    this.time = time;
+    this.cooldowns.clear();
+  }
+
+  // Check whether an entity's cooldown has elapsed
+  isReady(entityId: string, cooldown: CooldownValue): boolean {
+    const lastTime = this.cooldowns.get(entityId)?.[cooldown];
+    if (lastTime === undefined) return true;
+    return this.time - lastTime >= CooldownDurations[cooldown];
+  }
+
+  // Start an entity's cooldown at the current time
+  trigger(entityId: string, cooldown: CooldownValue): void {
+    const entityCooldowns = this.cooldowns.get(entityId) || {};
+    entityCooldowns[cooldown] = this.time;
+    this.cooldowns.set(entityId, entityCooldowns);
+  }
+
+  // Run an action only if its cooldown is ready, then restart the cooldown
+  tryTrigger(
+    entityId: string,
+    cooldown: CooldownValue,
+    action: () => void
+  ): boolean {
+    if (!this.isReady(entityId, cooldown)) return false;
+    action();
+    this.trigger(entityId, cooldown);
+    return true;
+  }
+
+  // Forget cooldowns of an entity that left the simulation
+  clearEntity(entityId: string): void {
+    this.cooldowns.delete(entityId);
+  }
+
+  getCooldowns(entityId: string): EntityCooldowns | undefined {
+    return this.cooldowns.get(entityId);
+  }
+
+  toSnapshot(): SimulationClockSnapshot {
+    const cooldowns: { [entityId: string]: EntityCooldowns } = {};
+    this.cooldowns.forEach((entityCooldowns, entityId) => {
+      cooldowns[entityId] = { ...entityCooldowns };
+    });
+    return { time: this.time, cooldowns };
+  }
+
+  restoreSnapshot(snapshot: SimulationClockSnapshot): void {
+    this.time = snapshot.time;
+    this.cooldowns = new Map(
+      Object.entries(snapshot.cooldowns).map(([entityId, entityCooldowns]) => [
+        entityId,
+        { ...entityCooldowns },
+      ])
+    );
+  }
+}
@@ -0,0 +1,169 @@
+import {
+  EcosystemHealthValue,
+  GameMessage,
+  MemoryPoint,
+  SoilGrid,
+  RoomAtmosphere,
+  RoomWeather,
+  Faction,
+} from "../types/gameTypes";
+import { SaveGame, SavedEntity, SavedRoom } from "../persistence/SaveGame";
+import { InputRecording } from "./InputRecorder";
+import { PlayerInput } from "./PlayerInput";
+
+// Message protocol between the UI and the simulation worker. Commands go to
+// the worker, events come back. Both are plain data so they survive
+// structured cloning across threads.
+
+export const SimulationCommandType = {
+  START: "start",
+  LOAD: "load",
+  INPUT: "input",
+  SET_PAUSED: "set_paused",
+  SET_INSPECTING: "set_inspecting",
+  REQUEST_SAVE: "request_save",
+  REQUEST_RECORDING: "request_recording",
+} as const;
+
+export type SimulationCommandTypeValue =
+  (typeof SimulationCommandType)[keyof typeof SimulationCommandType];
+
+export interface StartCommand {
+  type: typeof SimulationCommandType.START;
+  characterClass: string;
+  seed?: number;
+}
+
+export interface LoadCommand {
+  type: typeof SimulationCommandType.LOAD;
+  save: SaveGame; // Already migrated to the current version
+}
+
+export interface InputCommand {
+  type: typeof SimulationCommandType.INPUT;
+  input: PlayerInput;
+}
+
+export interface SetPausedCommand {
+  type: typeof SimulationCommandType.SET_PAUSED;
+  paused: boolean;
+}
+
+// While the UI inspects creatures, room state refreshes carry their AI
+// memory, which the diffs leave out
+export interface SetInspectingCommand {
+  type: typeof SimulationCommandType.SET_INSPECTING;
+  inspecting: boolean;
+}
+
+export interface RequestSaveCommand {
+  type: typeof SimulationCommandType.REQUEST_SAVE;
+  requestId: number;
+  messages: GameMessage[]; // The message log lives in the UI
+}
+
+export interface RequestRecordingCommand {
+  type: typeof SimulationCommandType.REQUEST_RECORDING;
+  requestId: number;
+}
+
+export type SimulationCommand =
+  | StartCommand
+  | LoadCommand
+  | InputCommand
+  | SetPausedCommand
+  | SetInspectingCommand
+  | RequestSaveCommand
+  | RequestRecordingCommand;
+
+export const SimulationEventType = {
+  WORLD: "world",
+  DIFF: "diff",
+  MESSAGES: "messages",
+  SAVE: "save",
+  RECORDING: "recording",
+  ERROR: "error",
+} as const;
+
+export type SimulationEventTypeValue =
+  (typeof SimulationEventType)[keyof typeof SimulationEventType];
+
+// Changed parts of one entity since the previous snapshot
+export interface EntityDiff {
+  id: string;
+  position?: { x: number; y: number };
+  fields?: { [key: string]: unknown };
+  inventory?: SavedEntity[];
+}
+
+// Full state, sent after a run is started or loaded
+export interface WorldEvent {
+  type: typeof SimulationEventType.WORLD;
+  tick: number;
+  gameTime: number;
+  seed: number;
+  ecosystemHealth: EcosystemHealthValue;
+  rooms: SavedRoom[];
+  currentRoomId: string;
+  teleporterStates: { [teleporterId: string]: boolean };
+  player: SavedEntity;
+  entities: SavedEntity[];
+  messages: GameMessage[]; // Message log of a loaded save
+}
+
+// Changes since the previous snapshot, sent after every step and input
+export interface DiffEvent {
+  type: typeof SimulationEventType.DIFF;
+  tick: number;
+  gameTime: number;
+  ecosystemHealth: EcosystemHealthValue;
+  added: SavedEntity[];
+  changed: EntityDiff[];
+  removed: string[];
+  player: EntityDiff | null;
+  // Only present when they changed
+  currentRoomId?: string;
+  teleporterStates?: { [teleporterId: string]: boolean };
+  // Soil, air, weather and factions of the current room, refreshed every
+  // few steps
+  roomState?: {
+    roomId: string;
+    soil: SoilGrid;
+    atmosphere: RoomAtmosphere;
+    weather: RoomWeather;
+    factions: Faction[];
+  };
+  // Memory of the current room's creatures, only while inspecting
+  memories?: { [entityId: string]: MemoryPoint[] };
+}
+
+// Messages produced by a player input
+export interface MessagesEvent {
+  type: typeof SimulationEventType.MESSAGES;
+  messages: string[];
+}
+
+export interface SaveEvent {
+  type: typeof SimulationEventType.SAVE;
+  requestId: number;
+  save: SaveGame | null;
+}
+
+export interface RecordingEvent {
+  type: typeof SimulationEventType.RECORDING;
+  requestId: number;
+  recording: InputRecording | null;
+}
+
+export interface ErrorEvent {
+  type: typeof SimulationEventType.ERROR;
+  message: string;
+}
+
+export type SimulationEvent =
+  | WorldEvent
+  | DiffEvent
+  | MessagesEvent
+  | SaveEvent
+  | RecordingEvent
+  | ErrorEvent;
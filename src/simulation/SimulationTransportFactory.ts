@@ -0,0 +1,10 @@
+import { InProcessTransport, SimulationTransport } from "./SimulationClient";
+
+// Native builds have no background thread for the simulation and still step
+// it on the main JS thread. Only the web build, which resolves
+// SimulationTransportFactory.web.ts instead, runs it in a Web Worker.
+export class SimulationTransportFactory {
+  static createForPlatform(): SimulationTransport {
+    return new InProcessTransport();
+  }
+}
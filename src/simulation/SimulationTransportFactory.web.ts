@@ -0,0 +1,97 @@
+import { InProcessTransport, SimulationTransport } from "./SimulationClient";
+import {
+  SimulationCommand,
+  SimulationEvent,
+  SimulationEventType,
+} from "./SimulationProtocol";
+
+// Runs the simulation in a Web Worker. If the worker fails before it ever
+// answers - the script did not load, say - the commands sent so far are
+// replayed to an in-process simulation instead. Later failures are passed
+// on as error events.
+export class WebWorkerTransport implements SimulationTransport {
+  private worker: Worker | null;
+  private fallback: InProcessTransport | null = null;
+  private listener: ((event: SimulationEvent) => void) | null = null;
+  private unanswered: SimulationCommand[] = [];
+  private answered: boolean = false;
+
+  constructor() {
+    // Expo's Metro bundles the module passed to new Worker(new URL(...)) as
+    // a separate worker bundle
+    this.worker = new Worker(
+      new URL("./simulation.worker", window.location.href)
+    );
+    this.worker.onmessage = (message: MessageEvent<SimulationEvent>) => {
+      this.answered = true;
+      this.unanswered = [];
+      this.listener?.(message.data);
+    };
+    this.worker.onerror = (error) => {
+      error.preventDefault();
+      if (this.answered) {
+        this.listener?.({
+          type: SimulationEventType.ERROR,
+          message: error.message,
+        });
+      } else {
+        this.fallBack(error);
+      }
+    };
+  }
+
+  send(command: SimulationCommand): void {
+    if (this.fallback) {
+      this.fallback.send(command);
+      return;
+    }
+    if (!this.answered) {
+      this.unanswered.push(command);
+    }
+    this.worker?.postMessage(command);
+  }
+
+  setListener(listener: (event: SimulationEvent) => void): void {
+    this.listener = listener;
+    this.fallback?.setListener(listener);
+  }
+
+  terminate(): void {
+    this.worker?.terminate();
+    this.worker = null;
+    this.fallback?.terminate();
+    this.listener = null;
+  }
+
+  private fallBack(error: ErrorEvent): void {
+    if (!this.worker) return;
+    console.warn(
+      "Simulation worker failed, running in-process:",
+      error.message
+    );
+    this.worker.terminate();
+    this.worker = null;
+
+    this.fallback = new InProcessTransport();
+    if (this.listener) {
+      this.fallback.setListener(this.listener);
+    }
+    this.unanswered.forEach((command) => this.fallback?.send(command));
+    this.unanswered = [];
+  }
+}
+
+export class SimulationTransportFactory {
+  // Pick the simulation thread for the current platform
+  static createForPlatform(): SimulationTransport {
+    if (typeof Worker === "undefined") {
+      return new InProcessTransport();
+    }
+    try {
+      return new WebWorkerTransport();
+    } catch (error) {
+      console.warn("Simulation worker unavailable, running in-process:", error);
+      return new InProcessTransport();
+    }
+  }
+}
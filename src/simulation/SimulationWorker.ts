@@ -0,0 +1,306 @@
+import {
+  GameMessage,
+  IEntity,
+  MemoryPoint,
+  SoilGrid,
+} from "../types/gameTypes";
+import { SaveGame, SaveGameSerializer } from "../persistence/SaveGame";
+import { GameSession, SIMULATION_STEP } from "./GameSession";
+import { InputRecorder } from "./InputRecorder";
+import { MigrationModel } from "./MigrationModel";
+import { PlayerInput } from "./PlayerInput";
+import {
+  DiffEvent,
+  SimulationCommand,
+  SimulationCommandType,
+  SimulationEvent,
+  SimulationEventType,
+} from "./SimulationProtocol";
+import { StateDiffEncoder } from "./StateDiff";
+
+// Soil, air and weather change slowly - send them once per second of
+// simulated time
+const ROOM_STATE_SYNC_INTERVAL = Math.round(1 / SIMULATION_STEP);
+
+// Owns the game session away from the UI. Steps it on a fixed timer, applies
+// player input commands and posts state diffs back after every change.
+// Platform independent - the transport decides which thread it runs on.
+export class SimulationWorker {
+  private session: GameSession = new GameSession();
+  // Records inputs of runs started from a seed - loaded games are not
+  // recorded since they cannot be replayed from the seed alone
+  private recorder: InputRecorder | null = null;
+  private entityEncoder = new StateDiffEncoder();
+  private playerEncoder = new StateDiffEncoder();
+  private post: (event: SimulationEvent) => void;
+  private loop: ReturnType<typeof setInterval> | null = null;
+  private paused: boolean = false;
+  private inspecting: boolean = false;
+  // Last room and teleporter states sent, so they are only sent on change
+  private sentRoomId: string = "";
+  private sentTeleporterStates: { [teleporterId: string]: boolean } = {};
+  private roomStateSentAtTick: number = 0;
+
+  constructor(post: (event: SimulationEvent) => void) {
+    this.post = post;
+  }
+
+  handleCommand(command: SimulationCommand): void {
+    try {
+      switch (command.type) {
+        case SimulationCommandType.START:
+          this.start(command.characterClass, command.seed);
+          break;
+        case SimulationCommandType.LOAD:
+          this.load(command.save);
+          break;
+        case SimulationCommandType.INPUT:
+          this.applyInput(command.input);
+          break;
+        case SimulationCommandType.SET_PAUSED:
+          this.paused = command.paused;
+          break;
+        case SimulationCommandType.SET_INSPECTING:
+          this.inspecting = command.inspecting;
+          // Show the memory right away rather than on the next refresh
+          if (this.inspecting && this.session.getPlayer()) {
+            this.postDiff(true);
+          }
+          break;
+        case SimulationCommandType.REQUEST_SAVE:
+          this.postSave(command.requestId, command.messages);
+          break;
+        case SimulationCommandType.REQUEST_RECORDING:
+          this.post({
+            type: SimulationEventType.RECORDING,
+            requestId: command.requestId,
+            recording: this.recorder
+              ? this.recorder.getRecording(this.session.getTick())
+              : null,
+          });
+          break;
+      }
+    } catch (error) {
+      this.post({
+        type: SimulationEventType.ERROR,
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  // Stop stepping - the worker can be started again with a new command
+  terminate(): void {
+    if (this.loop) {
+      clearInterval(this.loop);
+      this.loop = null;
+    }
+  }
+
+  private start(characterClass: string, seed?: number): void {
+    this.session.reset();
+    this.session.start(characterClass, seed);
+    this.recorder = new InputRecorder(
+      this.session.getSimulation().getSeed(),
+      characterClass,
+      SIMULATION_STEP
+    );
+
+    this.postWorld([]);
+    this.startLoop();
+  }
+
+  private load(save: SaveGame): void {
+    const loaded = SaveGameSerializer.deserialize(save);
+    this.session.restore(loaded);
+    this.recorder = null;
+
+    this.postWorld(loaded.messages);
+    this.startLoop();
+  }
+
+  private applyInput(input: PlayerInput): void {
+    if (!this.session.getPlayer()) return;
+
+    this.recorder?.record(this.session.getTick(), input);
+    const messages = this.session.applyInput(input);
+    if (messages.length > 0) {
+      this.post({ type: SimulationEventType.MESSAGES, messages });
+    }
+
+    // Send the result right away instead of waiting for the next step,
+    // along with the room in case the player changed a faction's mind
+    this.postDiff(messages.length > 0);
+  }
+
+  private step(): void {
+    if (this.paused || !this.session.getPlayer()) return;
+
+    const { weatherReports, migrationReports, invasionReports } =
+      this.session.step(SIMULATION_STEP);
+
+    // Only the weather and arrivals of the player's room make it into the
+    // game log, but invasions are news from anywhere in the dungeon
+    const currentRoomId = this.session.getCurrentRoomId();
+    const messages = [
+      ...[...weatherReports, ...migrationReports].filter(
+        (report) => report.roomId === currentRoomId
+      ),
+      ...invasionReports,
+    ].map((report) => report.message);
+    if (messages.length > 0) {
+      this.post({ type: SimulationEventType.MESSAGES, messages });
+    }
+
+    // Show a weather change, a migration or an invasion right away
+    this.postDiff(messages.length > 0);
+  }
+
+  private startLoop(): void {
+    if (this.loop) return;
+
+    this.loop = setInterval(() => {
+      try {
+        this.step();
+      } catch (error) {
+        // A broken simulation would fail again on every step - stop until
+        // the UI starts or loads a game
+        this.terminate();
+        this.post({
+          type: SimulationEventType.ERROR,
+          message: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }, SIMULATION_STEP * 1000);
+  }
+
+  private postWorld(messages: GameMessage[]): void {
+    const simulation = this.session.getSimulation();
+    const player = this.session.getPlayer();
+    if (!player) return;
+
+    this.sentRoomId = this.session.getCurrentRoomId();
+    this.sentTeleporterStates = this.session.getTeleporterStates();
+    this.roomStateSentAtTick = this.session.getTick();
+    const [playerSnapshot] = this.playerEncoder.reset([player]);
+    if (!playerSnapshot) return;
+
+    this.post({
+      type: SimulationEventType.WORLD,
+      tick: this.session.getTick(),
+      gameTime: simulation.getGameTime(),
+      seed: simulation.getSeed(),
+      ecosystemHealth: simulation.getEcosystemHealth(),
+      rooms: simulation
+        .getRooms()
+        .map((room) => SaveGameSerializer.serializeRoom(room)),
+      currentRoomId: this.sentRoomId,
+      teleporterStates: this.sentTeleporterStates,
+      player: playerSnapshot,
+      entities: this.entityEncoder.reset(simulation.getEntities()),
+      messages,
+    });
+  }
+
+  private postDiff(forceRoomState: boolean = false): void {
+    const simulation = this.session.getSimulation();
+    const player = this.session.getPlayer();
+    const { added, changed, removed } = this.entityEncoder.encode(
+      simulation.getEntities()
+    );
+
+    const diff: DiffEvent = {
+      type: SimulationEventType.DIFF,
+      tick: this.session.getTick(),
+      gameTime: simulation.getGameTime(),
+      ecosystemHealth: simulation.getEcosystemHealth(),
+      added,
+      changed,
+      removed,
+      player: player ? this.playerEncoder.encodeEntity(player) : null,
+    };
+
+    const currentRoomId = this.session.getCurrentRoomId();
+    const roomChanged = currentRoomId !== this.sentRoomId;
+    if (roomChanged) {
+      this.sentRoomId = currentRoomId;
+      diff.currentRoomId = currentRoomId;
+    }
+
+    const tick = this.session.getTick();
+    const room = simulation.getRoom(currentRoomId);
+    if (
+      room &&
+      (roomChanged ||
+        forceRoomState ||
+        tick - this.roomStateSentAtTick >= ROOM_STATE_SYNC_INTERVAL)
+    ) {
+      this.roomStateSentAtTick = tick;
+      diff.roomState = {
+        roomId: room.id,
+        soil: SimulationWorker.roundSoil(room.soil),
+        atmosphere: { ...room.atmosphere },
+        weather: { ...room.weather },
+        factions: room.factions.map((faction) =>
+          SaveGameSerializer.cloneFaction(faction)
+        ),
+      };
+      if (this.inspecting) {
+        diff.memories = SimulationWorker.collectMemories(
+          simulation.getEntities(),
+          room.id
+        );
+      }
+    }
+
+    // The session replaces the object whenever a teleporter changes
+    const teleporterStates = this.session.getTeleporterStates();
+    if (teleporterStates !== this.sentTeleporterStates) {
+      this.sentTeleporterStates = teleporterStates;
+      diff.teleporterStates = teleporterStates;
+    }
+
+    this.post(diff);
+  }
+
+  private static collectMemories(
+    entities: IEntity[],
+    roomId: string
+  ): { [entityId: string]: MemoryPoint[] } {
+    const memories: { [entityId: string]: MemoryPoint[] } = {};
+    entities.forEach((entity) => {
+      if (entity.roomId === roomId && MigrationModel.isMigrant(entity)) {
+        memories[entity.id] = entity.memories.map((point) => ({ ...point }));
+      }
+    });
+    return memories;
+  }
+
+  // Three decimals are plenty for display and keep the message small
+  private static roundSoil(soil: SoilGrid): SoilGrid {
+    const round = (level: number) => Math.round(level * 1000) / 1000;
+    return {
+      ...soil,
+      nutrients: soil.nutrients.map(round),
+      moisture: soil.moisture.map(round),
+    };
+  }
+
+  private postSave(requestId: number, messages: GameMessage[]): void {
+    const player = this.session.getPlayer();
+
+    this.post({
+      type: SimulationEventType.SAVE,
+      requestId,
+      save: player
+        ? SaveGameSerializer.serialize({
+            player,
+            simulation: this.session.getSimulation(),
+            currentRoomId: this.session.getCurrentRoomId(),
+            messages,
+            teleporterStates: this.session.getTeleporterStates(),
+            tick: this.session.getTick(),
+          })
+        : null,
+    });
+  }
+}
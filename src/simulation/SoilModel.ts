@@ -0,0 +1,183 @@
+import { Position, Room, SoilGrid } from "../types/gameTypes";
+import { SeededRandom } from "../utils/SeededRandom";
+import { BiomeRegistry } from "../biomes/BiomeRegistry";
+
+// Area a soil grid covers - a room or its saved layout
+export type SoilBounds = Pick<Room, "x" | "y" | "width" | "height" | "biome">;
+
+// Per-second rates of the soil model
+export const SoilRates = {
+  CELL_SIZE: 100, // Matches the floor grid drawn by the Room component
+  NUTRIENTS_PER_KG: 0.02, // Nutrient level gained per kg of dead matter
+  PLANT_NUTRIENT_UPTAKE: 0.002, // Nutrient level drawn per plant
+  PLANT_MOISTURE_UPTAKE: 0.002, // Moisture level drawn per plant
+  WEATHERING: 0.001, // Fraction of the nutrient deficit restored
+  MOISTURE_RECOVERY: 0.02, // Fraction of the moisture deficit restored
+  DROPPINGS_RETURN: 0.3, // Fraction of eaten food returned as droppings
+  SPROUTING: 0.002, // Chance per cell of a dormant seed taking root
+  SPROUT_CROWDING: 2, // Plants within a cell's width that leave no room
+  INITIAL_VARIATION: 0.2, // Random spread of starting levels
+} as const;
+
+export class SoilModel {
+  // Fresh grid at the biome's baseline, with random patches when an rng
+  // is given
+  static create(bounds: SoilBounds, rng?: SeededRandom): SoilGrid {
+    const baseline = SoilModel.getBaseline(bounds.biome);
+    const columns = Math.max(1, Math.ceil(bounds.width / SoilRates.CELL_SIZE));
+    const rows = Math.max(1, Math.ceil(bounds.height / SoilRates.CELL_SIZE));
+    const vary = (level: number) =>
+      rng
+        ? SoilModel.clamp(
+            level + (rng.next() - 0.5) * SoilRates.INITIAL_VARIATION
+          )
+        : level;
+
+    const nutrients: number[] = [];
+    const moisture: number[] = [];
+    for (let i = 0; i < columns * rows; i++) {
+      nutrients.push(vary(baseline.nutrients));
+      moisture.push(vary(baseline.moisture));
+    }
+
+    return {
+      cellSize: SoilRates.CELL_SIZE,
+      columns,
+      rows,
+      nutrients,
+      moisture,
+    };
+  }
+
+  static clone(soil: SoilGrid): SoilGrid {
+    return {
+      ...soil,
+      nutrients: [...soil.nutrients],
+      moisture: [...soil.moisture],
+    };
+  }
+
+  // How well plants grow at a position (0-1)
+  static getFertility(room: Room, position: Position): number {
+    const index = SoilModel.cellIndex(room, position);
+    return SoilModel.cellFertility(room.soil, index);
+  }
+
+  static cellFertility(soil: SoilGrid, index: number): number {
+    const nutrients = soil.nutrients[index] ?? 0;
+    const moisture = soil.moisture[index] ?? 0;
+    return Math.sqrt(nutrients * moisture);
+  }
+
+  // Return kg of dead matter or droppings to the cell at a position
+  static deposit(room: Room, position: Position, kg: number): void {
+    if (kg <= 0) return;
+
+    const index = SoilModel.cellIndex(room, position);
+    const soil = room.soil;
+    soil.nutrients[index] = SoilModel.clamp(
+      (soil.nutrients[index] ?? 0) + kg * SoilRates.NUTRIENTS_PER_KG
+    );
+  }
+
+  // Spread kg of dead matter evenly, for rooms without concrete entities
+  static depositEverywhere(soil: SoilGrid, kg: number): void {
+    if (kg <= 0) return;
+
+    const perCell = (kg * SoilRates.NUTRIENTS_PER_KG) / soil.nutrients.length;
+    soil.nutrients = soil.nutrients.map((level) =>
+      SoilModel.clamp(level + perCell)
+    );
+  }
+
+  // Wet every cell evenly, e.g. with rain. Negative amounts dry it out.
+  static water(soil: SoilGrid, amount: number): void {
+    soil.moisture = soil.moisture.map((level) =>
+      SoilModel.clamp(level + amount)
+    );
+  }
+
+  // A plant draws nutrients and moisture from its cell for deltaTime.
+  // Returns the fertility of the cell before the draw.
+  static feedPlant(room: Room, position: Position, deltaTime: number): number {
+    const index = SoilModel.cellIndex(room, position);
+    const soil = room.soil;
+    const fertility = SoilModel.cellFertility(soil, index);
+
+    soil.nutrients[index] = SoilModel.clamp(
+      (soil.nutrients[index] ?? 0) -
+        SoilRates.PLANT_NUTRIENT_UPTAKE * deltaTime
+    );
+    soil.moisture[index] = SoilModel.clamp(
+      (soil.moisture[index] ?? 0) - SoilRates.PLANT_MOISTURE_UPTAKE * deltaTime
+    );
+
+    return fertility;
+  }
+
+  // Spot where a dormant seed in the soil takes root over deltaTime, if
+  // any. Fertile cells sprout more often than poor ones.
+  static findSprout(
+    room: Room,
+    rng: SeededRandom,
+    deltaTime: number
+  ): Position | null {
+    const soil = room.soil;
+    const cells = soil.nutrients.length;
+    if (rng.next() >= SoilRates.SPROUTING * cells * deltaTime) return null;
+
+    const index = Math.floor(rng.next() * cells);
+    if (rng.next() >= SoilModel.cellFertility(soil, index)) return null;
+
+    const column = index % soil.columns;
+    const row = Math.floor(index / soil.columns);
+    return new Position(
+      room.x + (column + rng.next()) * soil.cellSize,
+      room.y + (row + rng.next()) * soil.cellSize
+    );
+  }
+
+  // Weathering and groundwater slowly pull every cell back to the biome's
+  // baseline
+  static advance(room: Room, deltaTime: number): void {
+    const baseline = SoilModel.getBaseline(room.biome);
+    const soil = room.soil;
+    const recover = (level: number, target: number, rate: number) =>
+      level + (target - level) * Math.min(1, rate * deltaTime);
+
+    soil.nutrients = soil.nutrients.map((level) =>
+      level < baseline.nutrients
+        ? recover(level, baseline.nutrients, SoilRates.WEATHERING)
+        : level
+    );
+    soil.moisture = soil.moisture.map((level) =>
+      recover(level, baseline.moisture, SoilRates.MOISTURE_RECOVERY)
+    );
+  }
+
+  // Starting and resting levels of the biome's soil
+  static getBaseline(biome: string): { nutrients: number; moisture: number } {
+    return BiomeRegistry.getOrDefault(biome).soil;
+  }
+
+  // Index of the cell under a world position, clamped to the grid
+  private static cellIndex(room: Room, position: Position): number {
+    const soil = room.soil;
+    const column = Math.max(
+      0,
+      Math.min(
+        soil.columns - 1,
+        Math.floor((position.x - room.x) / soil.cellSize)
+      )
+    );
+    const row = Math.max(
+      0,
+      Math.min(soil.rows - 1, Math.floor((position.y - room.y) / soil.cellSize))
+    );
+    return row * soil.columns + column;
+  }
+
+  private static clamp(level: number): number {
+    return Math.max(0, Math.min(1, level));
+  }
+}
@@ -0,0 +1,173 @@
+import { IEntity, Position } from "../types/gameTypes";
+
+// Cell size in world units - about the middle of the query radii in use
+// (25-30 for interactions, 80-100 for player actions, 400 for AI)
+const DEFAULT_CELL_SIZE = 100;
+
+interface SpatialItem {
+  id: string;
+  position: Position;
+}
+
+// Uniform grid hash for one room. Items are kept in the cell containing
+// their position and moved between cells when update is called.
+export class SpatialHash<T extends SpatialItem> {
+  private cellSize: number;
+  private cells: Map<string, Map<string, T>> = new Map();
+  // Cell key each item is currently stored in
+  private itemCells: Map<string, string> = new Map();
+
+  constructor(cellSize: number = DEFAULT_CELL_SIZE) {
+    this.cellSize = cellSize;
+  }
+
+  get size(): number {
+    return this.itemCells.size;
+  }
+
+  insert(item: T): void {
+    const key = this.getCellKey(item.position.x, item.position.y);
+    this.addToCell(key, item);
+    this.itemCells.set(item.id, key);
+  }
+
+  remove(id: string): void {
+    const key = this.itemCells.get(id);
+    if (key === undefined) return;
+
+    this.removeFromCell(key, id);
+    this.itemCells.delete(id);
+  }
+
+  // Move an item to the cell of its current position
+  update(item: T): void {
+    const previousKey = this.itemCells.get(item.id);
+    if (previousKey === undefined) {
+      this.insert(item);
+      return;
+    }
+
+    const key = this.getCellKey(item.position.x, item.position.y);
+    if (key === previousKey) return;
+
+    this.removeFromCell(previousKey, item.id);
+    this.addToCell(key, item);
+    this.itemCells.set(item.id, key);
+  }
+
+  // Items within radius of position
+  queryRadius(position: Position, radius: number): T[] {
+    const results: T[] = [];
+    const minCellX = Math.floor((position.x - radius) / this.cellSize);
+    const maxCellX = Math.floor((position.x + radius) / this.cellSize);
+    const minCellY = Math.floor((position.y - radius) / this.cellSize);
+    const maxCellY = Math.floor((position.y + radius) / this.cellSize);
+
+    for (let cellX = minCellX; cellX <= maxCellX; cellX++) {
+      for (let cellY = minCellY; cellY <= maxCellY; cellY++) {
+        const cell = this.cells.get(`${cellX},${cellY}`);
+        if (!cell) continue;
+
+        cell.forEach((item) => {
+          if (position.distanceTo(item.position) <= radius) {
+            results.push(item);
+          }
+        });
+      }
+    }
+
+    return results;
+  }
+
+  clear(): void {
+    this.cells.clear();
+    this.itemCells.clear();
+  }
+
+  private getCellKey(x: number, y: number): string {
+    return `${Math.floor(x / this.cellSize)},${Math.floor(y / this.cellSize)}`;
+  }
+
+  private addToCell(key: string, item: T): void {
+    let cell = this.cells.get(key);
+    if (!cell) {
+      cell = new Map();
+      this.cells.set(key, cell);
+    }
+    cell.set(item.id, item);
+  }
+
+  private removeFromCell(key: string, id: string): void {
+    const cell = this.cells.get(key);
+    if (!cell) return;
+
+    cell.delete(id);
+    if (cell.size === 0) {
+      this.cells.delete(key);
+    }
+  }
+}
+
+// One spatial hash per room. Entities only ever interact with entities in
+// their own room, so queries never cross room walls.
+export class SpatialIndex {
+  private cellSize: number;
+  private rooms: Map<string, SpatialHash<IEntity>> = new Map();
+  // Room each entity is currently indexed under
+  private entityRooms: Map<string, string> = new Map();
+
+  constructor(cellSize: number = DEFAULT_CELL_SIZE) {
+    this.cellSize = cellSize;
+  }
+
+  rebuild(entities: IEntity[]): void {
+    this.clear();
+    entities.forEach((entity) => this.insert(entity));
+  }
+
+  insert(entity: IEntity): void {
+    this.getRoomHash(entity.roomId).insert(entity);
+    this.entityRooms.set(entity.id, entity.roomId);
+  }
+
+  remove(entityId: string): void {
+    const roomId = this.entityRooms.get(entityId);
+    if (roomId === undefined) return;
+
+    this.rooms.get(roomId)?.remove(entityId);
+    this.entityRooms.delete(entityId);
+  }
+
+  // Re-index an entity after its position or room changed
+  update(entity: IEntity): void {
+    const roomId = this.entityRooms.get(entity.id);
+    if (roomId !== undefined && roomId !== entity.roomId) {
+      this.remove(entity.id);
+    }
+
+    if (this.entityRooms.has(entity.id)) {
+      this.getRoomHash(entity.roomId).update(entity);
+    } else {
+      this.insert(entity);
+    }
+  }
+
+  // Entities in a room within radius of position
+  queryRadius(roomId: string, position: Position, radius: number): IEntity[] {
+    return this.rooms.get(roomId)?.queryRadius(position, radius) || [];
+  }
+
+  clear(): void {
+    this.rooms.clear();
+    this.entityRooms.clear();
+  }
+
+  private getRoomHash(roomId: string): SpatialHash<IEntity> {
+    let hash = this.rooms.get(roomId);
+    if (!hash) {
+      hash = new SpatialHash(this.cellSize);
+      this.rooms.set(roomId, hash);
+    }
+    return hash;
+  }
+}
@@ -0,0 +1,368 @@
+import { IEntity, Player, Position } from "../types/gameTypes";
+import { SavedEntity, SaveGameSerializer } from "../persistence/SaveGame";
+import { DiseaseModel } from "./DiseaseModel";
+import { MigrationModel } from "./MigrationModel";
+import { DiffEvent, EntityDiff, WorldEvent } from "./SimulationProtocol";
+
+// Fields the UI draws or lists, sent whenever they change. Everything else an
+// entity carries - AI memory, velocity, breeding and hunting parameters -
+// stays in the worker.
+const RENDERED_FIELDS = new Set([
+  "state",
+  "behaviorState",
+  "health",
+  "maxHealth",
+  "energy",
+  "maxEnergy",
+  "roomId",
+  "decayTimer",
+  "decayDuration",
+  "species",
+  "hunger",
+  "maxHunger",
+  "speed",
+  "activity",
+  "currentTarget",
+  "faction",
+  "pack",
+  "packRole",
+  "generation",
+  "immunity",
+  "ecoImpact",
+  "observationSkill",
+  "restorationSkill",
+  "experience",
+  "level",
+  "skillPoints",
+  "experienceToNextLevel",
+]);
+
+// Fixed for the life of an entity, so only part of its first snapshot
+const SNAPSHOT_FIELDS = new Set(["characterClass", "genome"]);
+
+// Last sent value of each field, all primitives so they compare directly
+type Fingerprint = Map<string, string | number | boolean | null>;
+
+const POSITION_X_KEY = "position.x";
+const POSITION_Y_KEY = "position.y";
+const INFECTION_KEY = "infection";
+const INVENTORY_KEY = "inventory";
+
+// Worker side - turns entity state into diffs against what was last sent
+export class StateDiffEncoder {
+  private sent: Map<string, Fingerprint> = new Map();
+
+  // Forget everything sent and snapshot the entities in full
+  reset(entities: IEntity[]): SavedEntity[] {
+    this.sent.clear();
+    return entities.map((entity) => this.snapshot(entity));
+  }
+
+  encode(entities: IEntity[]): {
+    added: SavedEntity[];
+    changed: EntityDiff[];
+    removed: string[];
+  } {
+    const added: SavedEntity[] = [];
+    const changed: EntityDiff[] = [];
+    const removed: string[] = [];
+    const seen = new Set<string>();
+
+    entities.forEach((entity) => {
+      seen.add(entity.id);
+      if (!this.sent.has(entity.id)) {
+        added.push(this.snapshot(entity));
+        return;
+      }
+
+      const diff = this.encodeEntity(entity);
+      if (diff) {
+        changed.push(diff);
+      }
+    });
+
+    this.sent.forEach((_, id) => {
+      if (!seen.has(id)) {
+        removed.push(id);
+      }
+    });
+    removed.forEach((id) => this.sent.delete(id));
+
+    return { added, changed, removed };
+  }
+
+  // Diff the rendered fields of a single entity, or null if none changed
+  encodeEntity(entity: IEntity): EntityDiff | null {
+    let fingerprint = this.sent.get(entity.id);
+    if (!fingerprint) {
+      fingerprint = new Map();
+      this.sent.set(entity.id, fingerprint);
+    }
+
+    const diff: EntityDiff = { id: entity.id };
+    let hasChanges = false;
+
+    const position = StateDiffEncoder.roundPosition(entity.position);
+    if (
+      fingerprint.get(POSITION_X_KEY) !== position.x ||
+      fingerprint.get(POSITION_Y_KEY) !== position.y
+    ) {
+      fingerprint.set(POSITION_X_KEY, position.x);
+      fingerprint.set(POSITION_Y_KEY, position.y);
+      diff.position = position;
+      hasChanges = true;
+    }
+
+    const fields = StateDiffEncoder.readFields(entity, RENDERED_FIELDS);
+    Object.entries(fields).forEach(([key, value]) => {
+      if (!StateDiffEncoder.isPrimitive(value)) return;
+      if (fingerprint.get(key) === value) return;
+
+      fingerprint.set(key, value);
+      diff.fields = { ...diff.fields, [key]: value };
+      hasChanges = true;
+    });
+
+    // The infection is the one rendered object - compared by its pathogen
+    // and whole seconds left, as the debug panel shows it
+    if (DiseaseModel.isHost(entity)) {
+      const infection = entity.infection
+        ? {
+            pathogen: entity.infection.pathogen,
+            remaining: Math.ceil(entity.infection.remaining),
+          }
+        : null;
+      const comparable = infection
+        ? `${infection.pathogen}:${infection.remaining}`
+        : null;
+      if (fingerprint.get(INFECTION_KEY) !== comparable) {
+        fingerprint.set(INFECTION_KEY, comparable);
+        diff.fields = { ...diff.fields, [INFECTION_KEY]: infection };
+        hasChanges = true;
+      }
+    }
+
+    if (entity instanceof Player) {
+      const inventory = entity.inventory.map((item) => item.id).join(",");
+      if (fingerprint.get(INVENTORY_KEY) !== inventory) {
+        fingerprint.set(INVENTORY_KEY, inventory);
+        diff.inventory = entity.inventory.map((item) =>
+          StateDiffEncoder.serialize(item)
+        );
+        hasChanges = true;
+      }
+    }
+
+    return hasChanges ? diff : null;
+  }
+
+  private snapshot(entity: IEntity): SavedEntity {
+    this.sent.delete(entity.id);
+    this.encodeEntity(entity);
+    return StateDiffEncoder.serialize(entity);
+  }
+
+  // Snapshot of what the UI needs to rebuild an entity. Fields left out keep
+  // their constructor defaults on the UI side.
+  private static serialize(entity: IEntity): SavedEntity {
+    const fields = {
+      ...StateDiffEncoder.readFields(entity, RENDERED_FIELDS),
+      ...StateDiffEncoder.readFields(entity, SNAPSHOT_FIELDS),
+    };
+    if (DiseaseModel.isHost(entity)) {
+      fields[INFECTION_KEY] = entity.infection && {
+        pathogen: entity.infection.pathogen,
+        remaining: Math.ceil(entity.infection.remaining),
+      };
+    }
+
+    const saved: SavedEntity = {
+      type: entity.type,
+      id: entity.id,
+      position: StateDiffEncoder.roundPosition(entity.position),
+      fields,
+    };
+    if (entity instanceof Player) {
+      saved.inventory = entity.inventory.map((item) =>
+        StateDiffEncoder.serialize(item)
+      );
+    }
+    return saved;
+  }
+
+  // Own fields of an entity among keys, numbers rounded to a tenth
+  private static readFields(
+    entity: IEntity,
+    keys: Set<string>
+  ): { [key: string]: unknown } {
+    const fields: { [key: string]: unknown } = {};
+    Object.entries(entity).forEach(([key, value]: [string, unknown]) => {
+      if (!keys.has(key) || value === undefined) return;
+      fields[key] =
+        typeof value === "number" ? StateDiffEncoder.round(value) : value;
+    });
+    return fields;
+  }
+
+  private static isPrimitive(
+    value: unknown
+  ): value is string | number | boolean | null {
+    return value === null || typeof value !== "object";
+  }
+
+  private static roundPosition(position: Position): { x: number; y: number } {
+    return {
+      x: StateDiffEncoder.round(position.x),
+      y: StateDiffEncoder.round(position.y),
+    };
+  }
+
+  // A tenth is finer than anything the UI draws or prints
+  private static round(value: number): number {
+    return Math.round(value * 10) / 10;
+  }
+}
+
+// Movement of an entity between the last two snapshots
+interface Motion {
+  from: Position;
+  to: Position;
+}
+
+// UI side - rebuilds entities from snapshots and diffs and interpolates
+// their positions between snapshots for rendering
+export class EntityMirror {
+  private entities: Map<string, IEntity> = new Map();
+  private player: Player | null = null;
+  private motions: Map<string, Motion> = new Map();
+  private snapshotInterval: number;
+  private snapshotAt: number = 0;
+  // True once everything has been drawn at its latest snapshot position
+  private settled: boolean = true;
+
+  // snapshotInterval - milliseconds between snapshots
+  constructor(snapshotInterval: number) {
+    this.snapshotInterval = snapshotInterval;
+  }
+
+  getEntities(): IEntity[] {
+    return Array.from(this.entities.values());
+  }
+
+  getPlayer(): Player | null {
+    return this.player;
+  }
+
+  applyWorld(event: WorldEvent, now: number): void {
+    this.entities.clear();
+    this.motions.clear();
+
+    event.entities.forEach((saved) => this.addEntity(saved));
+
+    const player = SaveGameSerializer.deserializeEntity(event.player);
+    if (!(player instanceof Player)) {
+      throw new Error("Invalid world snapshot: player entity is not a player");
+    }
+    this.player = player;
+    this.motions.set(player.id, this.createMotion(player.position));
+
+    this.snapshotAt = now;
+    this.settled = false;
+  }
+
+  applyDiff(event: DiffEvent, now: number): void {
+    // Continue every motion from where it is currently drawn
+    this.interpolate(now);
+    this.motions.forEach((motion, id) => {
+      const entity = this.getMovable(id);
+      if (entity) {
+        motion.from = entity.position;
+      }
+    });
+
+    event.removed.forEach((id) => {
+      this.entities.delete(id);
+      this.motions.delete(id);
+    });
+    event.added.forEach((saved) => this.addEntity(saved));
+    event.changed.forEach((diff) => {
+      const entity = this.entities.get(diff.id);
+      if (entity) {
+        this.applyEntityDiff(entity, diff);
+      }
+    });
+    if (event.player && this.player) {
+      this.applyEntityDiff(this.player, event.player);
+    }
+    if (event.memories) {
+      Object.entries(event.memories).forEach(([id, memories]) => {
+        const entity = this.entities.get(id);
+        if (entity && MigrationModel.isMigrant(entity)) {
+          entity.memories = memories;
+        }
+      });
+    }
+
+    this.snapshotAt = now;
+    this.settled = false;
+  }
+
+  // Move entities to their interpolated positions for a frame drawn at now.
+  // Returns false when nothing moved since the previous frame.
+  interpolate(now: number): boolean {
+    if (this.settled) return false;
+
+    const alpha = Math.max(
+      0,
+      Math.min(1, (now - this.snapshotAt) / this.snapshotInterval)
+    );
+    this.motions.forEach((motion, id) => {
+      const entity = this.getMovable(id);
+      if (!entity) return;
+
+      entity.position = new Position(
+        motion.from.x + (motion.to.x - motion.from.x) * alpha,
+        motion.from.y + (motion.to.y - motion.from.y) * alpha
+      );
+    });
+
+    this.settled = alpha >= 1;
+    return true;
+  }
+
+  private addEntity(saved: SavedEntity): void {
+    const entity = SaveGameSerializer.deserializeEntity(saved);
+    this.entities.set(entity.id, entity);
+    this.motions.set(entity.id, this.createMotion(entity.position));
+  }
+
+  private applyEntityDiff(entity: IEntity, diff: EntityDiff): void {
+    if (diff.fields) {
+      Object.assign(entity, diff.fields);
+    }
+    if (diff.inventory && entity instanceof Player) {
+      entity.inventory = diff.inventory.map((item) =>
+        SaveGameSerializer.deserializeEntity(item)
+      );
+    }
+    if (diff.position) {
+      const motion = this.motions.get(entity.id);
+      const target = new Position(diff.position.x, diff.position.y);
+      if (motion) {
+        motion.to = target;
+      } else {
+        this.motions.set(entity.id, this.createMotion(target));
+      }
+    }
+  }
+
+  private getMovable(id: string): IEntity | undefined {
+    return this.player && this.player.id === id
+      ? this.player
+      : this.entities.get(id);
+  }
+
+  private createMotion(position: Position): Motion {
+    return { from: position, to: position };
+  }
+}
@@ -0,0 +1,287 @@
+import {
+  Room,
+  RoomWeather,
+  Season,
+  SeasonValue,
+  WeatherEvent,
+  WeatherEventValue,
+} from "../types/gameTypes";
+import { BiomeModifiers, BiomeStyle } from "../types/biomeTypes";
+import { BiomeRegistry } from "../biomes/BiomeRegistry";
+import { SeededRandom } from "../utils/SeededRandom";
+import { SoilModel } from "./SoilModel";
+import { AtmosphereModel } from "./AtmosphereModel";
+
+// Ambient particles drawn while an event lasts, replacing the biome's own
+export type WeatherParticles = Pick<
+  BiomeStyle,
+  "particleColor" | "particleCount" | "particleSize"
+>;
+
+// Environment factors on top of the biome's own modifiers. 1 means no change.
+export type EnvironmentModifiers = Pick<
+  BiomeModifiers,
+  "speedMultiplier" | "foodEfficiency" | "reproductionRate"
+>;
+
+export interface WeatherEventConfig {
+  name: string;
+  icon: string;
+  duration: { min: number; max: number }; // Simulated seconds
+  modifiers: EnvironmentModifiers;
+  particles: WeatherParticles;
+  moistureChange: number; // Soil moisture added per second
+  contaminationChange: number; // Air contamination added per second
+  startMessage: string;
+  endMessage: string;
+}
+
+export interface SeasonConfig {
+  name: string;
+  icon: string;
+  modifiers: EnvironmentModifiers;
+  // How much more (or less) likely each weather event is than usual
+  weatherLikelihood: Partial<Record<WeatherEventValue, number>>;
+}
+
+const WeatherEvents: Record<WeatherEventValue, WeatherEventConfig> = {
+  [WeatherEvent.RAIN]: {
+    name: "Rain",
+    icon: "🌧️",
+    duration: { min: 30, max: 90 },
+    modifiers: {
+      speedMultiplier: 0.9,
+      foodEfficiency: 1.1,
+      reproductionRate: 1.2,
+    },
+    particles: { particleColor: "#93c5fd", particleCount: 60, particleSize: 2 },
+    moistureChange: 0.01,
+    contaminationChange: 0,
+    startMessage: "🌧️ Rain starts falling",
+    endMessage: "🌤️ The rain stops",
+  },
+  [WeatherEvent.DROUGHT]: {
+    name: "Drought",
+    icon: "🔥",
+    duration: { min: 60, max: 180 },
+    modifiers: {
+      speedMultiplier: 1,
+      foodEfficiency: 0.7,
+      reproductionRate: 0.6,
+    },
+    particles: { particleColor: "#fde68a", particleCount: 10, particleSize: 1 },
+    moistureChange: -0.01,
+    contaminationChange: 0,
+    startMessage: "🔥 A drought dries the ground out",
+    endMessage: "💧 The drought breaks",
+  },
+  [WeatherEvent.SANDSTORM]: {
+    name: "Sandstorm",
+    icon: "🌪️",
+    duration: { min: 20, max: 60 },
+    modifiers: {
+      speedMultiplier: 0.6,
+      foodEfficiency: 0.8,
+      reproductionRate: 0.8,
+    },
+    particles: { particleColor: "#d97706", particleCount: 80, particleSize: 2 },
+    moistureChange: -0.005,
+    contaminationChange: 0,
+    startMessage: "🌪️ A sandstorm sweeps through",
+    endMessage: "🏜️ The sandstorm settles",
+  },
+  [WeatherEvent.CHEMICAL_LEAK]: {
+    name: "Chemical leak",
+    icon: "☣️",
+    duration: { min: 30, max: 90 },
+    modifiers: {
+      speedMultiplier: 0.9,
+      foodEfficiency: 0.9,
+      reproductionRate: 0.7,
+    },
+    particles: { particleColor: "#a3e635", particleCount: 40, particleSize: 3 },
+    moistureChange: 0,
+    contaminationChange: 0.005,
+    startMessage: "☣️ Chemicals leak from a broken container",
+    endMessage: "🧪 The chemical leak is contained",
+  },
+  [WeatherEvent.FOG]: {
+    name: "Fog",
+    icon: "🌫️",
+    duration: { min: 40, max: 120 },
+    modifiers: { speedMultiplier: 0.8, foodEfficiency: 1, reproductionRate: 1 },
+    particles: { particleColor: "#e2e8f0", particleCount: 50, particleSize: 4 },
+    moistureChange: 0.002,
+    contaminationChange: 0,
+    startMessage: "🌫️ Fog rolls in",
+    endMessage: "🌤️ The fog lifts",
+  },
+};
+
+const Seasons: Record<SeasonValue, SeasonConfig> = {
+  [Season.SPRING]: {
+    name: "Spring",
+    icon: "🌸",
+    modifiers: {
+      speedMultiplier: 1,
+      foodEfficiency: 1.1,
+      reproductionRate: 1.3,
+    },
+    weatherLikelihood: { [WeatherEvent.RAIN]: 2 },
+  },
+  [Season.SUMMER]: {
+    name: "Summer",
+    icon: "☀️",
+    modifiers: {
+      speedMultiplier: 1.05,
+      foodEfficiency: 1,
+      reproductionRate: 1,
+    },
+    weatherLikelihood: {
+      [WeatherEvent.DROUGHT]: 2,
+      [WeatherEvent.SANDSTORM]: 1.5,
+    },
+  },
+  [Season.AUTUMN]: {
+    name: "Autumn",
+    icon: "🍂",
+    modifiers: {
+      speedMultiplier: 1,
+      foodEfficiency: 0.9,
+      reproductionRate: 0.8,
+    },
+    weatherLikelihood: { [WeatherEvent.FOG]: 2, [WeatherEvent.RAIN]: 1.5 },
+  },
+  [Season.WINTER]: {
+    name: "Winter",
+    icon: "❄️",
+    modifiers: {
+      speedMultiplier: 0.85,
+      foodEfficiency: 0.8,
+      reproductionRate: 0.7,
+    },
+    weatherLikelihood: { [WeatherEvent.FOG]: 1.5, [WeatherEvent.DROUGHT]: 0.5 },
+  },
+};
+
+const SeasonOrder: SeasonValue[] = [
+  Season.SPRING,
+  Season.SUMMER,
+  Season.AUTUMN,
+  Season.WINTER,
+];
+
+export const WeatherRates = {
+  EVENT_CHANCE: 0.003, // Chance per second that clear weather turns
+  SEASON_LENGTH: 480, // Simulated seconds per season - two days
+} as const;
+
+// Weather events per room and the seasons of the year. Weather is random and
+// kept on the room; seasons follow the simulation clock.
+export class WeatherSystem {
+  static create(): RoomWeather {
+    return { event: null, remaining: 0 };
+  }
+
+  static getEventConfig(event: WeatherEventValue): WeatherEventConfig {
+    return WeatherEvents[event];
+  }
+
+  static getSeason(gameTime: number): SeasonValue {
+    const index =
+      Math.floor(gameTime / WeatherRates.SEASON_LENGTH) % SeasonOrder.length;
+    return SeasonOrder[index] ?? Season.SPRING;
+  }
+
+  static getSeasonConfig(season: SeasonValue): SeasonConfig {
+    return Seasons[season];
+  }
+
+  // Run a room's weather for deltaTime: apply the current event to soil and
+  // air, end it when it runs out or start a new one. Returns the message to
+  // post when the weather changed.
+  static advance(
+    room: Room,
+    gameTime: number,
+    rng: SeededRandom,
+    deltaTime: number
+  ): string | null {
+    const weather = room.weather;
+
+    if (weather.event) {
+      const config = WeatherEvents[weather.event];
+      SoilModel.water(room.soil, config.moistureChange * deltaTime);
+      AtmosphereModel.contaminate(
+        room.atmosphere,
+        config.contaminationChange * deltaTime
+      );
+
+      weather.remaining -= deltaTime;
+      if (weather.remaining <= 0) {
+        room.weather = WeatherSystem.create();
+        return config.endMessage;
+      }
+      return null;
+    }
+
+    if (rng.next() >= WeatherRates.EVENT_CHANCE * deltaTime) return null;
+
+    const event = WeatherSystem.pickEvent(
+      room.biome,
+      WeatherSystem.getSeason(gameTime),
+      rng
+    );
+    const config = WeatherEvents[event];
+    room.weather = {
+      event,
+      remaining: rng.range(config.duration.min, config.duration.max),
+    };
+    return config.startMessage;
+  }
+
+  // Combined season and weather factors for a room
+  static getModifiers(room: Room, gameTime: number): EnvironmentModifiers {
+    const season = Seasons[WeatherSystem.getSeason(gameTime)].modifiers;
+    const weather = room.weather.event
+      ? WeatherEvents[room.weather.event].modifiers
+      : null;
+
+    return {
+      speedMultiplier:
+        season.speedMultiplier * (weather?.speedMultiplier ?? 1),
+      foodEfficiency: season.foodEfficiency * (weather?.foodEfficiency ?? 1),
+      reproductionRate:
+        season.reproductionRate * (weather?.reproductionRate ?? 1),
+    };
+  }
+
+  // Particle settings for a room - the weather's while an event lasts
+  static getParticles(room: Room, biomeStyle: BiomeStyle): WeatherParticles {
+    return room.weather.event
+      ? WeatherEvents[room.weather.event].particles
+      : biomeStyle;
+  }
+
+  private static pickEvent(
+    biome: string,
+    season: SeasonValue,
+    rng: SeededRandom
+  ): WeatherEventValue {
+    const likelihood = Seasons[season].weatherLikelihood;
+    // Weather the biome can have, with relative odds
+    const options = BiomeRegistry.getOrDefault(biome).weather.map(
+      ({ event, weight }) => ({
+        event,
+        weight: weight * (likelihood[event] ?? 1),
+      })
+    );
+
+    const total = options.reduce((sum, option) => sum + option.weight, 0);
+    let roll = rng.next() * total;
+    for (const option of options) {
+      roll -= option.weight;
+      if (roll < 0) return option.event;
+    }
+    return options[options.length - 1]?.event ?? WeatherEvent.RAIN;
+  }
+}
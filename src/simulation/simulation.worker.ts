@@ -0,0 +1,11 @@
+import { SimulationWorker } from "./SimulationWorker";
+import { SimulationCommand, SimulationEvent } from "./SimulationProtocol";
+
+// Web Worker entry point - runs the simulation off the UI thread
+const scope = self as unknown as {
+  postMessage: (event: SimulationEvent) => void;
+  onmessage: ((message: MessageEvent<SimulationCommand>) => void) | null;
+};
+
+const worker = new SimulationWorker((event) => scope.postMessage(event));
+scope.onmessage = (message) => worker.handleCommand(message.data);
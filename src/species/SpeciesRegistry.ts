@@ -0,0 +1,270 @@
+import { EntityTypeValue } from "../types/gameTypes";
+import {
+  AIProfile,
+  CarnivoreSpecies,
+  DecomposerSpecies,
+  HerbivoreSpecies,
+  InvasiveProfile,
+  PlantSpecies,
+  SpeciesDefinition,
+  SpeciesSprite,
+} from "../types/speciesTypes";
+import { PlantDefinitions } from "./plants";
+import { HerbivoreDefinitions } from "./herbivores";
+import { CarnivoreDefinitions } from "./carnivores";
+import { DecomposerDefinitions } from "./decomposers";
+
+// Species names of each kind found in a biome, in registration order
+export interface BiomeSpecies {
+  plants: string[];
+  herbivores: string[];
+  carnivores: string[];
+  decomposers: string[];
+}
+
+// Stand-ins for species that are not registered, e.g. from old room
+// templates. Never placed in a biome.
+const DEFAULT_PLANT: PlantSpecies = {
+  id: "unknown_plant",
+  kind: "plant",
+  name: "Unknown Plant",
+  biomes: [],
+  sprite: { icon: "🌱", color: "#4ade80", size: 25 },
+  stats: { weight: 0.5, foodValue: 10, oxygenProduction: 1, needsLight: true },
+};
+
+const DEFAULT_AI: AIProfile = {
+  threatRange: 200,
+  fleeSpeedMultiplier: 1.5,
+  wanderRadius: 50,
+  wanderDistance: 100,
+};
+
+const DEFAULT_HERBIVORE: HerbivoreSpecies = {
+  id: "unknown_herbivore",
+  kind: "herbivore",
+  name: "Unknown Herbivore",
+  biomes: [],
+  sprite: { icon: "🐰", color: "#f3f4f6", size: 30 },
+  stats: { speed: 60, maxHealth: 60, weight: 2, foodValue: 20 },
+  diet: {
+    hungerPerKg: 35,
+    grazingHungerThreshold: 0.6,
+    eatingHungerThreshold: 0.5,
+  },
+  activity: "diurnal",
+  ai: DEFAULT_AI,
+};
+
+const DEFAULT_CARNIVORE: CarnivoreSpecies = {
+  id: "unknown_carnivore",
+  kind: "carnivore",
+  name: "Unknown Carnivore",
+  biomes: [],
+  sprite: { icon: "🐀", color: "#6b7280", size: 28 },
+  stats: { speed: 90, maxHealth: 100, weight: 5, attackPower: 25 },
+  diet: { hungerPerKg: 30 },
+  hunting: { style: "chase", stealthLevel: 0.5, detectionRange: 60 },
+  activity: "diurnal",
+  ai: DEFAULT_AI,
+};
+
+const DEFAULT_DECOMPOSER: DecomposerSpecies = {
+  id: "unknown_decomposer",
+  kind: "decomposer",
+  name: "Unknown Decomposer",
+  biomes: [],
+  sprite: { icon: "🪲", color: "#92400e", size: 20 },
+  stats: { speed: 30, maxHealth: 30, weight: 0.1 },
+  diet: { hungerPerKg: 60, decompositionRate: 0.03 },
+  activity: "nocturnal",
+  ai: { ...DEFAULT_AI, threatRange: 0, wanderRadius: 30, wanderDistance: 60 },
+};
+
+// Most species struggle away from home
+const DEFAULT_INVASIVE: InvasiveProfile = {
+  speedMultiplier: 1,
+  reproductionRate: 0.8,
+  foodEfficiency: 0.7,
+  competition: 0.3,
+};
+
+const UNKNOWN_SPRITE: SpeciesSprite = {
+  icon: "❓",
+  color: "#94a3b8",
+  size: 30,
+};
+
+// Every species in the game, looked up by the name stored on entities.
+// Definitions are checked as they are registered, so a broken one fails
+// when the game loads rather than when the species first spawns.
+export class SpeciesRegistry {
+  private static definitions: Map<string, SpeciesDefinition> = new Map();
+
+  static register(definition: SpeciesDefinition): void {
+    const problem = SpeciesRegistry.validate(definition);
+    if (problem) {
+      throw new Error(
+        `Invalid species definition "${definition.id}": ${problem}`
+      );
+    }
+    SpeciesRegistry.definitions.set(definition.id, definition);
+  }
+
+  static get(id: string): SpeciesDefinition | undefined {
+    return SpeciesRegistry.definitions.get(id);
+  }
+
+  static getAll(): SpeciesDefinition[] {
+    return Array.from(SpeciesRegistry.definitions.values());
+  }
+
+  static getPlant(id: string): PlantSpecies {
+    const definition = SpeciesRegistry.get(id);
+    return definition?.kind === "plant" ? definition : DEFAULT_PLANT;
+  }
+
+  static getHerbivore(id: string): HerbivoreSpecies {
+    const definition = SpeciesRegistry.get(id);
+    return definition?.kind === "herbivore" ? definition : DEFAULT_HERBIVORE;
+  }
+
+  static getCarnivore(id: string): CarnivoreSpecies {
+    const definition = SpeciesRegistry.get(id);
+    return definition?.kind === "carnivore" ? definition : DEFAULT_CARNIVORE;
+  }
+
+  static getDecomposer(id: string): DecomposerSpecies {
+    const definition = SpeciesRegistry.get(id);
+    return definition?.kind === "decomposer"
+      ? definition
+      : DEFAULT_DECOMPOSER;
+  }
+
+  // Sprite for an entity of the given type and species
+  static getSprite(type: EntityTypeValue, species: string): SpeciesSprite {
+    switch (type) {
+      case "plant":
+        return SpeciesRegistry.getPlant(species).sprite;
+      case "herbivore":
+        return SpeciesRegistry.getHerbivore(species).sprite;
+      case "carnivore":
+        return SpeciesRegistry.getCarnivore(species).sprite;
+      case "decomposer":
+        return SpeciesRegistry.getDecomposer(species).sprite;
+      default:
+        return UNKNOWN_SPRITE;
+    }
+  }
+
+  static getInvasiveProfile(id: string): InvasiveProfile {
+    return SpeciesRegistry.get(id)?.invasive || DEFAULT_INVASIVE;
+  }
+
+  // Whether a species is at home in a biome. Unknown species belong
+  // everywhere.
+  static isNative(id: string, biome: string): boolean {
+    const definition = SpeciesRegistry.get(id);
+    return !definition || definition.biomes.includes(biome);
+  }
+
+  static getBiomeSpecies(biome: string): BiomeSpecies {
+    const idsOf = (kind: SpeciesDefinition["kind"]) =>
+      SpeciesRegistry.getAll()
+        .filter(
+          (definition) =>
+            definition.kind === kind && definition.biomes.includes(biome)
+        )
+        .map((definition) => definition.id);
+
+    return {
+      plants: idsOf("plant"),
+      herbivores: idsOf("herbivore"),
+      carnivores: idsOf("carnivore"),
+      decomposers: idsOf("decomposer"),
+    };
+  }
+
+  // Describe what is wrong with a definition, or return null if it is valid
+  private static validate(definition: SpeciesDefinition): string | null {
+    if (!definition.id) return "missing id";
+    if (SpeciesRegistry.definitions.has(definition.id)) {
+      return "id is already registered";
+    }
+    if (!definition.name) return "missing name";
+    if (!definition.sprite.icon) return "missing sprite icon";
+    if (!(definition.sprite.size > 0)) return "sprite size must be positive";
+
+    const { invasive } = definition;
+    if (invasive) {
+      if (
+        !(
+          invasive.speedMultiplier > 0 &&
+          invasive.reproductionRate > 0 &&
+          invasive.foodEfficiency > 0
+        )
+      ) {
+        return "invasive factors must be positive";
+      }
+      if (!SpeciesRegistry.isFraction(invasive.competition)) {
+        return "invasive competition must be between 0 and 1";
+      }
+    }
+
+    if (!(definition.stats.weight > 0)) return "weight must be positive";
+    if (definition.kind === "plant") {
+      if (definition.stats.foodValue < 0) return "negative food value";
+      if (definition.stats.oxygenProduction < 0) {
+        return "negative oxygen production";
+      }
+      return null;
+    }
+
+    if (!(definition.stats.maxHealth > 0)) {
+      return "max health must be positive";
+    }
+    if (!(definition.stats.speed >= 0)) return "negative speed";
+    if (!(definition.diet.hungerPerKg > 0)) {
+      return "hunger per kg must be positive";
+    }
+    if (definition.ai.threatRange < 0) return "negative threat range";
+
+    switch (definition.kind) {
+      case "herbivore": {
+        const { grazingHungerThreshold, eatingHungerThreshold } =
+          definition.diet;
+        if (!SpeciesRegistry.isFraction(grazingHungerThreshold)) {
+          return "grazing hunger threshold must be between 0 and 1";
+        }
+        if (!SpeciesRegistry.isFraction(eatingHungerThreshold)) {
+          return "eating hunger threshold must be between 0 and 1";
+        }
+        return null;
+      }
+      case "carnivore":
+        if (!SpeciesRegistry.isFraction(definition.hunting.stealthLevel)) {
+          return "stealth level must be between 0 and 1";
+        }
+        if (definition.hunting.detectionRange < 0) {
+          return "negative detection range";
+        }
+        return null;
+      case "decomposer":
+        if (!(definition.diet.decompositionRate > 0)) {
+          return "decomposition rate must be positive";
+        }
+        return null;
+    }
+  }
+
+  private static isFraction(value: number): boolean {
+    return value >= 0 && value <= 1;
+  }
+}
+
+[
+  ...PlantDefinitions,
+  ...HerbivoreDefinitions,
+  ...CarnivoreDefinitions,
+  ...DecomposerDefinitions,
+].forEach((definition) => SpeciesRegistry.register(definition));
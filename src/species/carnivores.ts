@@ -0,0 +1,78 @@
+import { AIProfile, CarnivoreSpecies } from "../types/speciesTypes";
+
+// Hunters keep clear of bigger predators
+const HUNTER_AI: AIProfile = {
+  threatRange: 200,
+  fleeSpeedMultiplier: 1.5,
+  wanderRadius: 50,
+  wanderDistance: 100,
+};
+
+export const CarnivoreDefinitions: CarnivoreSpecies[] = [
+  {
+    id: "rat",
+    kind: "carnivore",
+    name: "Rat",
+    biomes: ["forest", "desert"],
+    sprite: { icon: "🐀", color: "#6b7280", size: 28 },
+    // Fast, agile and very light
+    stats: { speed: 110, maxHealth: 80, weight: 0.3, attackPower: 20 },
+    diet: { hungerPerKg: 32 },
+    // Sneaky, hard to notice
+    hunting: { style: "stealth", stealthLevel: 0.8, detectionRange: 30 },
+    activity: "nocturnal",
+    ai: HUNTER_AI,
+  },
+  {
+    id: "wolf",
+    kind: "carnivore",
+    name: "Wolf",
+    biomes: ["forest", "desert", "laboratory"],
+    sprite: { icon: "🐺", color: "#374151", size: 40 },
+    // Very fast pack hunter
+    stats: { speed: 130, maxHealth: 120, weight: 40, attackPower: 35 },
+    diet: { hungerPerKg: 35 },
+    // Relies on speed and numbers rather than stealth
+    hunting: {
+      style: "chase",
+      stealthLevel: 0.3,
+      detectionRange: 80,
+      social: true,
+    },
+    activity: "nocturnal", // Hunts by night
+    ai: HUNTER_AI,
+  },
+  {
+    id: "snake",
+    kind: "carnivore",
+    name: "Snake",
+    biomes: ["forest", "desert"],
+    sprite: { icon: "🐍", color: "#059669", size: 35 },
+    stats: { speed: 90, maxHealth: 60, weight: 2, attackPower: 40 },
+    diet: { hungerPerKg: 40 },
+    hunting: { style: "ambush", stealthLevel: 0.9, detectionRange: 20 },
+    activity: "crepuscular", // Hunts at dawn and dusk
+    ai: HUNTER_AI,
+  },
+  {
+    id: "bear",
+    kind: "carnivore",
+    name: "Bear",
+    biomes: ["laboratory"],
+    sprite: { icon: "🐻", color: "#6b7280", size: 40 },
+    // Very heavy, needs more food per kg
+    stats: { speed: 80, maxHealth: 200, weight: 300, attackPower: 50 },
+    diet: { hungerPerKg: 25 },
+    // Ambushes when possible, fairly stealthy for its size
+    hunting: { style: "ambush", stealthLevel: 0.6, detectionRange: 50 },
+    activity: "diurnal",
+    ai: HUNTER_AI,
+    // Escaped lab mutant - strong but slow to breed outside the lab
+    invasive: {
+      speedMultiplier: 1.1,
+      reproductionRate: 0.6,
+      foodEfficiency: 1,
+      competition: 0.5,
+    },
+  },
+];
@@ -0,0 +1,55 @@
+import { AIProfile, DecomposerSpecies } from "../types/speciesTypes";
+
+// Nothing hunts decomposers - they only crawl about looking for carcasses
+const CRAWLER_AI: AIProfile = {
+  threatRange: 0,
+  fleeSpeedMultiplier: 1,
+  wanderRadius: 30,
+  wanderDistance: 60,
+};
+
+export const DecomposerDefinitions: DecomposerSpecies[] = [
+  {
+    id: "beetle",
+    kind: "decomposer",
+    name: "Beetle",
+    biomes: ["forest", "desert", "laboratory"],
+    sprite: { icon: "🪲", color: "#92400e", size: 20 },
+    // Quickest to find a carcass
+    stats: { speed: 45, maxHealth: 30, weight: 0.1 },
+    diet: { hungerPerKg: 60, decompositionRate: 0.03 },
+    activity: "nocturnal",
+    ai: CRAWLER_AI,
+  },
+  {
+    id: "worm",
+    kind: "decomposer",
+    name: "Worm",
+    biomes: ["forest"], // Too dry for worms in the desert
+    sprite: { icon: "🪱", color: "#92400e", size: 20 },
+    stats: { speed: 20, maxHealth: 25, weight: 0.05 },
+    diet: { hungerPerKg: 60, decompositionRate: 0.025 },
+    activity: "nocturnal",
+    ai: CRAWLER_AI,
+    // Barely survives away from damp forest soil
+    invasive: {
+      speedMultiplier: 0.8,
+      reproductionRate: 0.4,
+      foodEfficiency: 1,
+      competition: 0.1,
+    },
+  },
+  {
+    id: "fungus",
+    kind: "decomposer",
+    name: "Fungus",
+    biomes: ["forest", "laboratory"],
+    sprite: { icon: "🍄", color: "#92400e", size: 20 },
+    // Colonies creep rather than crawl and spread by spores
+    stats: { speed: 5, maxHealth: 40, weight: 0.3, reproductionRate: 0.0006 },
+    // Slow to arrive, fast to digest
+    diet: { hungerPerKg: 60, decompositionRate: 0.04 },
+    activity: "cathemeral", // Never sleeps
+    ai: CRAWLER_AI,
+  },
+];
@@ -0,0 +1,85 @@
+import { AIProfile, HerbivoreSpecies } from "../types/speciesTypes";
+
+// Grazers notice predators at a distance and bolt
+const GRAZER_AI: AIProfile = {
+  threatRange: 200,
+  fleeSpeedMultiplier: 1.5,
+  wanderRadius: 50,
+  wanderDistance: 100,
+};
+
+export const HerbivoreDefinitions: HerbivoreSpecies[] = [
+  {
+    id: "rabbit",
+    kind: "herbivore",
+    name: "Rabbit",
+    biomes: ["forest"],
+    sprite: { icon: "🐰", color: "#f3f4f6", size: 35 },
+    // Fast, agile and light
+    stats: { speed: 120, maxHealth: 60, weight: 2.5, foodValue: 25 },
+    // Efficient grazer
+    diet: {
+      hungerPerKg: 40,
+      grazingHungerThreshold: 0.6,
+      eatingHungerThreshold: 0.5,
+    },
+    activity: "crepuscular", // Feeds at dawn and dusk
+    ai: GRAZER_AI,
+    // Breeds out of control wherever it is let loose
+    invasive: {
+      speedMultiplier: 1,
+      reproductionRate: 1.5,
+      foodEfficiency: 0.9,
+      competition: 0.6,
+    },
+  },
+  {
+    id: "deer",
+    kind: "herbivore",
+    name: "Deer",
+    biomes: ["forest", "desert"],
+    sprite: { icon: "🦌", color: "#d97706", size: 45 },
+    // Moderate speed, good stamina, heavy
+    stats: { speed: 100, maxHealth: 120, weight: 80, foodValue: 50 },
+    // Needs more food per kg but grazes efficiently
+    diet: {
+      hungerPerKg: 30,
+      grazingHungerThreshold: 0.65,
+      eatingHungerThreshold: 0.55,
+    },
+    activity: "diurnal",
+    ai: GRAZER_AI,
+  },
+  {
+    id: "mouse",
+    kind: "herbivore",
+    name: "Mouse",
+    biomes: ["forest", "desert", "laboratory"],
+    sprite: { icon: "🐁", color: "#fbbf24", size: 30 },
+    stats: { speed: 80, maxHealth: 40, weight: 0.3, foodValue: 15 },
+    // Very efficient, small stomach
+    diet: {
+      hungerPerKg: 45,
+      grazingHungerThreshold: 0.7,
+      eatingHungerThreshold: 0.6,
+    },
+    activity: "nocturnal", // Forages in the dark
+    ai: GRAZER_AI,
+  },
+  {
+    id: "turtle",
+    kind: "herbivore",
+    name: "Turtle",
+    biomes: ["forest", "desert", "laboratory"],
+    sprite: { icon: "🐢", color: "#f3f4f6", size: 30 },
+    stats: { speed: 40, maxHealth: 150, weight: 15, foodValue: 35 },
+    // Slow metabolism
+    diet: {
+      hungerPerKg: 25,
+      grazingHungerThreshold: 0.75,
+      eatingHungerThreshold: 0.65,
+    },
+    activity: "diurnal",
+    ai: GRAZER_AI,
+  },
+];
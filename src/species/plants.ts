@@ -0,0 +1,136 @@
+import { PlantSpecies, SpeciesSprite } from "../types/speciesTypes";
+
+const SEEDLING: SpeciesSprite = { icon: "🌱", color: "#4ade80", size: 25 };
+
+export const PlantDefinitions: PlantSpecies[] = [
+  {
+    id: "moss",
+    kind: "plant",
+    name: "Moss",
+    biomes: ["forest"],
+    sprite: SEEDLING,
+    stats: { weight: 0.3, foodValue: 8, oxygenProduction: 1, needsLight: true },
+    // Planted by the player everywhere, and smothers the local ground cover
+    invasive: {
+      speedMultiplier: 1,
+      reproductionRate: 1.3,
+      foodEfficiency: 1,
+      competition: 0.5,
+    },
+  },
+  {
+    id: "fern",
+    kind: "plant",
+    name: "Fern",
+    biomes: ["forest"],
+    sprite: SEEDLING,
+    // Large leaves
+    stats: {
+      weight: 0.8,
+      foodValue: 12,
+      oxygenProduction: 1.2,
+      needsLight: true,
+    },
+  },
+  {
+    id: "mushroom",
+    kind: "plant",
+    name: "Mushroom",
+    biomes: ["forest"],
+    sprite: SEEDLING,
+    // Fungi do not photosynthesize and grow in the dark
+    stats: {
+      weight: 0.5,
+      foodValue: 15,
+      oxygenProduction: 0,
+      needsLight: false,
+    },
+  },
+  {
+    id: "flower",
+    kind: "plant",
+    name: "Flower",
+    biomes: ["forest"],
+    sprite: SEEDLING,
+    stats: {
+      weight: 0.6,
+      foodValue: 10,
+      oxygenProduction: 1,
+      needsLight: true,
+    },
+  },
+  {
+    id: "cactus",
+    kind: "plant",
+    name: "Cactus",
+    biomes: ["desert"],
+    sprite: SEEDLING,
+    stats: {
+      weight: 1.2,
+      foodValue: 20,
+      oxygenProduction: 0.6,
+      needsLight: true,
+    },
+  },
+  {
+    id: "desert_flower",
+    kind: "plant",
+    name: "Desert Flower",
+    biomes: ["desert"],
+    sprite: SEEDLING,
+    stats: { weight: 0.4, foodValue: 8, oxygenProduction: 1, needsLight: true },
+  },
+  {
+    id: "dry_grass",
+    kind: "plant",
+    name: "Dry Grass",
+    biomes: ["desert"],
+    sprite: SEEDLING,
+    stats: {
+      weight: 0.2,
+      foodValue: 6,
+      oxygenProduction: 0.7,
+      needsLight: true,
+    },
+  },
+  {
+    id: "mutated_moss",
+    kind: "plant",
+    name: "Mutated Moss",
+    biomes: ["laboratory"],
+    sprite: SEEDLING,
+    // Mutation boosted photosynthesis
+    stats: {
+      weight: 0.8,
+      foodValue: 25,
+      oxygenProduction: 1.5,
+      needsLight: true,
+    },
+  },
+  {
+    id: "glowing_fungus",
+    kind: "plant",
+    name: "Glowing Fungus",
+    biomes: ["laboratory"],
+    sprite: SEEDLING,
+    stats: {
+      weight: 1.0,
+      foodValue: 30,
+      oxygenProduction: 0,
+      needsLight: false,
+    },
+  },
+  {
+    id: "toxic_plant",
+    kind: "plant",
+    name: "Toxic Plant",
+    biomes: ["laboratory"],
+    sprite: SEEDLING,
+    stats: {
+      weight: 1.5,
+      foodValue: 35,
+      oxygenProduction: 0.8,
+      needsLight: true,
+    },
+  },
+];
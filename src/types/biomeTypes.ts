@@ -1,8 +1,10 @@
-export interface BiomeStyle {
-  id: string;
-  name: string;
-  description: string;
+import {
+  EcosystemHealthValue,
+  RoomAtmosphere,
+  WeatherEventValue,
+} from "./gameTypes";
 
+export interface BiomeStyle {
   // Background colors
   backgroundColor: string;
   wallColor: string;
@@ -31,146 +33,61 @@ export interface BiomeStyle {
   hasSteam?: boolean;
 }
 
-export const Biomes: { [key: string]: BiomeStyle } = {
-  laboratory: {
-    id: "laboratory",
-    name: "Laboratory",
-    description: "Clean, sterile research environment",
-    backgroundColor: "#1e293b",
-    wallColor: "#475569",
-    wallBorderColor: "#64748b",
-    floorColor: "#334155",
-    floorOpacity: 0.1,
-    gridColor: "#94a3b8",
-    gridOpacity: 0.2,
-    particleColor: "#94a3b8",
-    particleCount: 15,
-    particleSize: 2,
-    hasShadows: true,
-    shadowColor: "#000",
-    shadowOpacity: 0.3,
-  },
-
-  forest: {
-    id: "forest",
-    name: "Forest Biome",
-    description: "Natural woodland environment",
-    backgroundColor: "#1b4332",
-    wallColor: "#2d5a3d",
-    wallBorderColor: "#40916c",
-    floorColor: "#2d5a3d",
-    floorOpacity: 0.15,
-    gridColor: "#74c69d",
-    gridOpacity: 0.25,
-    particleColor: "#95d5b2",
-    particleCount: 20,
-    particleSize: 3,
-    hasShadows: true,
-    shadowColor: "#000",
-    shadowOpacity: 0.4,
-    hasVines: true,
-    hasMoss: true,
-  },
-
-  cave: {
-    id: "cave",
-    name: "Cave System",
-    description: "Dark, rocky underground environment",
-    backgroundColor: "#1a1a1a",
-    wallColor: "#2d2d2d",
-    wallBorderColor: "#404040",
-    floorColor: "#262626",
-    floorOpacity: 0.2,
-    gridColor: "#666666",
-    gridOpacity: 0.3,
-    particleColor: "#888888",
-    particleCount: 12,
-    particleSize: 2,
-    hasShadows: true,
-    shadowColor: "#000",
-    shadowOpacity: 0.6,
-    hasCrystals: true,
-  },
+// Room difficulty levels
+export const RoomDifficulty = {
+  EASY: "easy",
+  MEDIUM: "medium",
+  HARD: "hard",
+} as const;
 
-  swamp: {
-    id: "swamp",
-    name: "Swamp",
-    description: "Wet, murky wetland environment",
-    backgroundColor: "#1a2e1a",
-    wallColor: "#2d4d2d",
-    wallBorderColor: "#3d5a3d",
-    floorColor: "#2d4d2d",
-    floorOpacity: 0.25,
-    gridColor: "#6b8e6b",
-    gridOpacity: 0.35,
-    particleColor: "#8fbc8f",
-    particleCount: 25,
-    particleSize: 2,
-    hasShadows: true,
-    shadowColor: "#000",
-    shadowOpacity: 0.5,
-    hasSteam: true,
-    hasMoss: true,
-  },
+export type RoomDifficultyValue =
+  (typeof RoomDifficulty)[keyof typeof RoomDifficulty];
 
-  desert: {
-    id: "desert",
-    name: "Desert",
-    description: "Arid, sandy environment",
-    backgroundColor: "#fef3c7",
-    wallColor: "#f59e0b",
-    wallBorderColor: "#d97706",
-    floorColor: "#fbbf24",
-    floorOpacity: 0.3,
-    gridColor: "#f59e0b",
-    gridOpacity: 0.4,
-    particleColor: "#fbbf24",
-    particleCount: 30,
-    particleSize: 1,
-    hasShadows: false,
-    shadowColor: "#000",
-    shadowOpacity: 0,
-  },
+// How a biome changes creature behaviour. 1 means no change.
+export interface BiomeModifiers {
+  speedMultiplier: number;
+  aggressionMultiplier: number;
+  reproductionRate: number;
+  foodEfficiency: number;
+  energyEfficiency: number;
+}
 
-  arctic: {
-    id: "arctic",
-    name: "Arctic",
-    description: "Cold, icy environment",
-    backgroundColor: "#f0f9ff",
-    wallColor: "#e0f2fe",
-    wallBorderColor: "#bae6fd",
-    floorColor: "#e0f2fe",
-    floorOpacity: 0.2,
-    gridColor: "#7dd3fc",
-    gridOpacity: 0.3,
-    particleColor: "#bae6fd",
-    particleCount: 18,
-    particleSize: 2,
-    hasShadows: true,
-    shadowColor: "#000",
-    shadowOpacity: 0.2,
-    hasCrystals: true,
-  },
+// Day/night settings of a biome
+export interface DayCycleConfig {
+  dayLength: number; // Simulated seconds from one dawn to the next
+  nightLight: number; // Light level in the middle of the night (0-1)
+}
 
-  volcanic: {
-    id: "volcanic",
-    name: "Volcanic",
-    description: "Hot, fiery environment",
-    backgroundColor: "#450a0a",
-    wallColor: "#7f1d1d",
-    wallBorderColor: "#dc2626",
-    floorColor: "#7f1d1d",
-    floorOpacity: 0.3,
-    gridColor: "#ef4444",
-    gridOpacity: 0.4,
-    particleColor: "#fca5a5",
-    particleCount: 35,
-    particleSize: 2,
-    hasShadows: true,
-    shadowColor: "#000",
-    shadowOpacity: 0.7,
-    hasSteam: true,
-  },
-};
+export interface SizeRange {
+  min: number;
+  max: number;
+}
 
-export type BiomeType = keyof typeof Biomes;
+// Everything that makes up a zone of the dungeon. Species pools are not
+// listed here - each species names the biomes it lives in.
+export interface BiomeDefinition {
+  id: string; // Stored on rooms as their biome
+  name: string;
+  description: string;
+  difficulty: RoomDifficultyValue;
+  unlockLevel: number; // Player level that opens the zone; sets zone order
+  style: BiomeStyle;
+  roomSize: { width: SizeRange; height: SizeRange };
+  ecosystemSettings: {
+    initialHealth: EcosystemHealthValue;
+    growthRate: number;
+    reproductionRate: number;
+    hostilityLevel: number; // 0-10 scale
+  };
+  factionSettings: {
+    hasFactions: boolean;
+    factionCount: number;
+    hostilityLevel: number; // 0-10 scale
+  };
+  modifiers: BiomeModifiers;
+  decomposerModifiers?: BiomeModifiers; // Neutral when left out
+  soil: { nutrients: number; moisture: number }; // Starting and resting soil
+  atmosphere: RoomAtmosphere; // Resting air
+  dayCycle: DayCycleConfig;
+  weather: { event: WeatherEventValue; weight: number }[]; // Relative odds
+}
@@ -1,3 +1,6 @@
+import { SeededRandom } from "../utils/SeededRandom";
+import { SpeciesRegistry } from "../species/SpeciesRegistry";
+
 // Core entity types for the eco-dungeon
 export const EntityType = {
   PLANT: "plant",
@@ -48,6 +51,82 @@ export const EntityState = {
 
 export type EntityStateValue = (typeof EntityState)[keyof typeof EntityState];
 
+// Parts of a room's day - see DayNightCycle
+export const TimeOfDay = {
+  DAWN: "dawn",
+  DAY: "day",
+  DUSK: "dusk",
+  NIGHT: "night",
+} as const;
+
+export type TimeOfDayValue = (typeof TimeOfDay)[keyof typeof TimeOfDay];
+
+// When a species is awake
+export const ActivityPattern = {
+  DIURNAL: "diurnal", // Dawn and day
+  NOCTURNAL: "nocturnal", // Dusk and night
+  CREPUSCULAR: "crepuscular", // Dawn and dusk
+  CATHEMERAL: "cathemeral", // Around the clock
+} as const;
+
+export type ActivityPatternValue =
+  (typeof ActivityPattern)[keyof typeof ActivityPattern];
+
+// Seasons of the year - see WeatherSystem
+export const Season = {
+  SPRING: "spring",
+  SUMMER: "summer",
+  AUTUMN: "autumn",
+  WINTER: "winter",
+} as const;
+
+export type SeasonValue = (typeof Season)[keyof typeof Season];
+
+// Temporary weather in a room
+export const WeatherEvent = {
+  RAIN: "rain",
+  DROUGHT: "drought",
+  SANDSTORM: "sandstorm",
+  CHEMICAL_LEAK: "chemical_leak",
+  FOG: "fog",
+} as const;
+
+export type WeatherEventValue =
+  (typeof WeatherEvent)[keyof typeof WeatherEvent];
+
+// Diseases and parasites creatures can carry - see DiseaseModel
+export const Pathogen = {
+  FEVER: "fever",
+  WORMS: "worms",
+} as const;
+
+export type PathogenValue = (typeof Pathogen)[keyof typeof Pathogen];
+
+// How two factions, or a faction and the player, get along - see
+// FactionModel
+export const FactionRelation = {
+  ALLIED: "allied",
+  NEUTRAL: "neutral",
+  HOSTILE: "hostile",
+} as const;
+
+export type FactionRelationValue =
+  (typeof FactionRelation)[keyof typeof FactionRelation];
+
+// Place of a carnivore in its hunting pack - see PackModel
+export const PackRole = {
+  LEADER: "leader",
+  FLANKER: "flanker",
+} as const;
+
+export type PackRoleValue = (typeof PackRole)[keyof typeof PackRole];
+
+// A pathogen a creature is carrying
+export interface Infection {
+  pathogen: PathogenValue;
+  remaining: number; // Seconds until the host recovers
+}
+
 // Position in the dungeon world (free movement)
 export class Position {
   constructor(public x: number, public y: number) {}
@@ -73,6 +152,38 @@ export class Position {
   }
 }
 
+// Personality of a creature, shared by its AI and its genome
+export interface PersonalityTraits {
+  boldness: number; // 0-1: How willing to take risks
+  sociability: number; // 0-1: How social
+  aggression: number; // 0-1: How aggressive
+  energy: number; // 0-1: How energetic
+}
+
+// Kinds of place a creature remembers
+export const MemoryKind = {
+  FOOD: "food", // Plants or carcasses it saw
+  PREY: "prey", // Where it saw prey
+  DANGER: "danger", // Where it saw a predator or was attacked
+} as const;
+
+export type MemoryKindValue = (typeof MemoryKind)[keyof typeof MemoryKind];
+
+// A place a creature remembers
+export interface MemoryPoint {
+  kind: MemoryKindValue;
+  x: number;
+  y: number;
+  strength: number; // 1 when fresh, fading to 0 as it is forgotten
+}
+
+// Heritable make-up of a creature. Traits are numeric fields of the creature
+// keyed by field name; personality is filled in when its AI is created.
+export interface Genome {
+  traits: { [trait: string]: number };
+  personality: PersonalityTraits | null;
+}
+
 // Base entity interface
 export interface IEntity {
   id: string;
@@ -87,7 +198,11 @@ export interface IEntity {
   maxEnergy: number;
   weight: number; // Weight in kg - affects hunger and food value
   roomId: string; // Which room this entity belongs to
-  update(deltaTime: number): void;
+  timeSinceDeath: number; // Seconds since the entity died, 0 while alive
+  decayTimer: number; // Seconds until a decaying carcass is gone
+  decayDuration: number; // Total decay time, set when decay begins
+  reproductionModifier: number; // Weather and season factor on reproduction
+  update(deltaTime: number, rng: SeededRandom): void;
   canReproduce(): boolean;
 }
 
@@ -105,6 +220,10 @@ export abstract class Entity implements IEntity {
   public maxEnergy: number;
   public weight: number;
   public roomId: string;
+  public timeSinceDeath: number;
+  public decayTimer: number;
+  public decayDuration: number;
+  public reproductionModifier: number;
 
   constructor(
     id: string,
@@ -126,9 +245,13 @@ export abstract class Entity implements IEntity {
     this.maxEnergy = 100;
     this.weight = weight;
     this.roomId = roomId;
+    this.timeSinceDeath = 0;
+    this.decayTimer = 0;
+    this.decayDuration = 0;
+    this.reproductionModifier = 1;
   }
 
-  update(deltaTime: number): void {
+  update(deltaTime: number, rng: SeededRandom): void {
     this.age += deltaTime;
     this.energy = Math.max(0, this.energy - deltaTime * 0.1);
 
@@ -136,7 +259,12 @@ export abstract class Entity implements IEntity {
       this.health = Math.max(0, this.health - deltaTime * 0.5);
     }
 
-    if (this.health <= 0 && this.state !== EntityState.DEAD) {
+    // Decaying carcasses are already dead
+    if (
+      this.health <= 0 &&
+      this.state !== EntityState.DEAD &&
+      this.state !== EntityState.DECAYING
+    ) {
       this.state = EntityState.DEAD;
     }
   }
@@ -157,8 +285,18 @@ export interface IPlant extends IEntity {
   reproductionRate: number;
   oxygenProduction: number;
   foodValue: number;
+  fertility: number;
+  lightLevel: number;
+  needsLight: boolean;
 }
 
+// Soil fertility at which plants grow and reproduce at their base rates
+export const BASE_FERTILITY = 0.5;
+
+// Light level at which plants grow and reproduce at their base rates -
+// roughly the average over a day
+export const BASE_LIGHT_LEVEL = 0.6;
+
 // Plant entity
 export class Plant extends Entity implements IPlant {
   public species: string;
@@ -166,6 +304,9 @@ export class Plant extends Entity implements IPlant {
   public reproductionRate: number;
   public oxygenProduction: number;
   public foodValue: number;
+  public fertility: number; // Soil fertility under the plant (0-1)
+  public lightLevel: number; // Light reaching the plant (0-1)
+  public needsLight: boolean; // Fungi grow in the dark
 
   constructor(
     id: string,
@@ -177,70 +318,41 @@ export class Plant extends Entity implements IPlant {
     this.species = species;
     this.growthRate = 0.05; // Reduced growth rate
     this.reproductionRate = 0.0003; // Adjusted for 30 FPS (0.01/30)
-    this.oxygenProduction = 1;
-    this.foodValue = 10;
-
-    // Set species-specific weight and food value
-    switch (species) {
-      case "moss":
-        this.weight = 0.3; // Increased from 0.05 to 0.3 (6x more food)
-        this.foodValue = 8;
-        break;
-      case "fern":
-        this.weight = 0.8; // Increased from 0.2 to 0.8 (4x more food)
-        this.foodValue = 12;
-        break;
-      case "mushroom":
-        this.weight = 0.5; // Increased from 0.1 to 0.5 (5x more food)
-        this.foodValue = 15;
-        break;
-      case "flower":
-        this.weight = 0.6; // Increased from 0.15 to 0.6 (4x more food)
-        this.foodValue = 10;
-        break;
-      case "cactus":
-        this.weight = 1.2; // Increased from 0.3 to 1.2 (4x more food)
-        this.foodValue = 20;
-        break;
-      case "desert_flower":
-        this.weight = 0.4; // Increased from 0.1 to 0.4 (4x more food)
-        this.foodValue = 8;
-        break;
-      case "dry_grass":
-        this.weight = 0.2; // Increased from 0.05 to 0.2 (4x more food)
-        this.foodValue = 6;
-        break;
-      case "mutated_moss":
-        this.weight = 0.8; // Increased from 0.2 to 0.8 (4x more food)
-        this.foodValue = 25;
-        break;
-      case "glowing_fungus":
-        this.weight = 1.0; // Increased from 0.3 to 1.0 (3.3x more food)
-        this.foodValue = 30;
-        break;
-      case "toxic_plant":
-        this.weight = 1.5; // Increased from 0.4 to 1.5 (3.75x more food)
-        this.foodValue = 35;
-        break;
-      default:
-        this.weight = 0.5; // Increased from 0.1 to 0.5 (5x more food)
-        this.foodValue = 10;
-    }
+    this.fertility = BASE_FERTILITY;
+    this.lightLevel = BASE_LIGHT_LEVEL;
+
+    // Set species-specific weight, food value and oxygen output
+    const { stats } = SpeciesRegistry.getPlant(species);
+    this.weight = stats.weight;
+    this.foodValue = stats.foodValue;
+    this.oxygenProduction = stats.oxygenProduction;
+    this.needsLight = stats.needsLight;
   }
 
-  update(deltaTime: number): void {
-    super.update(deltaTime);
+  update(deltaTime: number, rng: SeededRandom): void {
+    super.update(deltaTime, rng);
 
     if (this.state === EntityState.ALIVE) {
+      // Rich soil and bright light speed growth up, poor soil and darkness
+      // slow it down
+      const soilFactor = this.fertility / BASE_FERTILITY;
+      const lightFactor = this.needsLight
+        ? this.lightLevel / BASE_LIGHT_LEVEL
+        : 1;
+      const growthFactor = soilFactor * lightFactor;
       this.health = Math.min(
         this.maxHealth,
-        this.health + this.growthRate * deltaTime
+        this.health + this.growthRate * growthFactor * deltaTime
       );
 
       // Reproduce occasionally (much less frequently)
       if (
         this.canReproduce() &&
-        Math.random() < this.reproductionRate * deltaTime
+        rng.next() <
+          this.reproductionRate *
+            growthFactor *
+            this.reproductionModifier *
+            deltaTime
       ) {
         this.state = EntityState.REPRODUCING;
       }
@@ -259,6 +371,15 @@ export interface IHerbivore extends IEntity {
   currentTarget: string | undefined; // ID of current eating target
   grazingHungerThreshold: number; // Percentage of hunger when creature starts grazing (0-1)
   eatingHungerThreshold: number; // Percentage of hunger when creature starts eating (0-1)
+  activity: ActivityPatternValue; // When the species is awake
+  genome: Genome; // Traits passed on to offspring
+  generation: number; // 0 for founders, parent's generation + 1 otherwise
+  infection: Infection | null; // Pathogen the creature carries
+  immunity: number; // Seconds until a recovered creature can fall ill again
+  migratingTo: string | null; // Teleporter the creature is leaving through
+  faction: string | null; // Faction of its room the creature belongs to
+  memories: MemoryPoint[]; // Places its AI remembers, for the debug panel
+  velocity: { x: number; y: number }; // Pixels per second it last moved
   eat(food: IPlant): void;
   clearTarget(): void;
 }
@@ -274,6 +395,15 @@ export class Herbivore extends Entity implements IHerbivore {
   public currentTarget: string | undefined;
   public grazingHungerThreshold: number;
   public eatingHungerThreshold: number;
+  public activity: ActivityPatternValue;
+  public genome: Genome;
+  public generation: number;
+  public infection: Infection | null;
+  public immunity: number;
+  public migratingTo: string | null;
+  public faction: string | null;
+  public memories: MemoryPoint[];
+  public velocity: { x: number; y: number };
 
   constructor(
     id: string,
@@ -283,66 +413,43 @@ export class Herbivore extends Entity implements IHerbivore {
   ) {
     super(id, EntityType.HERBIVORE, position, 60, 2.0, roomId);
     this.species = species;
-    this.speed = 80; // Much faster for visible movement
     this.hunger = 0;
-    this.maxHunger = 80; // Will be updated based on weight
     this.reproductionRate = 0.00027; // Adjusted for 30 FPS (0.008/30)
-    this.foodValue = 20;
 
     // Set species-specific stats with different speeds and weights
-    switch (species) {
-      case "rabbit":
-        this.speed = 120; // Fast and agile
-        this.maxHealth = 60;
-        this.health = 60;
-        this.weight = 2.5; // Light
-        this.foodValue = 25;
-        this.grazingHungerThreshold = 0.6; // Start grazing at 60% hunger
-        this.eatingHungerThreshold = 0.5; // Start eating at 50% hunger
-        break;
-      case "deer":
-        this.speed = 100; // Moderate speed, good stamina
-        this.maxHealth = 120;
-        this.health = 120;
-        this.weight = 80.0; // Heavy
-        this.foodValue = 50;
-        this.grazingHungerThreshold = 0.65; // Start grazing at 65% hunger (more efficient)
-        this.eatingHungerThreshold = 0.55; // Start eating at 55% hunger
-        break;
-      case "mouse":
-        this.speed = 80; // Increased from 4.2 to 80 for visible movement
-        this.maxHealth = 40;
-        this.health = 40;
-        this.weight = 0.3; // Increased from 0.03 to 0.3 for better hunger balance
-        this.foodValue = 15;
-        this.grazingHungerThreshold = 0.7; // Start grazing at 70% hunger (smaller stomach)
-        this.eatingHungerThreshold = 0.6; // Start eating at 60% hunger
-        break;
-      case "turtle":
-        this.speed = 40; // Increased from 1.2 to 40 for visible movement
-        this.maxHealth = 150;
-        this.health = 150;
-        this.weight = 15.0; // Medium weight
-        this.foodValue = 35;
-        this.grazingHungerThreshold = 0.75; // Start grazing at 75% hunger (slow metabolism)
-        this.eatingHungerThreshold = 0.65; // Start eating at 65% hunger
-        break;
-      default:
-        this.speed = 60; // Increased from 3.0 to 60 for visible movement
-        this.maxHealth = 60;
-        this.health = 60;
-        this.weight = 2.0;
-        this.foodValue = 20;
-        this.grazingHungerThreshold = 0.6; // Default grazing threshold
-        this.eatingHungerThreshold = 0.5; // Default eating threshold
-    }
+    const { stats, diet, activity } = SpeciesRegistry.getHerbivore(species);
+    this.speed = stats.speed;
+    this.maxHealth = stats.maxHealth;
+    this.health = stats.maxHealth;
+    this.weight = stats.weight;
+    this.foodValue = stats.foodValue;
+    this.grazingHungerThreshold = diet.grazingHungerThreshold;
+    this.eatingHungerThreshold = diet.eatingHungerThreshold;
+    this.activity = activity;
 
     // Set max hunger based on weight (heavier creatures need more food)
     this.maxHunger = this.weight * 40; // 40 hunger per kg of body weight
+
+    this.genome = {
+      traits: {
+        speed: this.speed,
+        weight: this.weight,
+        grazingHungerThreshold: this.grazingHungerThreshold,
+        eatingHungerThreshold: this.eatingHungerThreshold,
+      },
+      personality: null,
+    };
+    this.generation = 0;
+    this.infection = null;
+    this.immunity = 0;
+    this.migratingTo = null;
+    this.faction = null;
+    this.memories = [];
+    this.velocity = { x: 0, y: 0 };
   }
 
-  update(deltaTime: number): void {
-    super.update(deltaTime);
+  update(deltaTime: number, rng: SeededRandom): void {
+    super.update(deltaTime, rng);
 
     if (
       this.state === EntityState.ALIVE ||
@@ -362,7 +469,8 @@ export class Herbivore extends Entity implements IHerbivore {
         this.state === EntityState.ALIVE &&
         this.canReproduce() &&
         this.hunger < this.maxHunger * 0.3 &&
-        Math.random() < this.reproductionRate * deltaTime
+        rng.next() <
+          this.reproductionRate * this.reproductionModifier * deltaTime
       ) {
         this.state = EntityState.REPRODUCING;
       }
@@ -394,24 +502,8 @@ export class Herbivore extends Entity implements IHerbivore {
     }
 
     // Calculate hunger satisfaction based on amount eaten
-    let hungerSatisfaction = amountToEat * 35; // Increased: 35 hunger per kg of plant (was 20)
-
-    switch (this.species) {
-      case "rabbit":
-        hungerSatisfaction = amountToEat * 40; // Rabbits are efficient grazers (was 22)
-        break;
-      case "deer":
-        hungerSatisfaction = amountToEat * 30; // Deer need more food per kg (was 18)
-        break;
-      case "mouse":
-        hungerSatisfaction = amountToEat * 45; // Mice are very efficient (was 25)
-        break;
-      case "turtle":
-        hungerSatisfaction = amountToEat * 25; // Turtles are slow metabolizers (was 15)
-        break;
-      default:
-        hungerSatisfaction = amountToEat * 35;
-    }
+    const hungerSatisfaction =
+      amountToEat * SpeciesRegistry.getHerbivore(this.species).diet.hungerPerKg;
 
     this.hunger = Math.max(0, this.hunger - hungerSatisfaction);
     this.health = Math.min(
@@ -436,6 +528,16 @@ export interface ICarnivore extends IEntity {
   huntingStyle: "stealth" | "chase" | "ambush"; // New hunting style property
   stealthLevel: number; // How well they can sneak (0-1)
   detectionRange: number; // How far prey can detect them when sneaking
+  activity: ActivityPatternValue; // When the species is awake
+  genome: Genome; // Traits passed on to offspring
+  generation: number; // 0 for founders, parent's generation + 1 otherwise
+  infection: Infection | null; // Pathogen the creature carries
+  immunity: number; // Seconds until a recovered creature can fall ill again
+  migratingTo: string | null; // Teleporter the creature is leaving through
+  faction: string | null; // Faction of its room the creature belongs to
+  memories: MemoryPoint[]; // Places its AI remembers, for the debug panel
+  pack: string | null; // ID of the leader of the pack it hunts with
+  packRole: PackRoleValue | null;
   currentTarget: string | undefined; // ID of current hunting target
   hunt(prey: IHerbivore): void;
   clearTarget(): void;
@@ -452,6 +554,16 @@ export class Carnivore extends Entity implements ICarnivore {
   public huntingStyle: "stealth" | "chase" | "ambush";
   public stealthLevel: number;
   public detectionRange: number;
+  public activity: ActivityPatternValue;
+  public genome: Genome;
+  public generation: number;
+  public infection: Infection | null;
+  public immunity: number;
+  public migratingTo: string | null;
+  public faction: string | null;
+  public memories: MemoryPoint[];
+  public pack: string | null;
+  public packRole: PackRoleValue | null;
   public currentTarget: string | undefined;
 
   constructor(
@@ -462,71 +574,45 @@ export class Carnivore extends Entity implements ICarnivore {
   ) {
     super(id, EntityType.CARNIVORE, position, 100, 5.0, roomId);
     this.species = species;
-    this.speed = 90; // Much faster for visible movement
     this.hunger = 0;
-    this.maxHunger = 60; // Will be updated based on weight
-    this.attackPower = 25;
     this.reproductionRate = 0.0002; // Adjusted for 30 FPS (0.006/30)
 
     // Set species-specific stats with different speeds, weights, and hunting styles
-    switch (species) {
-      case "rat":
-        this.speed = 110; // Fast and agile
-        this.maxHealth = 80;
-        this.health = 80;
-        this.weight = 0.3; // Very light
-        this.attackPower = 20;
-        this.huntingStyle = "stealth"; // Rats are sneaky
-        this.stealthLevel = 0.8; // High stealth
-        this.detectionRange = 30; // Low detection range when sneaking
-        break;
-      case "wolf":
-        this.speed = 130; // Very fast, pack hunter
-        this.maxHealth = 120;
-        this.health = 120;
-        this.weight = 40.0; // Medium weight
-        this.attackPower = 35;
-        this.huntingStyle = "chase"; // Wolves chase their prey
-        this.stealthLevel = 0.3; // Low stealth, rely on speed
-        this.detectionRange = 80; // High detection range
-        break;
-      case "snake":
-        this.speed = 90; // Increased from 70 to 90 for visible movement
-        this.maxHealth = 60;
-        this.health = 60;
-        this.weight = 2.0; // Light
-        this.attackPower = 40;
-        this.huntingStyle = "ambush"; // Snakes ambush their prey
-        this.stealthLevel = 0.9; // Very high stealth
-        this.detectionRange = 20; // Very low detection range
-        break;
-      case "bear":
-        this.speed = 80; // Increased from 60 to 80 for visible movement
-        this.maxHealth = 200;
-        this.health = 200;
-        this.weight = 300.0; // Very heavy
-        this.attackPower = 50;
-        this.huntingStyle = "ambush"; // Bears ambush when possible
-        this.stealthLevel = 0.6; // Medium stealth for their size
-        this.detectionRange = 50; // Medium detection range
-        break;
-      default:
-        this.speed = 90;
-        this.maxHealth = 100;
-        this.health = 100;
-        this.weight = 5.0;
-        this.attackPower = 25;
-        this.huntingStyle = "chase";
-        this.stealthLevel = 0.5;
-        this.detectionRange = 60;
-    }
+    const { stats, hunting, activity } = SpeciesRegistry.getCarnivore(species);
+    this.speed = stats.speed;
+    this.maxHealth = stats.maxHealth;
+    this.health = stats.maxHealth;
+    this.weight = stats.weight;
+    this.attackPower = stats.attackPower;
+    this.huntingStyle = hunting.style;
+    this.stealthLevel = hunting.stealthLevel;
+    this.detectionRange = hunting.detectionRange;
+    this.activity = activity;
 
     // Set max hunger based on weight (heavier predators need more food)
     this.maxHunger = this.weight * 30; // 30 hunger per kg of body weight
+
+    this.genome = {
+      traits: {
+        speed: this.speed,
+        weight: this.weight,
+        stealthLevel: this.stealthLevel,
+        detectionRange: this.detectionRange,
+      },
+      personality: null,
+    };
+    this.generation = 0;
+    this.infection = null;
+    this.immunity = 0;
+    this.migratingTo = null;
+    this.faction = null;
+    this.memories = [];
+    this.pack = null;
+    this.packRole = null;
   }
 
-  update(deltaTime: number): void {
-    super.update(deltaTime);
+  update(deltaTime: number, rng: SeededRandom): void {
+    super.update(deltaTime, rng);
 
     if (this.state === EntityState.ALIVE) {
       this.hunger += deltaTime * 0.8; // Back to normal hunger rate
@@ -542,7 +628,8 @@ export class Carnivore extends Entity implements ICarnivore {
       if (
         this.canReproduce() &&
         this.hunger < this.maxHunger * 0.4 &&
-        Math.random() < this.reproductionRate * deltaTime
+        rng.next() <
+          this.reproductionRate * this.reproductionModifier * deltaTime
       ) {
         this.state = EntityState.REPRODUCING;
       }
@@ -588,24 +675,9 @@ export class Carnivore extends Entity implements ICarnivore {
       }
 
       // Calculate hunger satisfaction based on amount eaten
-      let hungerSatisfaction = amountToEat * 30; // Increased: 30 hunger per kg of prey (was 15)
-
-      switch (this.species) {
-        case "wolf":
-          hungerSatisfaction = amountToEat * 35; // Wolves are efficient hunters (was 18)
-          break;
-        case "bear":
-          hungerSatisfaction = amountToEat * 25; // Bears need more food per kg (was 12)
-          break;
-        case "snake":
-          hungerSatisfaction = amountToEat * 40; // Snakes are very efficient (was 20)
-          break;
-        case "rat":
-          hungerSatisfaction = amountToEat * 32; // Rats are somewhat efficient (was 16)
-          break;
-        default:
-          hungerSatisfaction = amountToEat * 30;
-      }
+      const hungerSatisfaction =
+        amountToEat *
+        SpeciesRegistry.getCarnivore(this.species).diet.hungerPerKg;
 
       // Reduce hunger and gain health
       this.hunger = Math.max(0, this.hunger - hungerSatisfaction);
@@ -621,6 +693,126 @@ export class Carnivore extends Entity implements ICarnivore {
   }
 }
 
+// Decomposer entity interface
+export interface IDecomposer extends IEntity {
+  species: string;
+  speed: number;
+  hunger: number;
+  maxHunger: number;
+  reproductionRate: number;
+  decompositionRate: number; // kg of carcass broken down per tick
+  activity: ActivityPatternValue; // When the species is awake
+  genome: Genome; // Traits passed on to offspring
+  generation: number; // 0 for founders, parent's generation + 1 otherwise
+  infection: Infection | null; // Pathogen the creature carries
+  immunity: number; // Seconds until a recovered creature can fall ill again
+  migratingTo: string | null; // Teleporter the creature is leaving through
+  faction: string | null; // Faction of its room the creature belongs to
+  memories: MemoryPoint[]; // Places its AI remembers, for the debug panel
+  currentTarget: string | undefined; // ID of current carcass
+  decompose(carcass: IEntity): number;
+  clearTarget(): void;
+}
+
+// Decomposer entity - breaks dead matter down into nutrients
+export class Decomposer extends Entity implements IDecomposer {
+  public species: string;
+  public speed: number;
+  public hunger: number;
+  public maxHunger: number;
+  public reproductionRate: number;
+  public decompositionRate: number;
+  public activity: ActivityPatternValue;
+  public genome: Genome;
+  public generation: number;
+  public infection: Infection | null;
+  public immunity: number;
+  public migratingTo: string | null;
+  public faction: string | null;
+  public memories: MemoryPoint[];
+  public currentTarget: string | undefined;
+
+  constructor(
+    id: string,
+    position: Position,
+    species: string = "beetle",
+    roomId: string = ""
+  ) {
+    super(id, EntityType.DECOMPOSER, position, 30, 0.1, roomId);
+    this.species = species;
+    this.hunger = 0;
+    this.maxHunger = 50;
+    this.reproductionRate = 0.0004;
+
+    // Set species-specific stats - slow movers that outlast their meals
+    const { stats, diet, activity } = SpeciesRegistry.getDecomposer(species);
+    this.speed = stats.speed;
+    this.maxHealth = stats.maxHealth;
+    this.health = stats.maxHealth;
+    this.weight = stats.weight;
+    this.decompositionRate = diet.decompositionRate;
+    this.reproductionRate = stats.reproductionRate ?? this.reproductionRate;
+    this.activity = activity;
+
+    this.genome = {
+      traits: {
+        speed: this.speed,
+        weight: this.weight,
+        decompositionRate: this.decompositionRate,
+      },
+      personality: null,
+    };
+    this.generation = 0;
+    this.infection = null;
+    this.immunity = 0;
+    this.migratingTo = null;
+    this.faction = null;
+    this.memories = [];
+  }
+
+  update(deltaTime: number, rng: SeededRandom): void {
+    super.update(deltaTime, rng);
+
+    if (this.state === EntityState.ALIVE) {
+      this.hunger = Math.min(this.maxHunger, this.hunger + deltaTime * 0.5);
+
+      if (this.hunger >= this.maxHunger) {
+        this.health -= deltaTime * 0.3;
+      }
+
+      if (
+        this.canReproduce() &&
+        this.hunger < this.maxHunger * 0.3 &&
+        rng.next() <
+          this.reproductionRate * this.reproductionModifier * deltaTime
+      ) {
+        this.state = EntityState.REPRODUCING;
+      }
+    }
+  }
+
+  // Break down part of a carcass. Returns the kg consumed.
+  decompose(carcass: IEntity): number {
+    const amount = Math.min(this.decompositionRate, carcass.weight);
+    carcass.weight = Math.max(0, carcass.weight - amount);
+    carcass.health = 0;
+
+    const hungerSatisfaction =
+      amount * SpeciesRegistry.getDecomposer(this.species).diet.hungerPerKg;
+    this.hunger = Math.max(0, this.hunger - hungerSatisfaction);
+    this.health = Math.min(
+      this.maxHealth,
+      this.health + hungerSatisfaction * 0.5
+    );
+
+    return amount;
+  }
+
+  clearTarget(): void {
+    this.currentTarget = undefined;
+  }
+}
+
 // Player entity interface
 export interface IPlayer extends IEntity {
   inventory: IEntity[];
@@ -833,6 +1025,43 @@ export interface Room {
   biome: string;
   entities: IEntity[];
   teleporters: Teleporter[];
+  soil: SoilGrid;
+  atmosphere: RoomAtmosphere;
+  weather: RoomWeather;
+  factions: Faction[];
+}
+
+// A group of creatures sharing a territory of their room
+export interface Faction {
+  id: string;
+  name: string;
+  color: string;
+  territory: { x: number; y: number; radius: number }; // Circle in the room
+  relations: { [factionId: string]: FactionRelationValue };
+  standing: number; // With the player, from -100 (hated) to 100 (trusted)
+}
+
+// Current weather of a room. event is null in clear weather.
+export interface RoomWeather {
+  event: WeatherEventValue | null;
+  remaining: number; // Seconds until the event ends
+}
+
+// Air of a room. Levels are from 0 to 1; contamination makes part of the
+// oxygen unbreathable.
+export interface RoomAtmosphere {
+  oxygen: number;
+  contamination: number;
+}
+
+// Coarse nutrient and moisture grid over a room's floor. Cells are stored
+// row by row and both layers hold levels from 0 to 1.
+export interface SoilGrid {
+  cellSize: number;
+  columns: number;
+  rows: number;
+  nutrients: number[];
+  moisture: number[];
 }
 
 export interface Teleporter {
@@ -858,6 +1087,8 @@ export interface GameState {
   playerPosition: Position;
   rooms: Room[];
   currentRoomId: string;
+  seed: number; // Seed of the RNG that generated and drives this run
+  teleporterStates: { [teleporterId: string]: boolean };
 }
 
 // Game message interface
@@ -0,0 +1,108 @@
+import {
+  ActivityPatternValue,
+  EntityType,
+  ICarnivore,
+} from "./gameTypes";
+
+// How a species is drawn in a room
+export interface SpeciesSprite {
+  icon: string;
+  color: string;
+  size: number; // Width and height in pixels
+}
+
+// Tuning of the AI that drives an animal species
+export interface AIProfile {
+  threatRange: number; // Predators closer than this are fled from, 0 if none
+  fleeSpeedMultiplier: number; // Speed while fleeing, relative to its own
+  wanderRadius: number; // Radius of the wander circle
+  wanderDistance: number; // Distance of the wander circle ahead
+}
+
+// How a species fares in a room outside its home biomes. Factors of 1 mean
+// no change; plants only use reproductionRate and competition.
+export interface InvasiveProfile {
+  speedMultiplier: number;
+  reproductionRate: number;
+  foodEfficiency: number; // Applied to food from outside its home biomes
+  competition: number; // How much it holds back natives of its kind (0-1)
+}
+
+// Fields shared by every species
+interface SpeciesBase {
+  id: string; // Stored on entities as their species
+  name: string;
+  biomes: string[]; // Home biomes, whose rooms are stocked with the species
+  sprite: SpeciesSprite;
+  invasive?: InvasiveProfile; // A mild disadvantage when left out
+}
+
+export interface PlantSpecies extends SpeciesBase {
+  kind: typeof EntityType.PLANT;
+  stats: {
+    weight: number;
+    foodValue: number;
+    oxygenProduction: number;
+    needsLight: boolean;
+  };
+}
+
+export interface HerbivoreSpecies extends SpeciesBase {
+  kind: typeof EntityType.HERBIVORE;
+  stats: {
+    speed: number;
+    maxHealth: number;
+    weight: number;
+    foodValue: number;
+  };
+  diet: {
+    hungerPerKg: number; // Hunger satisfied per kg of plant eaten
+    grazingHungerThreshold: number; // Hunger (0-1) at which it looks for food
+    eatingHungerThreshold: number; // Hunger (0-1) at which it starts eating
+  };
+  activity: ActivityPatternValue;
+  ai: AIProfile;
+}
+
+export interface CarnivoreSpecies extends SpeciesBase {
+  kind: typeof EntityType.CARNIVORE;
+  stats: {
+    speed: number;
+    maxHealth: number;
+    weight: number;
+    attackPower: number;
+  };
+  diet: {
+    hungerPerKg: number; // Hunger satisfied per kg of prey eaten
+  };
+  hunting: {
+    style: ICarnivore["huntingStyle"];
+    stealthLevel: number; // How well it sneaks (0-1)
+    detectionRange: number; // How far prey can detect it when sneaking
+    social?: boolean; // Hunts in packs with others of its species
+  };
+  activity: ActivityPatternValue;
+  ai: AIProfile;
+}
+
+export interface DecomposerSpecies extends SpeciesBase {
+  kind: typeof EntityType.DECOMPOSER;
+  stats: {
+    speed: number;
+    maxHealth: number;
+    weight: number;
+    reproductionRate?: number; // Overrides the decomposer default
+  };
+  diet: {
+    hungerPerKg: number; // Hunger satisfied per kg of dead matter
+    decompositionRate: number; // kg of carcass broken down per tick
+  };
+  activity: ActivityPatternValue;
+  ai: AIProfile;
+}
+
+export type SpeciesDefinition =
+  | PlantSpecies
+  | HerbivoreSpecies
+  | CarnivoreSpecies
+  | DecomposerSpecies;
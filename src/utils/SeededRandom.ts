@@ -0,0 +1,54 @@
+// Seedable pseudo-random number generator (mulberry32).
+// Every random decision in the simulation goes through an instance of this
+// class so that the same seed plus the same inputs reproduces the same world.
+export class SeededRandom {
+  private readonly seed: number;
+  private state: number;
+
+  constructor(seed: number = SeededRandom.generateSeed()) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  // Create a fresh seed for a new run
+  static generateSeed(): number {
+    return Math.floor(Math.random() * 0xffffffff) >>> 0;
+  }
+
+  getSeed(): number {
+    return this.seed;
+  }
+
+  // Current internal state, used to resume a sequence
+  getState(): number {
+    return this.state;
+  }
+
+  setState(state: number): void {
+    this.state = state >>> 0;
+  }
+
+  // Float in [0, 1) - drop-in replacement for Math.random()
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  // Float in [min, max)
+  range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  // Integer in [0, maxExclusive)
+  int(maxExclusive: number): number {
+    return Math.floor(this.next() * maxExclusive);
+  }
+
+  // Random element of a non-empty array
+  pick<T>(items: T[]): T {
+    return items[this.int(items.length)]!;
+  }
+}